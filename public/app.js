@@ -3,37 +3,171 @@ let socket;
 let isConnected = false;
 let recentMessages = [];
 let isSubmitting = false; // Add submission guard
+let apiKey = localStorage.getItem('apiKey');
+let templates = [];
+let previewTimer;
+let selectedContact = null;
+let sessions = {};
+let hasConnectedSession = false;
+let isPaused = false;
+
+// How far a sent message has got, as WhatsApp reports it
+const RECEIPT_LABELS = {
+  sent: 'تم الإرسال',
+  server_ack: 'وصل إلى خادم واتساب',
+  delivered: 'تم التسليم',
+  read: 'تمت القراءة',
+  played: 'تم التشغيل',
+};
+
+const LANE_LABELS = {
+  otp: 'رموز التحقق',
+  transactional: 'المعاملات',
+  marketing: 'التسويق',
+};
+
+const QUEUE_STATUS_LABELS = {
+  pending: 'في الانتظار',
+  scheduled: 'مجدولة',
+  sending: 'قيد الإرسال',
+};
+
+// Connection statuses of a running session that is not connected
+const CONNECTION_STATUS_LABELS = {
+  connecting: 'جاري الاتصال...',
+  reconnecting: 'انقطع الاتصال، جاري إعادة المحاولة...',
+  conflict: 'الرقم مفتوح في جلسة أخرى',
+  'logged-out': 'تم تسجيل الخروج',
+  'gave-up': 'تعذر الاتصال بعد عدة محاولات',
+};
 
 // DOM elements
 const statusIndicator = document.getElementById('statusIndicator');
 const statusDot = document.querySelector('.status-dot');
 const statusText = document.querySelector('.status-text');
-const qrContainer = document.getElementById('qrContainer');
-const connectedState = document.getElementById('connectedState');
 const messageSection = document.getElementById('messageSection');
-const qrCode = document.getElementById('qrCode');
 const messageForm = document.getElementById('messageForm');
-const logoutBtn = document.getElementById('logoutBtn');
+const sessionsList = document.getElementById('sessionsList');
+const sessionForm = document.getElementById('sessionForm');
+const sessionSelect = document.getElementById('sessionSelect');
 const clearBtn = document.getElementById('clearBtn');
 const pendingCount = document.getElementById('pendingCount');
+const scheduledCount = document.getElementById('scheduledCount');
 const processingCount = document.getElementById('processingCount');
+const completedCount = document.getElementById('completedCount');
+const failedCount = document.getElementById('failedCount');
+const nextSendTime = document.getElementById('nextSendTime');
+const laneCounts = document.getElementById('laneCounts');
+const laneSelect = document.getElementById('laneSelect');
+const sendingState = document.getElementById('sendingState');
+const pauseBtn = document.getElementById('pauseBtn');
+const queueLaneFilter = document.getElementById('queueLaneFilter');
+const queueStatusFilter = document.getElementById('queueStatusFilter');
+const queueItemsBody = document.getElementById('queueItemsBody');
 const messagesList = document.getElementById('messagesList');
 const toastContainer = document.getElementById('toastContainer');
+const authSection = document.getElementById('authSection');
+const authForm = document.getElementById('authForm');
+const connectionSection = document.getElementById('connectionSection');
+const templateSelect = document.getElementById('templateSelect');
+const templateFields = document.getElementById('templateFields');
+const templateLanguage = document.getElementById('templateLanguage');
+const templateVariables = document.getElementById('templateVariables');
+const templatePreview = document.getElementById('templatePreview');
+const messageGroup = document.getElementById('messageGroup');
+const messageInput = document.getElementById('message');
+const mediaInput = document.getElementById('mediaFile');
+const contentTypeSelect = document.getElementById('contentType');
+// Fields of the content kinds sent instead of text and media
+const contentFields = {
+  location: document.getElementById('locationFields'),
+  contact: document.getElementById('contactFields'),
+  poll: document.getElementById('pollFields'),
+};
+const conversationsSection = document.getElementById('conversationsSection');
+const contactsList = document.getElementById('contactsList');
+const conversationHeader = document.getElementById('conversationHeader');
+const conversationMessages = document.getElementById('conversationMessages');
 
 // Initialize the application
 document.addEventListener('DOMContentLoaded', function () {
-  initializeSocket();
   setupEventListeners();
-  updateStatus('جاري الاتصال...', false);
+
+  if (apiKey) {
+    initializeSocket();
+    updateStatus('جاري الاتصال...', false);
+  } else {
+    showAuthForm();
+  }
 });
 
+// Ask for an API key and hide everything else
+function showAuthForm() {
+  authSection.style.display = 'block';
+  connectionSection.style.display = 'none';
+  messageSection.style.display = 'none';
+  conversationsSection.style.display = 'none';
+  updateStatus('مطلوب مفتاح API', false);
+}
+
+// Handle API key submission
+function handleAuthSubmit(e) {
+  e.preventDefault();
+
+  apiKey = document.getElementById('apiKeyInput').value.trim();
+  if (!apiKey) return;
+
+  localStorage.setItem('apiKey', apiKey);
+  authForm.reset();
+  authSection.style.display = 'none';
+  connectionSection.style.display = 'block';
+
+  if (socket) {
+    socket.auth = { apiKey };
+    socket.connect();
+  } else {
+    initializeSocket();
+  }
+}
+
+// Forget a rejected API key
+function handleUnauthorized() {
+  localStorage.removeItem('apiKey');
+  apiKey = null;
+  showAuthForm();
+  showToast('مفتاح API غير صالح أو لا يملك الصلاحية المطلوبة', 'error');
+}
+
+// Call the REST API with the stored API key
+async function apiFetch(url, options = {}) {
+  const response = await fetch(url, {
+    ...options,
+    headers: { ...(options.headers || {}), 'X-API-Key': apiKey },
+  });
+
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+
+  return response;
+}
+
 // Initialize WebSocket connection
 function initializeSocket() {
-  socket = io();
+  socket = io({ auth: { apiKey } });
+
+  socket.on('connect_error', (error) => {
+    console.log('Connection error:', error.message);
+    if (error.message === 'Unauthorized') {
+      socket.disconnect();
+      handleUnauthorized();
+    }
+  });
 
   socket.on('connect', () => {
     console.log('Connected to server');
     updateStatus('متصل', true);
+    loadSessions();
   });
 
   socket.on('disconnect', () => {
@@ -42,26 +176,49 @@ function initializeSocket() {
     showToast('انقطع الاتصال. جاري إعادة الاتصال...', 'warning');
   });
 
-  socket.on('stateChange', (state) => {
-    console.log('WhatsApp state changed:', state);
-    handleStateChange(state);
+  socket.on('stateChange', (sessionId, state) => {
+    console.log('WhatsApp state changed:', sessionId, state);
+    handleStateChange(sessionId, state);
   });
 
-  socket.on('messageSent', (messageId, whatsappId) => {
+  socket.on('sessionsChanged', () => {
+    loadSessions();
+  });
+
+  socket.on('messageSent', (sessionId, messageId, whatsappId) => {
     console.log('Message sent:', messageId, whatsappId);
     updateMessageStatus(messageId, 'success', `تم الإرسال (ID: ${whatsappId})`);
     showToast('تم إرسال الرسالة بنجاح!', 'success');
     updateQueueStatus();
   });
 
-  socket.on('messageFailed', (messageId, error) => {
+  socket.on('messageFailed', (sessionId, messageId, error) => {
     console.log('Message failed:', messageId, error);
     updateMessageStatus(messageId, 'error', `فشل: ${error}`);
     showToast(`فشل في إرسال الرسالة: ${error}`, 'error');
     updateQueueStatus();
   });
 
-  socket.on('messageSending', (message) => {
+  socket.on('messageCancelled', (sessionId, messageId) => {
+    console.log('Message cancelled:', messageId);
+    updateMessageStatus(messageId, 'error', 'تم الإلغاء');
+    updateQueueStatus();
+  });
+
+  socket.on('messageStatus', (sessionId, message) => {
+    console.log('Message status:', message.id, message.status);
+    const at = {
+      server_ack: message.serverAckAt,
+      delivered: message.deliveredAt,
+      read: message.readAt,
+      played: message.playedAt,
+    }[message.status];
+    const time = at ? ` (${new Date(at).toLocaleTimeString('ar-SA')})` : '';
+    const status = message.status === 'read' || message.status === 'played' ? 'success read' : 'success';
+    updateMessageStatus(message.id, status, `${RECEIPT_LABELS[message.status]}${time}`);
+  });
+
+  socket.on('messageSending', (sessionId, message) => {
     console.log('Message sending:', message);
     addMessageToList(message, 'pending');
     updateQueueStatus();
@@ -69,22 +226,156 @@ function initializeSocket() {
 
   socket.on('queueStatus', (status) => {
     updateQueueDisplay(status);
+    loadQueueItems();
+  });
+
+  socket.on('queuePaused', (paused) => {
+    showToast(paused ? 'تم إيقاف الإرسال مؤقتاً' : 'تم استئناف الإرسال', paused ? 'warning' : 'success');
+  });
+
+  socket.on('messageReceived', (sessionId, message) => {
+    console.log('Message received:', sessionId, message);
+    showToast(
+      `رسالة جديدة من ${message.pushName || message.phoneNumber} على ${sessionName(sessionId)}`,
+      'info',
+    );
+    loadConversations();
+    if (message.phoneNumber === selectedContact) {
+      openConversation(selectedContact);
+    }
   });
 }
 
 // Setup event listeners
 function setupEventListeners() {
+  // API key submission
+  authForm.addEventListener('submit', handleAuthSubmit);
+
   // Form submission
   messageForm.addEventListener('submit', handleFormSubmit);
 
-  // Logout button
-  logoutBtn.addEventListener('click', handleLogout);
+  // Add a WhatsApp number
+  sessionForm.addEventListener('submit', handleSessionSubmit);
 
   // Clear button
   clearBtn.addEventListener('click', clearForm);
 
   // File input change
-  document.getElementById('mediaFile').addEventListener('change', handleFileChange);
+  mediaInput.addEventListener('change', handleFileChange);
+
+  // Template selection and live preview
+  templateSelect.addEventListener('change', handleTemplateChange);
+  contentTypeSelect.addEventListener('change', handleContentTypeChange);
+  templateLanguage.addEventListener('change', schedulePreview);
+  templateVariables.addEventListener('input', schedulePreview);
+
+  // Live queue controls
+  pauseBtn.addEventListener('click', togglePause);
+  queueLaneFilter.addEventListener('change', loadQueueItems);
+  queueStatusFilter.addEventListener('change', loadQueueItems);
+}
+
+// Load the stored templates into the template selector
+async function loadTemplates() {
+  try {
+    const response = await apiFetch('/api/templates');
+    const result = await response.json();
+    if (!result.success) return;
+
+    templates = result.templates;
+    const selectedId = templateSelect.value;
+    templateSelect.length = 1;
+    templates.forEach((template) => {
+      const option = document.createElement('option');
+      option.value = template.id;
+      option.textContent = `${template.name} (v${template.currentVersion})`;
+      templateSelect.appendChild(option);
+    });
+    templateSelect.value = templates.some((template) => template.id === selectedId) ? selectedId : '';
+    handleTemplateChange();
+  } catch (error) {
+    console.error('Error loading templates:', error);
+  }
+}
+
+// Switch between free text and the selected template's variables
+function handleTemplateChange() {
+  const template = templates.find((candidate) => candidate.id === templateSelect.value);
+  templateVariables.innerHTML = '';
+  templatePreview.textContent = '';
+
+  // Disabled fields are left out of the submitted form data
+  templateFields.style.display = template ? 'block' : 'none';
+  templateLanguage.disabled = !template;
+  messageGroup.style.display = template ? 'none' : 'block';
+  messageInput.disabled = !!template;
+  messageInput.required = !template;
+
+  if (!template) return;
+
+  const version = template.versions.find((candidate) => candidate.version === template.currentVersion);
+  version.variables.forEach((variable) => {
+    const group = document.createElement('div');
+    group.className = 'form-group';
+
+    const label = document.createElement('label');
+    label.htmlFor = `variable-${variable.name}`;
+    label.textContent = variable.description || variable.name;
+
+    const input = document.createElement('input');
+    input.id = `variable-${variable.name}`;
+    input.name = `variables[${variable.name}]`;
+    input.type = variable.type === 'number' ? 'number' : variable.type === 'date' ? 'date' : 'text';
+    input.step = 'any';
+    input.required = true;
+
+    group.appendChild(label);
+    group.appendChild(input);
+    templateVariables.appendChild(group);
+  });
+
+  // Prefer the variant the template actually has
+  if (!version.content[templateLanguage.value]) {
+    templateLanguage.value = version.content.ar ? 'ar' : 'en';
+  }
+
+  schedulePreview();
+}
+
+// Debounce previews while the user is typing
+function schedulePreview() {
+  clearTimeout(previewTimer);
+  previewTimer = setTimeout(updatePreview, 300);
+}
+
+// Render the selected template on the server
+async function updatePreview() {
+  const templateId = templateSelect.value;
+  if (!templateId) return;
+
+  const variables = {};
+  templateVariables.querySelectorAll('input').forEach((input) => {
+    variables[input.id.replace('variable-', '')] = input.value;
+  });
+
+  try {
+    const response = await apiFetch(`/api/templates/${templateId}/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ variables, language: templateLanguage.value }),
+    });
+    const result = await response.json();
+
+    if (result.success) {
+      templatePreview.classList.remove('error');
+      templatePreview.textContent = result.preview.text;
+    } else {
+      templatePreview.classList.add('error');
+      templatePreview.textContent = (result.details || [result.error]).join('\n');
+    }
+  } catch (error) {
+    console.error('Error previewing template:', error);
+  }
 }
 
 // Handle form submission
@@ -100,9 +391,16 @@ async function handleFormSubmit(e) {
   const formData = new FormData(messageForm);
   const phoneNumber = formData.get('phoneNumber');
   const message = formData.get('message');
+  const templateId = formData.get('templateId');
   const mediaFile = formData.get('media');
+  const isText = contentTypeSelect.value === 'text';
 
-  if (!phoneNumber || !message) {
+  // Leave out the optional poll options that were left empty
+  const pollOptions = formData.getAll('poll[options][]').filter((option) => option.trim());
+  formData.delete('poll[options][]');
+  pollOptions.forEach((option) => formData.append('poll[options][]', option));
+
+  if (!phoneNumber || (isText && !message && !templateId)) {
     showToast('يرجى ملء جميع الحقول المطلوبة', 'error');
     return;
   }
@@ -115,7 +413,7 @@ async function handleFormSubmit(e) {
   sendBtn.disabled = true;
 
   try {
-    const response = await fetch('/api/send-message', {
+    const response = await apiFetch('/api/send-message', {
       method: 'POST',
       body: formData,
     });
@@ -128,12 +426,17 @@ async function handleFormSubmit(e) {
     } else {
       // Translate error messages to Arabic
       let errorMessage = result.error;
-      if (errorMessage.includes('Invalid Saudi or Egyptian phone number format')) {
-        errorMessage = 'صيغة رقم الهاتف غير صحيحة. يرجى إدخال رقم سعودي أو مصري صحيح';
+      const allowedCountries = (errorMessage.split('Allowed countries: ')[1] || '').trim();
+      if (errorMessage.includes('Invalid phone number format')) {
+        errorMessage = `صيغة رقم الهاتف غير صحيحة. الدول المسموح بها: ${allowedCountries}`;
+      } else if (errorMessage.includes('is not allowed')) {
+        errorMessage = `الدولة غير مسموح بها. الدول المسموح بها: ${allowedCountries}`;
       } else if (errorMessage.includes('WhatsApp is not connected')) {
         errorMessage = 'واتساب غير متصل. يرجى مسح رمز QR أولاً';
-      } else if (errorMessage.includes('Phone number and message are required')) {
+      } else if (errorMessage.includes('and message, templateId or rich content, are required')) {
         errorMessage = 'رقم الهاتف والرسالة مطلوبان';
+      } else if (errorMessage.includes('Template variables are invalid')) {
+        errorMessage = `قيم متغيرات القالب غير صحيحة: ${(result.details || []).join('، ')}`;
       }
       showToast(`خطأ: ${errorMessage}`, 'error');
     }
@@ -149,10 +452,12 @@ async function handleFormSubmit(e) {
 }
 
 // Handle logout
-async function handleLogout() {
+async function handleLogout(sessionId) {
   try {
-    const response = await fetch('/api/logout', {
+    const response = await apiFetch('/api/logout', {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId }),
     });
 
     const result = await response.json();
@@ -172,6 +477,15 @@ async function handleLogout() {
 // Handle file change
 function handleFileChange(e) {
   const file = e.target.files[0];
+
+  // Audio can go out as a voice note
+  const voiceNoteOption = document.getElementById('voiceNoteOption');
+  const isAudio = !!file && file.type.startsWith('audio/');
+  voiceNoteOption.style.display = isAudio ? 'flex' : 'none';
+  if (!isAudio) {
+    voiceNoteOption.querySelector('input').checked = false;
+  }
+
   if (file) {
     const maxSize = 16 * 1024 * 1024; // 16MB
     if (file.size > maxSize) {
@@ -186,41 +500,259 @@ function handleFileChange(e) {
 // Clear form
 function clearForm() {
   messageForm.reset();
+  handleContentTypeChange();
+  document.getElementById('voiceNoteOption').style.display = 'none';
   showToast('تم مسح النموذج', 'success');
 }
 
-// Handle WhatsApp state changes
-function handleStateChange(state) {
-  if (state.isAuthenticated) {
-    // Connected state
-    qrContainer.style.display = 'none';
-    connectedState.style.display = 'block';
-    messageSection.style.display = 'block';
-    updateStatus('واتساب متصل', true);
-    showToast('تم الاتصال بواتساب بنجاح!', 'success');
-  } else if (state.qrCode) {
-    // QR code state
-    qrContainer.style.display = 'block';
-    connectedState.style.display = 'none';
-    messageSection.style.display = 'none';
-    updateStatus('امسح رمز QR', false);
-
-    // Update QR code image
-    qrCode.innerHTML = `<img src="${state.qrCode}" alt="QR Code">`;
+// Show the fields of the chosen kind of message; a location, contact or poll goes without text or media
+function handleContentTypeChange() {
+  const type = contentTypeSelect.value;
+  const isText = type === 'text';
+
+  // Disabled fieldsets are left out of the submitted form data
+  Object.entries(contentFields).forEach(([name, fieldset]) => {
+    fieldset.style.display = name === type ? 'block' : 'none';
+    fieldset.disabled = name !== type;
+  });
+
+  if (!isText) {
+    templateSelect.value = '';
+  }
+  handleTemplateChange();
+  templateSelect.disabled = !isText;
+  templateSelect.closest('.form-group').style.display = isText ? 'block' : 'none';
+  mediaInput.disabled = !isText;
+  mediaInput.closest('.form-group').style.display = isText ? 'block' : 'none';
+
+  if (!isText) {
+    messageGroup.style.display = 'none';
+    messageInput.disabled = true;
+    messageInput.required = false;
+  }
+}
+
+// Load the WhatsApp sessions and their current state
+async function loadSessions() {
+  try {
+    const response = await apiFetch('/api/sessions');
+    const result = await response.json();
+    if (!result.success) return;
+
+    sessions = {};
+    result.sessions.forEach((session) => {
+      sessions[session.id] = session;
+    });
+    renderSessions();
+  } catch (error) {
+    console.error('Error loading sessions:', error);
+  }
+}
+
+// Handle a state change of one WhatsApp session
+function handleStateChange(sessionId, state) {
+  const session = sessions[sessionId];
+  if (!session) {
+    loadSessions();
+    return;
+  }
+
+  if (state.isAuthenticated && !session.state.isAuthenticated) {
+    showToast(`تم الاتصال بواتساب (${session.name}) بنجاح!`, 'success');
+  }
+  session.state = state;
+  renderSessions();
+}
+
+// Draw one card per session and show the send form while any session is connected
+function renderSessions() {
+  sessionsList.innerHTML = '';
+  Object.values(sessions).forEach((session) => {
+    sessionsList.appendChild(createSessionCard(session));
+  });
+
+  const connected = Object.values(sessions).filter((session) => session.state.isAuthenticated);
+  const selectedId = sessionSelect.value;
+  sessionSelect.innerHTML = '';
+  connected.forEach((session) => {
+    const option = document.createElement('option');
+    option.value = session.id;
+    option.textContent = session.name;
+    sessionSelect.appendChild(option);
+  });
+  if (connected.some((session) => session.id === selectedId)) {
+    sessionSelect.value = selectedId;
+  }
+
+  messageSection.style.display = connected.length > 0 ? 'block' : 'none';
+  conversationsSection.style.display = connected.length > 0 ? 'block' : 'none';
+  updateStatus(
+    connected.length > 0
+      ? `واتساب متصل (${connected.length}/${Object.keys(sessions).length})`
+      : 'واتساب غير متصل',
+    connected.length > 0,
+  );
+
+  // Load templates and conversations once the first session connects
+  if (connected.length > 0 && !hasConnectedSession) {
+    loadTemplates();
+    loadConversations();
+  }
+  hasConnectedSession = connected.length > 0;
+}
+
+function createSessionCard(session) {
+  const card = document.createElement('div');
+  card.className = 'session-card';
+
+  const title = document.createElement('h3');
+  title.textContent = session.name;
+  const id = document.createElement('small');
+  id.textContent = session.id;
+  title.appendChild(id);
+  card.appendChild(title);
+
+  const body = document.createElement('div');
+  if (session.state.isAuthenticated) {
+    body.className = 'success-message';
+    body.innerHTML = '<i class="fas fa-check-circle"></i><p>متصل وجاهز لإرسال الرسائل.</p>';
+  } else if (session.state.pairingCode) {
+    // Linking by phone number was asked for, so the code replaces the QR code
+    const { code, phoneNumber, expiresAt } = session.state.pairingCode;
+    body.className = 'pairing-code';
+    body.innerHTML = '<strong></strong><p></p><small></small>';
+    const expiry = new Date(expiresAt).toLocaleTimeString('ar-SA');
+    body.querySelector('strong').textContent = `${code.slice(0, 4)}-${code.slice(4)}`;
+    body.querySelector('p').textContent = `أدخل الرمز في واتساب على ${phoneNumber}`;
+    body.querySelector('small').textContent = `الأجهزة المرتبطة ← الربط برقم الهاتف. ينتهي الساعة ${expiry}`;
+  } else if (session.state.qrCode) {
+    body.className = 'qr-code';
+    const image = document.createElement('img');
+    image.src = session.state.qrCode;
+    image.alt = 'QR Code';
+    body.appendChild(image);
   } else {
-    // Disconnected state
-    qrContainer.style.display = 'block';
-    connectedState.style.display = 'none';
-    messageSection.style.display = 'none';
-    updateStatus('غير متصل', false);
+    body.className = 'loading';
+    if (!session.isRunning) {
+      body.innerHTML = '<i class="fas fa-power-off"></i><p>متوقف</p>';
+    } else {
+      const waiting = ['connecting', 'reconnecting'].includes(session.state.status);
+      body.innerHTML = `<i class="fas ${
+        waiting ? 'fa-spinner fa-spin' : 'fa-exclamation-triangle'
+      }"></i><p></p>`;
+      body.querySelector('p').textContent =
+        CONNECTION_STATUS_LABELS[session.state.status] || CONNECTION_STATUS_LABELS.connecting;
+    }
+  }
+  card.appendChild(body);
+
+  const actions = document.createElement('div');
+  actions.className = 'session-actions';
+  const addAction = (label, className, handler) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `btn ${className}`;
+    button.textContent = label;
+    button.addEventListener('click', handler);
+    actions.appendChild(button);
+  };
 
-    // Show loading state
-    qrCode.innerHTML = `
-            <div class="loading">
-                <i class="fas fa-spinner fa-spin"></i>
-                <p>جاري الاتصال...</p>
-            </div>
-        `;
+  if (session.state.isAuthenticated) {
+    addAction('تسجيل الخروج', 'btn-danger', () => handleLogout(session.id));
+  }
+  if (session.state.status === 'qr-pending') {
+    addAction('الربط برقم الهاتف', 'btn-primary', () => handlePairingCode(session.id));
+  }
+  if (session.isRunning && !session.state.isAuthenticated) {
+    addAction('إعادة الاتصال', 'btn-primary', () => handleSessionAction(session.id, 'reconnect'));
+  }
+  if (session.isRunning) {
+    addAction('إيقاف', 'btn-secondary', () => handleSessionAction(session.id, 'stop'));
+  } else {
+    addAction('تشغيل', 'btn-primary', () => handleSessionAction(session.id, 'start'));
+  }
+  if (session.id !== 'default') {
+    addAction('حذف', 'btn-danger', () => handleSessionAction(session.id, 'delete'));
+  }
+  card.appendChild(actions);
+
+  return card;
+}
+
+function sessionName(sessionId) {
+  return sessions[sessionId] ? sessions[sessionId].name : sessionId;
+}
+
+// Start, stop or delete a session
+async function handleSessionAction(sessionId, action) {
+  if (action === 'delete' && !confirm(`حذف الرقم ${sessionName(sessionId)} وتسجيل خروجه؟`)) {
+    return;
+  }
+
+  try {
+    const response = await apiFetch(
+      action === 'delete' ? `/api/sessions/${sessionId}` : `/api/sessions/${sessionId}/${action}`,
+      { method: action === 'delete' ? 'DELETE' : 'POST' },
+    );
+    const result = await response.json();
+    if (!result.success) {
+      showToast(`خطأ: ${result.error}`, 'error');
+    }
+    loadSessions();
+  } catch (error) {
+    console.error(`Error during session ${action}:`, error);
+    showToast('فشل تنفيذ العملية. يرجى المحاولة مرة أخرى.', 'error');
+  }
+}
+
+// Link a number by typing a code on the phone; the code arrives over the socket like the QR code
+async function handlePairingCode(sessionId) {
+  const phoneNumber = prompt(`رقم الهاتف المراد ربطه بـ ${sessionName(sessionId)}:`);
+  if (!phoneNumber || !phoneNumber.trim()) {
+    return;
+  }
+
+  try {
+    const response = await apiFetch(`/api/sessions/${sessionId}/pairing-code`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ phoneNumber: phoneNumber.trim() }),
+    });
+    const result = await response.json();
+    if (!result.success) {
+      showToast(`خطأ: ${result.error}`, 'error');
+    }
+  } catch (error) {
+    console.error('Error requesting pairing code:', error);
+    showToast('فشل في طلب رمز الربط. يرجى المحاولة مرة أخرى.', 'error');
+  }
+}
+
+// Add a WhatsApp number; its QR code arrives over the socket
+async function handleSessionSubmit(e) {
+  e.preventDefault();
+
+  try {
+    const response = await apiFetch('/api/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        id: document.getElementById('sessionIdInput').value.trim(),
+        name: document.getElementById('sessionNameInput').value.trim() || undefined,
+      }),
+    });
+    const result = await response.json();
+
+    if (result.success) {
+      sessionForm.reset();
+      showToast(`تمت إضافة ${result.session.name}. امسح رمز QR للاتصال`, 'success');
+      loadSessions();
+    } else {
+      showToast(`خطأ: ${result.error}`, 'error');
+    }
+  } catch (error) {
+    console.error('Error creating session:', error);
+    showToast('فشل في إضافة الرقم. يرجى المحاولة مرة أخرى.', 'error');
   }
 }
 
@@ -244,6 +776,8 @@ function addMessageToList(message, status) {
 
   const time = new Date(message.timestamp).toLocaleTimeString('ar-SA');
   const phoneDisplay = message.phoneNumber.replace('+966', '0');
+  // Name the sending number once there is more than one
+  const senderDisplay = Object.keys(sessions).length > 1 ? ` ← ${sessionName(message.sessionId)}` : '';
 
   const statusText =
     status === 'pending'
@@ -256,10 +790,10 @@ function addMessageToList(message, status) {
 
   messageItem.innerHTML = `
         <div class="message-header">
-            <span class="message-phone">${phoneDisplay}</span>
+            <span class="message-phone">${phoneDisplay}${senderDisplay}</span>
             <span class="message-time">${time}</span>
         </div>
-        <div class="message-text">${message.message}</div>
+        <div class="message-text">${messageSummary(message)}</div>
         <div class="message-status ${status}">
             ${statusText}
         </div>
@@ -274,6 +808,25 @@ function addMessageToList(message, status) {
   }
 }
 
+// Text shown for an outbound message; a location, contact, reaction or poll has none of its own
+function messageSummary(message) {
+  const { content } = message;
+  if (!content) return message.message;
+
+  switch (content.type) {
+    case 'location':
+      return `📍 موقع: ${content.name || `${content.latitude}, ${content.longitude}`}`;
+    case 'contact':
+      return `👤 جهة اتصال: ${content.name}`;
+    case 'reaction':
+      return content.emoji ? `تفاعل ${content.emoji}` : 'إزالة تفاعل';
+    case 'poll':
+      return `📊 استطلاع: ${content.question}`;
+    default:
+      return message.message;
+  }
+}
+
 // Update message status
 function updateMessageStatus(messageId, status, statusText) {
   const messageItem = document.getElementById(`message-${messageId}`);
@@ -289,7 +842,7 @@ function updateMessageStatus(messageId, status, statusText) {
 
 // Update queue status display
 function updateQueueStatus() {
-  fetch('/api/queue-status')
+  apiFetch('/api/queue-status')
     .then((response) => response.json())
     .then((result) => {
       if (result.success) {
@@ -304,7 +857,274 @@ function updateQueueStatus() {
 // Update queue display
 function updateQueueDisplay(status) {
   pendingCount.textContent = status.pending;
+  scheduledCount.textContent = status.scheduled;
   processingCount.textContent = status.processing;
+  completedCount.textContent = status.completed;
+  failedCount.textContent = status.failed;
+  // Messages held by the rate limits wait until this time
+  nextSendTime.textContent =
+    status.nextSendAt && status.nextSendAt > Date.now()
+      ? new Date(status.nextSendAt).toLocaleTimeString('ar-SA')
+      : '-';
+  renderLanes(status.lanes || {});
+  setPaused(!!status.paused);
+}
+
+// Show waiting messages per lane and keep the lane picker in step with the server's lanes
+function renderLanes(lanes) {
+  const names = Object.keys(lanes);
+  laneCounts.textContent =
+    names.map((name) => `${laneName(name)}: ${lanes[name].pending + lanes[name].scheduled}`).join(' • ') ||
+    '-';
+
+  for (const select of [laneSelect, queueLaneFilter]) {
+    for (const name of names) {
+      if (!select.querySelector(`option[value="${name}"]`)) {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = laneName(name);
+        select.appendChild(option);
+      }
+    }
+  }
+}
+
+function laneName(name) {
+  return LANE_LABELS[name] || name;
+}
+
+// Reflect whether an admin paused sending
+function setPaused(paused) {
+  isPaused = paused;
+  sendingState.textContent = paused ? 'متوقف مؤقتاً' : 'يعمل';
+  sendingState.classList.toggle('paused', paused);
+  pauseBtn.innerHTML = paused
+    ? '<i class="fas fa-play"></i> استئناف الإرسال'
+    : '<i class="fas fa-pause"></i> إيقاف مؤقت';
+}
+
+async function togglePause() {
+  try {
+    const response = await apiFetch(isPaused ? '/api/queue/resume' : '/api/queue/pause', {
+      method: 'POST',
+    });
+    const result = await response.json();
+    if (result.success) {
+      updateQueueDisplay(result.status);
+    } else {
+      showToast(`خطأ: ${result.error}`, 'error');
+    }
+  } catch (error) {
+    console.error('Error toggling queue pause:', error);
+    showToast('فشل تنفيذ العملية. يرجى المحاولة مرة أخرى.', 'error');
+  }
+}
+
+// Load the messages waiting in the queue, in the order they will be sent
+async function loadQueueItems() {
+  if (messageSection.style.display === 'none') return;
+
+  const params = new URLSearchParams({ limit: '50' });
+  if (queueLaneFilter.value) params.set('lane', queueLaneFilter.value);
+  if (queueStatusFilter.value) params.set('status', queueStatusFilter.value);
+
+  try {
+    const response = await apiFetch(`/api/queue/items?${params}`);
+    const result = await response.json();
+    if (!result.success) return;
+
+    queueItemsBody.innerHTML = '';
+    if (result.messages.length === 0) {
+      const row = queueItemsBody.insertRow();
+      const cell = row.insertCell();
+      cell.colSpan = 6;
+      cell.className = 'queue-empty';
+      cell.textContent = 'لا توجد رسائل في الطابور';
+      return;
+    }
+    result.messages.forEach((message) => queueItemsBody.appendChild(createQueueRow(message)));
+  } catch (error) {
+    console.error('Error loading queued messages:', error);
+  }
+}
+
+function createQueueRow(message) {
+  const row = document.createElement('tr');
+  const isScheduled = message.status === 'pending' && message.sendAt && message.sendAt > Date.now();
+  const status = message.status === 'sending' ? 'sending' : isScheduled ? 'scheduled' : 'pending';
+  const senderDisplay = Object.keys(sessions).length > 1 ? ` ← ${sessionName(message.sessionId)}` : '';
+
+  const cells = [
+    `${message.phoneNumber.replace('+966', '0')}${senderDisplay}`,
+    messageSummary(message),
+    laneName(message.lane || '-'),
+    message.pinnedAt ? `${QUEUE_STATUS_LABELS[status]} (في المقدمة)` : QUEUE_STATUS_LABELS[status],
+    isScheduled ? new Date(message.sendAt).toLocaleString('ar-SA') : '-',
+  ];
+  cells.forEach((text, index) => {
+    const cell = row.insertCell();
+    cell.textContent = text;
+    if (index === 1) cell.className = 'queue-text';
+  });
+
+  const actions = row.insertCell();
+  actions.className = 'queue-actions';
+  const addAction = (label, className, handler) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `btn ${className}`;
+    button.textContent = label;
+    button.addEventListener('click', handler);
+    actions.appendChild(button);
+  };
+
+  // Messages already being sent can no longer be moved or cancelled
+  if (message.status === 'pending') {
+    addAction('إلى المقدمة', 'btn-primary', () =>
+      handleQueueAction(`/api/message/${message.id}/move-to-front`, 'تم نقل الرسالة إلى المقدمة'),
+    );
+    addAction('إلغاء', 'btn-danger', () =>
+      handleQueueAction(`/api/message/${message.id}/cancel`, 'تم إلغاء الرسالة'),
+    );
+    if (message.batchId) {
+      addAction('إلغاء الدفعة', 'btn-danger', () => {
+        if (confirm('إلغاء كل رسائل هذه الدفعة التي لم تُرسل بعد؟')) {
+          handleQueueAction(`/api/bulk-send/${message.batchId}/cancel`, 'تم إلغاء الدفعة');
+        }
+      });
+    }
+  }
+
+  return row;
+}
+
+// Run an action on a queued message, then refresh the table and counts
+async function handleQueueAction(url, successText) {
+  try {
+    const response = await apiFetch(url, { method: 'POST' });
+    const result = await response.json();
+    if (result.success) {
+      showToast(successText, 'success');
+    } else {
+      showToast(`خطأ: ${result.error}`, 'error');
+    }
+    loadQueueItems();
+    updateQueueStatus();
+  } catch (error) {
+    console.error('Error running queue action:', error);
+    showToast('فشل تنفيذ العملية. يرجى المحاولة مرة أخرى.', 'error');
+  }
+}
+
+// Load the contacts who wrote to us
+async function loadConversations() {
+  try {
+    const response = await apiFetch('/api/inbox/conversations');
+    const result = await response.json();
+    if (!result.success) return;
+
+    contactsList.innerHTML = '';
+    result.conversations.forEach((conversation) => {
+      const item = document.createElement('button');
+      item.type = 'button';
+      item.className = 'contact-item';
+      item.dataset.phoneNumber = conversation.phoneNumber;
+      item.classList.toggle('active', conversation.phoneNumber === selectedContact);
+
+      const name = document.createElement('span');
+      name.className = 'contact-name';
+      name.textContent = conversation.pushName || conversation.phoneNumber;
+
+      const preview = document.createElement('span');
+      preview.className = 'contact-preview';
+      preview.textContent = conversation.lastText || 'مرفق';
+
+      item.appendChild(name);
+      item.appendChild(preview);
+      item.addEventListener('click', () => openConversation(conversation.phoneNumber));
+      contactsList.appendChild(item);
+    });
+  } catch (error) {
+    console.error('Error loading conversations:', error);
+  }
+}
+
+// Show the messages exchanged with one contact
+async function openConversation(phoneNumber) {
+  selectedContact = phoneNumber;
+  contactsList.querySelectorAll('.contact-item').forEach((item) => {
+    item.classList.toggle('active', item.dataset.phoneNumber === phoneNumber);
+  });
+
+  try {
+    const response = await apiFetch(`/api/inbox/conversations/${encodeURIComponent(phoneNumber)}`);
+    const result = await response.json();
+    if (!result.success) return;
+
+    conversationHeader.textContent = phoneNumber;
+    conversationMessages.innerHTML = '';
+    result.entries.forEach((entry) => {
+      conversationMessages.appendChild(createBubble(entry));
+    });
+    conversationMessages.scrollTop = conversationMessages.scrollHeight;
+  } catch (error) {
+    console.error('Error loading conversation:', error);
+  }
+}
+
+// Render one conversation entry as a chat bubble
+function createBubble(entry) {
+  const { direction, message, timestamp } = entry;
+  const bubble = document.createElement('div');
+  bubble.className = `bubble ${direction}`;
+
+  const text = document.createElement('div');
+  text.textContent = message.text || messageSummary(message) || '';
+  bubble.appendChild(text);
+
+  if (direction === 'inbound' && message.media) {
+    const link = document.createElement('button');
+    link.type = 'button';
+    link.className = 'btn-link';
+    link.textContent = `عرض المرفق (${message.type})`;
+    link.addEventListener('click', () => openInboundMedia(message.id));
+    bubble.appendChild(link);
+  } else if (direction === 'inbound' && message.location) {
+    const link = document.createElement('a');
+    link.href = `https://maps.google.com/?q=${message.location.latitude},${message.location.longitude}`;
+    link.target = '_blank';
+    link.rel = 'noopener';
+    link.textContent = message.location.name || 'عرض الموقع';
+    bubble.appendChild(link);
+  } else if (direction === 'outbound' && message.media) {
+    const attachment = document.createElement('div');
+    attachment.textContent = `📎 ${message.media.filename || message.media.type}`;
+    bubble.appendChild(attachment);
+  }
+
+  const meta = document.createElement('span');
+  meta.className = 'bubble-meta';
+  const time = new Date(timestamp).toLocaleString('ar-SA');
+  meta.textContent =
+    direction === 'outbound' ? `${time} · ${RECEIPT_LABELS[message.status] || message.status}` : time;
+  bubble.appendChild(meta);
+
+  return bubble;
+}
+
+// Inbound media needs the API key, so fetch it and open it as a blob
+async function openInboundMedia(messageId) {
+  try {
+    const response = await apiFetch(`/api/inbox/${messageId}/media`);
+    if (!response.ok) {
+      showToast('المرفق غير متوفر', 'error');
+      return;
+    }
+    const blob = await response.blob();
+    window.open(URL.createObjectURL(blob), '_blank');
+  } catch (error) {
+    console.error('Error opening media:', error);
+  }
 }
 
 // Show toast notification
@@ -4,31 +4,148 @@ import { Server } from 'socket.io';
 import path from 'path';
 import fs from 'fs';
 
+import { DEFAULT_SESSION_ID, SessionManager } from './services/SessionManager';
+import { FileQueueStore, MemoryQueueStore } from './services/QueueStore';
+import { RateLimiter } from './services/RateLimiter';
 import { WhatsAppService } from './services/WhatsAppService';
-import { MessageQueue } from './services/MessageQueue';
+import { MessageHistory } from './services/MessageHistory';
+import { WebhookService } from './services/WebhookService';
+import { ApiKeyService } from './services/ApiKeyService';
+import { BulkSendService } from './services/BulkSendService';
+import { TemplateService } from './services/TemplateService';
+import { InboxService } from './services/InboxService';
+import { IdempotencyService } from './services/IdempotencyService';
+import { NumberCheckService } from './services/NumberCheckService';
+import { MediaLibraryService } from './services/MediaLibraryService';
+import { MonitoringService } from './services/MonitoringService';
+import { ConnectionTransition, InboundMessage, MessageQueueItem, WhatsAppState } from './types';
 import apiRoutes, { setServices } from './routes/api';
 import logger from './utils/logger';
+import { MediaUtil } from './utils/media';
+import { PhoneNumberUtil } from './utils/phoneNumber';
+import { SendWindowUtil } from './utils/sendWindow';
 
 const app = express();
 const server = createServer(app);
 const io = new Server(server);
 
 const PORT = process.env.PORT || 3000;
+const DATA_DIR = process.env.DATA_DIR || 'data';
 
 // Create necessary directories
-const dirs = ['uploads', 'auth_info_baileys'];
+const dirs = ['uploads', 'auth_info_baileys', DATA_DIR];
 dirs.forEach((dir) => {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 });
 
-// Clean up uploads directory on startup
+// Initialize services
+const messageHistory = new MessageHistory(
+  path.join(DATA_DIR, 'history.journal'),
+  Number(process.env.HISTORY_RETENTION_DAYS) || 0,
+);
+const sessionManager = new SessionManager(
+  {
+    sessionsPath: path.join(DATA_DIR, 'sessions.journal'),
+    defaultAuthFolder: 'auth_info_baileys',
+    authDir: path.join(DATA_DIR, 'sessions'),
+    inboundMediaDir: path.join(DATA_DIR, 'inbound-media'),
+    createQueueStore: (sessionId) => {
+      if (process.env.QUEUE_STORE === 'memory') {
+        return new MemoryQueueStore();
+      }
+      // The default session keeps the journal from before sessions existed
+      const fileName = sessionId === DEFAULT_SESSION_ID ? 'queue.journal' : `queue-${sessionId}.journal`;
+      return new FileQueueStore(path.join(DATA_DIR, fileName));
+    },
+    throttlePolicy: RateLimiter.loadPolicy(),
+    connectionPolicy: WhatsAppService.loadConnectionPolicy(),
+  },
+  messageHistory,
+);
+const inboxService = new InboxService(
+  path.join(DATA_DIR, 'inbox.journal'),
+  messageHistory,
+  Number(process.env.HISTORY_RETENTION_DAYS) || 0,
+);
+const apiKeyService = new ApiKeyService(path.join(DATA_DIR, 'api-keys.journal'), process.env.ADMIN_API_KEY);
+const webhookOptions = {
+  subscriptionsPath: path.join(DATA_DIR, 'webhooks.journal'),
+  deliveriesPath: path.join(DATA_DIR, 'webhook-deliveries.journal'),
+  maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8,
+  clientCallbackSecret: (clientId: string) => apiKeyService.getCallbackSecret(clientId),
+};
+const webhookService = new WebhookService(
+  process.env.WEBHOOK_CALLBACK_SECRET
+    ? { ...webhookOptions, callbackSecret: process.env.WEBHOOK_CALLBACK_SECRET }
+    : webhookOptions,
+);
+const idempotencyService = new IdempotencyService(
+  path.join(DATA_DIR, 'idempotency.journal'),
+  Number(process.env.IDEMPOTENCY_TTL_HOURS) || 24,
+  Number(process.env.DEDUPE_WINDOW_MINUTES) || 0,
+);
+const numberCheckService = new NumberCheckService(
+  path.join(DATA_DIR, 'number-checks.journal'),
+  Number(process.env.NUMBER_CHECK_TTL_HOURS) || 24,
+);
+const bulkSendService = new BulkSendService(
+  path.join(DATA_DIR, 'batches.journal'),
+  sessionManager,
+  messageHistory,
+);
+const templateService = new TemplateService(
+  {
+    templatesPath: path.join(DATA_DIR, 'templates.journal'),
+    mediaDir: path.join(DATA_DIR, 'template-media'),
+    defaultLanguage: process.env.TEMPLATE_DEFAULT_LANGUAGE === 'en' ? 'en' : 'ar',
+  },
+  sessionManager,
+);
+const monitoringService = new MonitoringService(
+  sessionManager,
+  Number(process.env.READY_QUEUE_STALL_MS) || 5 * 60 * 1000,
+);
+const mediaLibraryService = new MediaLibraryService(
+  {
+    itemsPath: path.join(DATA_DIR, 'media-library.journal'),
+    mediaDir: path.join(DATA_DIR, 'media-library'),
+  },
+  sessionManager,
+);
+
+if (process.env.AUTH_DISABLED === 'true') {
+  logger.warn('API authentication is disabled (AUTH_DISABLED=true)');
+} else if (!apiKeyService.hasKeys()) {
+  logger.error('No API keys configured. Set ADMIN_API_KEY to create the first keys.');
+}
+
+const countriesWithoutTimeZone = SendWindowUtil.getCountriesWithoutTimeZone(
+  PhoneNumberUtil.getAllowedCountries(),
+);
+if (countriesWithoutTimeZone.length > 0) {
+  logger.warn(
+    'Quiet hours are not enforced for allowed countries without a time zone; set COUNTRY_TIMEZONES',
+    {
+      countries: countriesWithoutTimeZone,
+    },
+  );
+}
+
+// Reload the sessions and the messages they still had queued when the server last stopped
+sessionManager.restore();
+
+// Clean up uploads directory on startup, keeping media of restored messages
 const uploadsDir = path.join(__dirname, '../uploads');
 if (fs.existsSync(uploadsDir)) {
+  const referencedPaths = sessionManager.getReferencedMediaPaths();
   const files = fs.readdirSync(uploadsDir);
   files.forEach((file) => {
     const filePath = path.join(uploadsDir, file);
+    if (referencedPaths.has(path.resolve(filePath))) {
+      return;
+    }
     try {
       fs.unlinkSync(filePath);
       logger.info('Cleaned up old upload file', { file });
@@ -40,7 +157,8 @@ if (fs.existsSync(uploadsDir)) {
 }
 
 // Middleware
-app.use(express.json());
+// Leave room for base64 media, which is a third larger than the file it encodes
+app.use(express.json({ limit: Math.ceil((MediaUtil.getMaxBytes() * 4) / 3) + 1024 * 1024 }));
 app.use(express.urlencoded({ extended: true }));
 app.use(express.static(path.join(__dirname, '../public')));
 
@@ -52,23 +170,82 @@ app.get('/', (req, res) => {
   res.sendFile(path.join(__dirname, '../public/index.html'));
 });
 
-// Initialize services
-const whatsappService = new WhatsAppService();
-const messageQueue = new MessageQueue();
+// Liveness: the process is up and its event loop answers
+app.get('/healthz', (req, res) => {
+  res.json({ status: 'ok', uptime: Math.round(process.uptime()) });
+});
+
+// Readiness: WhatsApp is connected and the queues are moving
+app.get('/readyz', (req, res) => {
+  const readiness = monitoringService.getReadiness();
+  res.status(readiness.ready ? 200 : 503).json(readiness);
+});
+
+// Prometheus metrics
+app.get('/metrics', (req, res) => {
+  res.type('text/plain; version=0.0.4').send(monitoringService.renderMetrics());
+});
 
 // Inject services into API routes
-setServices(messageQueue, whatsappService);
+setServices(
+  sessionManager,
+  messageHistory,
+  webhookService,
+  apiKeyService,
+  bulkSendService,
+  templateService,
+  inboxService,
+  idempotencyService,
+  numberCheckService,
+  mediaLibraryService,
+);
+
+// Sockets allowed to see QR codes
+const ADMIN_ROOM = 'admin';
+
+// Authenticate WebSocket clients with the same API keys as the REST API
+io.use((socket, next) => {
+  if (process.env.AUTH_DISABLED === 'true') {
+    socket.data.isAdmin = true;
+    return next();
+  }
+
+  const key = socket.handshake.auth?.apiKey;
+  const apiKey = typeof key === 'string' ? apiKeyService.authenticate(key) : null;
+  if (!apiKey || !ApiKeyService.hasScope(apiKey, 'read-status')) {
+    logger.warn('Rejected unauthenticated socket connection', { socketId: socket.id });
+    return next(new Error('Unauthorized'));
+  }
+
+  socket.data.clientId = apiKey.id;
+  socket.data.isAdmin = ApiKeyService.hasScope(apiKey, 'admin');
+  return next();
+});
+
+// Only admin clients receive the QR and pairing codes, since using either takes over the session
+function broadcastState(sessionId: string, state: WhatsAppState) {
+  const { qrCode, pairingCode, ...publicState } = state;
+  io.to(ADMIN_ROOM).emit('stateChange', sessionId, state);
+  io.except(ADMIN_ROOM).emit('stateChange', sessionId, publicState);
+}
 
 // WebSocket connection handling
 io.on('connection', (socket) => {
-  logger.info('Client connected', { socketId: socket.id });
+  logger.info('Client connected', { socketId: socket.id, clientId: socket.data.clientId });
 
-  // Send current state to new client
-  const currentState = whatsappService.getState();
-  socket.emit('stateChange', currentState);
+  if (socket.data.isAdmin) {
+    socket.join(ADMIN_ROOM);
+  }
+
+  // Send the current state of every session to the new client
+  for (const session of sessionManager.list()) {
+    const currentState = session.whatsapp.getState();
+    const { qrCode, pairingCode, ...publicState } = currentState;
+    socket.emit('stateChange', session.id, socket.data.isAdmin ? currentState : publicState);
+  }
 
   // Send current queue status
-  const queueStatus = messageQueue.getStatus();
+  const queueStatus = sessionManager.getQueueStatus();
   socket.emit('queueStatus', queueStatus);
 
   socket.on('disconnect', () => {
@@ -76,55 +253,124 @@ io.on('connection', (socket) => {
   });
 });
 
-// --- Attach event listeners only ONCE ---
-// Remove any existing listeners to avoid duplicates
-messageQueue.removeAllListeners('sendMessage');
-messageQueue.on('sendMessage', (message) => {
-  whatsappService.emit('sendMessage', message);
+// Strip server-side details before a message leaves the process in a webhook or socket event
+function toWebhookMessage(message: MessageQueueItem) {
+  const { media, callbackUrl, ...rest } = message;
+  return media ? { ...rest, media: { type: media.type, filename: media.filename } } : rest;
+}
+
+function toWebhookInboundMessage(message: InboundMessage) {
+  const { media, ...rest } = message;
+  return media
+    ? { ...rest, media: { mimetype: media.mimetype, size: media.size, filename: media.filename } }
+    : rest;
+}
+
+// Session event handlers; every event carries the session id first
+const wasAuthenticated = new Map<string, boolean>();
+sessionManager.removeAllListeners('stateChange');
+sessionManager.on('stateChange', (sessionId: string, state: WhatsAppState) => {
+  // QR and pairing codes let whoever reads the logs link their own phone, so they stay out of them
+  const { qrCode, pairingCode, ...loggedState } = state;
+  logger.info(`WhatsApp state changed (${sessionId})`, loggedState);
+  broadcastState(sessionId, state);
+
+  // Only notify webhooks when the connection actually flips
+  if (state.isAuthenticated !== (wasAuthenticated.get(sessionId) ?? false)) {
+    wasAuthenticated.set(sessionId, state.isAuthenticated);
+    webhookService.dispatch(state.isAuthenticated ? 'connection.open' : 'connection.closed', {
+      sessionId,
+      isConnected: state.isConnected,
+      isAuthenticated: state.isAuthenticated,
+    });
+  }
+});
+
+// Every status change of a connection, e.g. open -> reconnecting, with why it happened
+sessionManager.on('connectionTransition', (sessionId: string, transition: ConnectionTransition) => {
+  io.emit('connectionTransition', sessionId, transition);
+});
+
+sessionManager.removeAllListeners('qrRequired');
+sessionManager.on('qrRequired', (sessionId: string) => {
+  webhookService.dispatch('connection.qr_required', { sessionId });
 });
 
-// WhatsApp service event handlers
-whatsappService.removeAllListeners('stateChange');
-whatsappService.on('stateChange', (state) => {
-  logger.info('WhatsApp state changed', typeof state === 'object' ? JSON.stringify(state) : state);
-  io.emit('stateChange', state);
+sessionManager.removeAllListeners('loggedOut');
+sessionManager.on('loggedOut', (sessionId: string) => {
+  webhookService.dispatch('connection.logged_out', { sessionId });
+});
+
+sessionManager.removeAllListeners('sessionsChanged');
+sessionManager.on('sessionsChanged', () => {
+  io.emit('sessionsChanged');
+});
+
+sessionManager.removeAllListeners('pausedChange');
+sessionManager.on('pausedChange', (paused: boolean) => {
+  logger.info(paused ? 'Message queue paused by admin' : 'Message queue resumed by admin');
+  io.emit('queuePaused', paused);
+  io.emit('queueStatus', sessionManager.getQueueStatus());
 });
 
 // Message queue event handlers
-messageQueue.removeAllListeners('messageSending');
-messageQueue.on('messageSending', (message) => {
-  logger.info('Message sending', { messageId: message.id });
-  io.emit('messageSending', message);
+sessionManager.removeAllListeners('messageQueued');
+sessionManager.on('messageQueued', (sessionId: string, message: MessageQueueItem) => {
+  webhookService.dispatch('message.queued', toWebhookMessage(message), message);
+});
+
+sessionManager.removeAllListeners('messageSending');
+sessionManager.on('messageSending', (sessionId: string, message: MessageQueueItem) => {
+  logger.info('Message sending', { sessionId, messageId: message.id });
+  io.emit('messageSending', sessionId, toWebhookMessage(message));
+  webhookService.dispatch('message.sending', toWebhookMessage(message), message);
 });
 
-messageQueue.removeAllListeners('messageSent');
-messageQueue.on('messageSent', (message) => {
-  logger.info('Message sent', { messageId: message.id });
-  // The WhatsApp service will emit the actual messageSent event with the WhatsApp ID
+sessionManager.removeAllListeners('messageSent');
+sessionManager.on('messageSent', (sessionId: string, message: MessageQueueItem) => {
+  logger.info('Message sent', { sessionId, messageId: message.id });
+  io.emit('messageSent', sessionId, message.id, message.whatsappId);
+  webhookService.dispatch('message.sent', toWebhookMessage(message), message);
 });
 
-messageQueue.removeAllListeners('messageFailed');
-messageQueue.on('messageFailed', (message) => {
-  logger.error('Message failed', { messageId: message.id });
-  io.emit('messageFailed', message.id, 'Message failed after retries');
+sessionManager.removeAllListeners('messageFailed');
+sessionManager.on('messageFailed', (sessionId: string, message: MessageQueueItem) => {
+  logger.error('Message failed', { sessionId, messageId: message.id });
+  io.emit('messageFailed', sessionId, message.id, message.error ?? 'Message failed after retries');
+  webhookService.dispatch('message.failed', toWebhookMessage(message), message);
 });
 
-// WhatsApp service message events
-whatsappService.removeAllListeners('messageSent');
-whatsappService.on('messageSent', (messageId, whatsappId) => {
-  messageQueue.markAsSent(messageId);
-  io.emit('messageSent', messageId, whatsappId);
+sessionManager.removeAllListeners('messageCancelled');
+sessionManager.on('messageCancelled', (sessionId: string, message: MessageQueueItem) => {
+  logger.info('Message cancelled', { sessionId, messageId: message.id });
+  io.emit('messageCancelled', sessionId, message.id);
+  webhookService.dispatch('message.cancelled', toWebhookMessage(message), message);
 });
 
-whatsappService.removeAllListeners('messageFailed');
-whatsappService.on('messageFailed', (messageId, error) => {
-  messageQueue.markAsFailed(messageId, error);
-  io.emit('messageFailed', messageId, error);
+sessionManager.removeAllListeners('messageStatusChanged');
+sessionManager.on('messageStatusChanged', (sessionId: string, message: MessageQueueItem) => {
+  io.emit('messageStatus', sessionId, toWebhookMessage(message));
+
+  // The server ack only says WhatsApp has the message, which message.sent already covers
+  if (message.status === 'delivered' || message.status === 'read' || message.status === 'played') {
+    webhookService.dispatch(`message.${message.status}`, toWebhookMessage(message), message);
+  }
+});
+
+sessionManager.removeAllListeners('messageReceived');
+sessionManager.on('messageReceived', (sessionId: string, message: InboundMessage) => {
+  const stored = inboxService.record({ ...message, sessionId });
+  if (!stored) return;
+
+  // Replies also go to the callbackUrl of the message they answer
+  const repliedTo = stored.inReplyTo ? messageHistory.get(stored.inReplyTo) : undefined;
+  io.emit('messageReceived', sessionId, toWebhookInboundMessage(stored));
+  webhookService.dispatch('message.received', toWebhookInboundMessage(stored), repliedTo);
 });
 
 // Periodic queue status updates
 setInterval(() => {
-  const status = messageQueue.getStatus();
+  const status = sessionManager.getQueueStatus();
   io.emit('queueStatus', status);
 }, 5000); // Update every 5 seconds
 
@@ -133,8 +379,10 @@ process.on('SIGINT', async () => {
   logger.info('Shutting down gracefully...');
 
   // Cleanup services
-  whatsappService.cleanup();
-  messageQueue.clear();
+  sessionManager.cleanup();
+  webhookService.cleanup();
+  idempotencyService.cleanup();
+  numberCheckService.cleanup();
 
   // Close server
   server.close(() => {
@@ -147,8 +395,10 @@ process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully...');
 
   // Cleanup services
-  whatsappService.cleanup();
-  messageQueue.clear();
+  sessionManager.cleanup();
+  webhookService.cleanup();
+  idempotencyService.cleanup();
+  numberCheckService.cleanup();
 
   // Close server
   server.close(() => {
@@ -175,15 +425,10 @@ process.on('unhandledRejection', (reason, promise) => {
   process.exit(1);
 });
 
-// Initialize WhatsApp service
+// Connect every WhatsApp session; the server keeps running even if some fail
 async function initializeApp() {
-  try {
-    await whatsappService.initialize();
-    logger.info('WhatsApp service initialized successfully');
-  } catch (error) {
-    logger.error('Failed to initialize WhatsApp service:', error);
-    // Continue running the server even if WhatsApp fails to initialize
-  }
+  await sessionManager.startAll();
+  logger.info('WhatsApp sessions initialized', { sessions: sessionManager.list().length });
 }
 
 // Start the server
@@ -191,6 +436,11 @@ server.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Open http://localhost:${PORT} in your browser`);
 
-  // Initialize WhatsApp service after server starts
+  // Tell PM2 (wait_ready) the server is listening; WhatsApp may still be waiting for a QR scan
+  if (process.send) {
+    process.send('ready');
+  }
+
+  // Initialize WhatsApp sessions after server starts
   initializeApp();
 });
@@ -1,18 +1,68 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import path from 'path';
-import { SendMessageRequest, SendMessageResponse } from '../types';
+import {
+  ApiKeyScope,
+  BulkRowResult,
+  ConnectionStatus,
+  GroupParticipantUpdate,
+  InboundMessage,
+  InboxQuery,
+  LinkPreview,
+  MediaLibraryItem,
+  MessageContent,
+  MessageHistoryPage,
+  MessageHistoryQuery,
+  MessageKeyRef,
+  MessageQueueItem,
+  MessageTemplate,
+  MessageTemplateRef,
+  NumberCheckResult,
+  PairingCode,
+  QueuedMessagesQuery,
+  RenderedTemplate,
+  SendMessageRequest,
+  SendMessageResponse,
+  WebhookEventType,
+  WhatsAppGroup,
+  WhatsAppState,
+} from '../types';
+import { WEBHOOK_EVENT_TYPES, WebhookService } from '../services/WebhookService';
+import { API_KEY_SCOPES, ApiKeyService } from '../services/ApiKeyService';
+import {
+  TEMPLATE_LANGUAGES,
+  TemplateInput,
+  TemplateService,
+  TemplateUpdate,
+} from '../services/TemplateService';
+import { DEFAULT_SESSION_ID, SessionManager, WhatsAppSession } from '../services/SessionManager';
+import { IdempotencyService } from '../services/IdempotencyService';
+import { MessageHistory } from '../services/MessageHistory';
+import { BulkSendService } from '../services/BulkSendService';
+import { InboxService } from '../services/InboxService';
+import { NumberCheckService } from '../services/NumberCheckService';
+import { MediaLibraryService } from '../services/MediaLibraryService';
+import { RecipientSheetUtil } from '../utils/recipientSheet';
+import { MediaUtil } from '../utils/media';
+import { NetworkUtil } from '../utils/network';
+import { MediaPipelineUtil } from '../utils/mediaPipeline';
+import { TemplateUtil } from '../utils/template';
 import { PhoneNumberUtil } from '../utils/phoneNumber';
+import { SendWindowUtil } from '../utils/sendWindow';
+import { QueueLaneUtil } from '../utils/queueLanes';
 import logger from '../utils/logger';
 import fs from 'fs';
 
 const router = Router();
 
+// Uploaded, fetched and decoded media waits here until it is sent
+const UPLOADS_DIR = 'uploads/';
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.diskStorage({
     destination: (req, file, cb) => {
-      cb(null, 'uploads/');
+      cb(null, UPLOADS_DIR);
     },
     filename: (req, file, cb) => {
       // Use timestamp-based filename to avoid encoding issues
@@ -22,33 +72,10 @@ const upload = multer({
     },
   }),
   limits: {
-    fileSize: 16 * 1024 * 1024, // 16MB limit
+    fileSize: MediaUtil.getMaxBytes(),
   },
   fileFilter: (req, file, cb) => {
-    // Allow common file types
-    const allowedTypes = [
-      'image/jpeg',
-      'image/png',
-      'image/gif',
-      'image/webp',
-      'video/mp4',
-      'video/avi',
-      'video/mov',
-      'video/wmv',
-      'audio/mp3',
-      'audio/wav',
-      'audio/ogg',
-      'audio/m4a',
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'text/plain',
-      'text/csv',
-    ];
-
-    if (allowedTypes.includes(file.mimetype)) {
+    if (MediaUtil.isAllowedMimeType(file.mimetype)) {
       cb(null, true);
     } else {
       cb(new Error('File type not allowed'));
@@ -57,134 +84,130 @@ const upload = multer({
 });
 
 // Store references to services (will be injected)
-let messageQueue: any;
-let whatsappService: any;
+let sessionManager: SessionManager;
+let messageHistory: MessageHistory;
+let webhookService: WebhookService;
+let apiKeyService: ApiKeyService;
+let bulkSendService: BulkSendService;
+let templateService: TemplateService;
+let inboxService: InboxService;
+let idempotencyService: IdempotencyService;
+let numberCheckService: NumberCheckService;
+let mediaLibraryService: MediaLibraryService;
 
-export function setServices(queue: any, whatsapp: any) {
-  messageQueue = queue;
-  whatsappService = whatsapp;
+export function setServices(
+  sessions: SessionManager,
+  history: MessageHistory,
+  webhooks: WebhookService,
+  apiKeys: ApiKeyService,
+  bulkSend: BulkSendService,
+  templates: TemplateService,
+  inbox: InboxService,
+  idempotency: IdempotencyService,
+  numberChecks: NumberCheckService,
+  mediaLibrary: MediaLibraryService,
+) {
+  sessionManager = sessions;
+  messageHistory = history;
+  webhookService = webhooks;
+  apiKeyService = apiKeys;
+  bulkSendService = bulkSend;
+  templateService = templates;
+  inboxService = inbox;
+  idempotencyService = idempotency;
+  numberCheckService = numberChecks;
+  mediaLibraryService = mediaLibrary;
 }
 
+// Accept an optional `media` file upload
+const withMedia = upload.single('media');
+
 /**
- * Send message endpoint
+ * Require an API key with the given scope, sent as `X-API-Key` or `Authorization: Bearer`.
+ * The authenticated key is stored in `res.locals.apiKey`.
  */
-router.post('/send-message', upload.single('media'), async (req: Request, res: Response) => {
-  try {
-    const { phoneNumber, message } = req.body as SendMessageRequest;
-
-    if (!phoneNumber || !message) {
-      return res.status(400).json({
-        success: false,
-        error: 'Phone number and message are required',
-      });
+function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (process.env.AUTH_DISABLED === 'true') {
+      return next();
     }
 
-    // Validate phone number
-    const validPhoneNumber = PhoneNumberUtil.parseSaudiOrEgyptianNumber(phoneNumber);
-    if (!validPhoneNumber) {
-      return res.status(400).json({
+    const authorization = req.header('authorization');
+    const key =
+      req.header('x-api-key') || (authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined);
+
+    const apiKey = key ? apiKeyService.authenticate(key) : null;
+    if (!apiKey) {
+      return res.status(401).json({
         success: false,
-        error: 'Invalid Saudi or Egyptian phone number format',
+        error: 'A valid API key is required',
       });
     }
 
-    // Get country code for logging
-    const countryCode = PhoneNumberUtil.getCountryCode(phoneNumber);
-    const countryName = countryCode === 'SA' ? 'Saudi' : countryCode === 'EG' ? 'Egyptian' : 'Unknown';
-
-    // Check if WhatsApp is connected
-    const state = whatsappService.getState();
-    if (!state.isAuthenticated) {
-      return res.status(503).json({
+    if (!ApiKeyService.hasScope(apiKey, scope)) {
+      return res.status(403).json({
         success: false,
-        error: 'WhatsApp is not connected. Please scan the QR code first.',
+        error: `API key is missing the '${scope}' scope`,
       });
     }
 
-    // Prepare media info if file was uploaded
-    let mediaInfo;
-    if (req.file) {
-      const fileType = getFileType(req.file.mimetype);
-
-      // Fix UTF-8 encoding issue - try multiple encoding approaches
-      let originalFilename = req.file.originalname;
+    res.locals.apiKey = apiKey;
+    return next();
+  };
+}
 
-      // Log the raw filename for debugging
-      logger.info('Raw filename received', {
-        originalName: req.file.originalname,
-        buffer: Buffer.from(req.file.originalname).toString('hex'),
-      });
-
-      // Try multiple encoding fixes
-      try {
-        // Method 1: Try Latin-1 to UTF-8 conversion
-        const buffer1 = Buffer.from(originalFilename, 'latin1');
-        const decoded1 = buffer1.toString('utf8');
-
-        // Method 2: Try direct UTF-8 interpretation
-        const buffer2 = Buffer.from(originalFilename, 'binary');
-        const decoded2 = buffer2.toString('utf8');
-
-        // Method 3: Try Windows-1256 (Arabic encoding)
-        const buffer3 = Buffer.from(originalFilename, 'latin1');
-        const decoded3 = buffer3.toString('utf8');
-
-        // Choose the best result (one that contains Arabic characters)
-        const arabicPattern = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
-
-        if (arabicPattern.test(decoded1)) {
-          originalFilename = decoded1;
-          logger.info('Using Latin-1 to UTF-8 conversion', { result: decoded1 });
-        } else if (arabicPattern.test(decoded2)) {
-          originalFilename = decoded2;
-          logger.info('Using binary to UTF-8 conversion', { result: decoded2 });
-        } else if (arabicPattern.test(decoded3)) {
-          originalFilename = decoded3;
-          logger.info('Using Windows-1256 conversion', { result: decoded3 });
-        } else {
-          // If no Arabic characters found, use the original
-          logger.warn('No Arabic characters detected in any conversion, using original', {
-            original: req.file.originalname,
-            decoded1,
-            decoded2,
-            decoded3,
-          });
-        }
-      } catch (error) {
-        logger.warn('Failed to fix filename encoding', { originalName: req.file.originalname, error });
-      }
+/**
+ * Reject requests whose body is not JSON
+ */
+function requireJson(req: Request, res: Response, next: NextFunction) {
+  if (!req.is('application/json')) {
+    return res.status(415).json({
+      success: false,
+      error: 'Content-Type must be application/json',
+    });
+  }
+  return next();
+}
 
-      mediaInfo = {
-        type: fileType,
-        path: req.file.path,
-        filename: originalFilename,
-      };
+/**
+ * Send message endpoint
+ */
+router.post('/send-message', requireScope('send'), withMedia, async (req: Request, res: Response) => {
+  try {
+    const { phoneNumber, groupJid, message, templateId } = req.body as SendMessageRequest;
 
-      logger.info('Media file uploaded successfully', {
-        originalName: req.file.originalname,
-        fixedName: originalFilename,
-        savedFilename: req.file.filename,
-        path: req.file.path,
-        size: req.file.size,
-        mimetype: req.file.mimetype,
-        fileType: fileType,
+    if ((!phoneNumber && !groupJid) || (!message && !templateId && !hasRichContent(req.body))) {
+      discardUpload(req);
+      return res.status(400).json({
+        success: false,
+        error: 'Phone number or groupJid, and message, templateId or rich content, are required',
       });
     }
 
-    // Add message to queue
-    const messageId = messageQueue.addMessage(validPhoneNumber, message, mediaInfo);
+    const queued = await queueSendRequest(req, res.locals.apiKey?.id);
+    if ('body' in queued) {
+      return res.status(queued.status).json(queued.body);
+    }
 
     const response: SendMessageResponse = {
       success: true,
-      messageId,
-      queuePosition: messageQueue.getStatus().pending,
+      messageId: queued.messageId,
+      queuePosition: queued.session.queue.getStatus().pending,
+      lane: queued.lane,
     };
+    if (queued.template) {
+      response.template = queued.template;
+    }
+    if (queued.sendAt) {
+      response.sendAt = new Date(queued.sendAt).toISOString();
+    }
 
     logger.info('Message queued successfully', {
-      messageId,
-      phoneNumber: validPhoneNumber,
-      country: countryName,
-      hasMedia: !!mediaInfo,
+      messageId: queued.messageId,
+      sessionId: queued.session.id,
+      phoneNumber: queued.recipient,
+      country: PhoneNumberUtil.getCountryCode(queued.recipient),
+      hasMedia: queued.hasMedia,
     });
 
     return res.json(response);
@@ -198,18 +221,39 @@ router.post('/send-message', upload.single('media'), async (req: Request, res: R
 });
 
 /**
- * Get queue status endpoint
+ * Get queue status endpoint; without ?sessionId the counts cover every session
  */
-router.get('/queue-status', (req: Request, res: Response) => {
+router.get('/queue-status', requireScope('read-status'), (req: Request, res: Response) => {
   try {
-    const status = messageQueue.getStatus();
-    res.json({
+    if (req.query.sessionId !== undefined) {
+      const session = findSession(req.query.sessionId);
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+      }
+      return res.json({
+        success: true,
+        status: session.queue.getStatus(),
+      });
+    }
+
+    // Rate limits apply per number, so each session reports its own budget
+    const status = sessionManager.getQueueStatus();
+    const throttle = Object.fromEntries(
+      sessionManager
+        .list()
+        .map((session: WhatsAppSession) => [session.id, session.queue.getThrottleStatus()]),
+    );
+    return res.json({
       success: true,
       status,
+      throttle,
     });
   } catch (error) {
     logger.error('Error getting queue status', { error });
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: 'Internal server error',
     });
@@ -217,18 +261,150 @@ router.get('/queue-status', (req: Request, res: Response) => {
 });
 
 /**
- * Get WhatsApp connection status
+ * Stop sending from every session; messages keep queueing until resumed
+ * POST /api/queue/pause
  */
-router.get('/status', (req: Request, res: Response) => {
+router.post('/queue/pause', requireScope('admin'), (req: Request, res: Response) => {
   try {
-    const state = whatsappService.getState();
-    res.json({
+    sessionManager.pause();
+    return res.json({
+      success: true,
+      status: sessionManager.getQueueStatus(),
+    });
+  } catch (error) {
+    logger.error('Error pausing queue', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Resume sending after a pause
+ * POST /api/queue/resume
+ */
+router.post('/queue/resume', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    sessionManager.resume();
+    return res.json({
+      success: true,
+      status: sessionManager.getQueueStatus(),
+    });
+  } catch (error) {
+    logger.error('Error resuming queue', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * List messages waiting in the queue or being sent, in the order each session will send them
+ * GET /api/queue/items
+ *
+ * Query parameters:
+ * - sessionId: string (optional)
+ * - lane: string (optional)
+ * - batchId: string (optional)
+ * - phoneNumber: string (optional)
+ * - status: pending (due now), scheduled (held until sendAt) or sending (optional)
+ * - page: number (default 1)
+ * - limit: number (default 50, max 200)
+ */
+router.get('/queue/items', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const { sessionId, lane, batchId, phoneNumber, status, page, limit } = req.query as Record<
+      string,
+      string | undefined
+    >;
+    const filter: QueuedMessagesQuery = {
+      page: Math.max(1, parseInt(page || '1', 10) || 1),
+      limit: Math.min(200, Math.max(1, parseInt(limit || '50', 10) || 50)),
+    };
+
+    if (sessionId) {
+      if (!findSession(sessionId)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+      }
+      filter.sessionId = sessionId;
+    }
+    if (batchId) {
+      filter.batchId = batchId;
+    }
+
+    if (lane) {
+      if (!QueueLaneUtil.getLane(lane.trim().toLowerCase())) {
+        const names = QueueLaneUtil.getLanes().map((known) => known.name);
+        return res.status(400).json({
+          success: false,
+          error: `Invalid lane. Allowed: ${names.join(', ')}`,
+        });
+      }
+      filter.lane = lane.trim().toLowerCase();
+    }
+
+    if (phoneNumber) {
+      const validPhoneNumber = PhoneNumberUtil.isGroupJid(phoneNumber)
+        ? phoneNumber
+        : PhoneNumberUtil.parseNumber(phoneNumber);
+      if (!validPhoneNumber) {
+        return res.status(400).json({
+          success: false,
+          error: invalidPhoneNumberError(),
+        });
+      }
+      filter.phoneNumber = validPhoneNumber;
+    }
+
+    if (status) {
+      if (!QUEUED_STATUSES.includes(status as NonNullable<QueuedMessagesQuery['status']>)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid status. Allowed: ${QUEUED_STATUSES.join(', ')}`,
+        });
+      }
+      filter.status = status as NonNullable<QueuedMessagesQuery['status']>;
+    }
+
+    return res.json({
+      success: true,
+      paused: sessionManager.isPaused(),
+      ...toMessagePageResponse(sessionManager.listQueued(filter)),
+    });
+  } catch (error) {
+    logger.error('Error listing queued messages', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Get WhatsApp connection status of the ?sessionId session, or the default one
+ */
+router.get('/status', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const session = findSession(req.query.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    return res.json({
       success: true,
-      status: state,
+      status: toStateResponse(res, session.whatsapp.getState()),
     });
   } catch (error) {
     logger.error('Error getting WhatsApp status', { error });
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: 'Internal server error',
     });
@@ -236,18 +412,26 @@ router.get('/status', (req: Request, res: Response) => {
 });
 
 /**
- * Logout endpoint
+ * Logout endpoint; body { sessionId? } picks the session, defaulting to "default"
  */
-router.post('/logout', async (req: Request, res: Response) => {
+router.post('/logout', requireScope('admin'), async (req: Request, res: Response) => {
   try {
-    await whatsappService.logout();
-    res.json({
+    const session = findSession(req.body?.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    await session.whatsapp.logout();
+    return res.json({
       success: true,
       message: 'Logged out successfully',
     });
   } catch (error) {
     logger.error('Error during logout', { error });
-    res.status(500).json({
+    return res.status(500).json({
       success: false,
       error: 'Internal server error',
     });
@@ -255,26 +439,42 @@ router.post('/logout', async (req: Request, res: Response) => {
 });
 
 /**
- * Get message status by ID
+ * List WhatsApp sessions with their connection state and queue counts
  */
-router.get('/message/:messageId', (req: Request, res: Response) => {
+router.get('/sessions', requireScope('read-status'), (req: Request, res: Response) => {
   try {
-    const { messageId } = req.params;
-    const message = messageQueue.getMessage(messageId);
+    return res.json({
+      success: true,
+      sessions: sessionManager.list().map((session: WhatsAppSession) => toSessionResponse(res, session)),
+    });
+  } catch (error) {
+    logger.error('Error listing sessions', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
 
-    if (!message) {
+/**
+ * Get one WhatsApp session
+ */
+router.get('/sessions/:sessionId', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const session = sessionManager.get(req.params.sessionId ?? '');
+    if (!session) {
       return res.status(404).json({
         success: false,
-        error: 'Message not found',
+        error: 'Session not found',
       });
     }
 
     return res.json({
       success: true,
-      message,
+      session: toSessionResponse(res, session),
     });
   } catch (error) {
-    logger.error('Error getting message status', { error });
+    logger.error('Error getting session', { error });
     return res.status(500).json({
       success: false,
       error: 'Internal server error',
@@ -283,164 +483,2883 @@ router.get('/message/:messageId', (req: Request, res: Response) => {
 });
 
 /**
- * Send message via multipart form data (no frontend interface)
- * POST /api/send-message-direct
+ * Create a WhatsApp session and start it; the QR code to scan arrives over the socket
+ * POST /api/sessions
  *
- * Form fields:
- * - phoneNumber: string (required)
- * - message: string (optional)
- * - media: file (optional)
+ * Body: { id, name? } - id is 1-32 lowercase letters, digits, dashes or underscores
  */
-router.post('/send-message-direct', upload.single('media'), async (req: Request, res: Response) => {
+router.post('/sessions', requireScope('admin'), (req: Request, res: Response) => {
   try {
-    const { phoneNumber, message } = req.body;
-
-    // Validate required fields
-    if (!phoneNumber) {
+    const { id, name } = req.body;
+    if (typeof id !== 'string' || (name !== undefined && typeof name !== 'string')) {
       return res.status(400).json({
         success: false,
-        error: 'Phone number is required',
+        error: 'Session id is required and name must be a string',
       });
     }
 
-    // Validate phone number
-    const validPhoneNumber = PhoneNumberUtil.parseSaudiOrEgyptianNumber(phoneNumber);
-    if (!validPhoneNumber) {
-      return res.status(400).json({
+    const result = sessionManager.create(id, name);
+    if ('error' in result) {
+      return res.status(sessionManager.get(id) ? 409 : 400).json({
         success: false,
-        error: 'Invalid Saudi or Egyptian phone number format',
+        error: result.error,
       });
     }
 
-    // Check if WhatsApp is connected
-    const state = whatsappService.getState();
-    if (!state.isAuthenticated) {
-      return res.status(503).json({
+    // Connecting waits on WhatsApp, so answer right away; the state follows over the socket
+    sessionManager.start(id).catch((error: unknown) => {
+      logger.error('Failed to start WhatsApp session', { sessionId: id, error });
+    });
+    return res.status(201).json({
+      success: true,
+      session: toSessionResponse(res, result.session),
+    });
+  } catch (error) {
+    logger.error('Error creating session', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Connect a stopped session
+ */
+router.post('/sessions/:sessionId/start', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const session = await sessionManager.start(req.params.sessionId ?? '');
+    if (!session) {
+      return res.status(404).json({
         success: false,
-        error: 'WhatsApp is not connected. Please scan the QR code first.',
+        error: 'Session not found',
       });
     }
 
-    // Prepare media info if file was uploaded
-    let mediaInfo;
-    if (req.file) {
-      const fileType = getFileType(req.file.mimetype);
+    return res.json({
+      success: true,
+      session: toSessionResponse(res, session),
+    });
+  } catch (error) {
+    logger.error('Error starting session', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to start session',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-      // Fix UTF-8 encoding issue - try multiple encoding approaches
-      let originalFilename = req.file.originalname;
+/**
+ * Drop a session's connection and connect again now, e.g. after a conflict or when reconnecting gave up
+ */
+router.post('/sessions/:sessionId/reconnect', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const session = await sessionManager.reconnect(req.params.sessionId ?? '');
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
 
-      // Log the raw filename for debugging
-      logger.info('Raw filename received', {
-        originalName: req.file.originalname,
-        buffer: Buffer.from(req.file.originalname).toString('hex'),
-      });
-
-      // Try multiple encoding fixes
-      try {
-        // Method 1: Try Latin-1 to UTF-8 conversion
-        const buffer1 = Buffer.from(originalFilename, 'latin1');
-        const decoded1 = buffer1.toString('utf8');
-
-        // Method 2: Try direct UTF-8 interpretation
-        const buffer2 = Buffer.from(originalFilename, 'binary');
-        const decoded2 = buffer2.toString('utf8');
-
-        // Method 3: Try Windows-1256 (Arabic encoding)
-        const buffer3 = Buffer.from(originalFilename, 'latin1');
-        const decoded3 = buffer3.toString('utf8');
-
-        // Choose the best result (one that contains Arabic characters)
-        const arabicPattern = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
-
-        if (arabicPattern.test(decoded1)) {
-          originalFilename = decoded1;
-          logger.info('Using Latin-1 to UTF-8 conversion', { result: decoded1 });
-        } else if (arabicPattern.test(decoded2)) {
-          originalFilename = decoded2;
-          logger.info('Using binary to UTF-8 conversion', { result: decoded2 });
-        } else if (arabicPattern.test(decoded3)) {
-          originalFilename = decoded3;
-          logger.info('Using Windows-1256 conversion', { result: decoded3 });
-        } else {
-          // If no Arabic characters found, use the original
-          logger.warn('No Arabic characters detected in any conversion, using original', {
-            original: req.file.originalname,
-            decoded1,
-            decoded2,
-            decoded3,
-          });
-        }
-      } catch (error) {
-        logger.warn('Failed to fix filename encoding', { originalName: req.file.originalname, error });
+    return res.json({
+      success: true,
+      session: toSessionResponse(res, session),
+    });
+  } catch (error) {
+    logger.error('Error reconnecting session', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reconnect session',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get a code to link a session's number by typing it on the phone instead of scanning the QR code
+ * POST /api/sessions/:sessionId/pairing-code
+ *
+ * JSON body:
+ * - phoneNumber: string (required) - the number being linked
+ *
+ * The session must be waiting for a QR scan. The code is also broadcast in the session's state,
+ * like the QR code, and is cleared once it expires or the number is linked.
+ */
+router.post(
+  '/sessions/:sessionId/pairing-code',
+  requireScope('admin'),
+  async (req: Request, res: Response) => {
+    try {
+      const { phoneNumber } = req.body;
+      const parsed = typeof phoneNumber === 'string' ? PhoneNumberUtil.parseNumber(phoneNumber) : null;
+      if (!parsed) {
+        return res.status(400).json({
+          success: false,
+          error: 'phoneNumber is required and must be a valid phone number',
+        });
       }
 
-      mediaInfo = {
-        type: fileType,
-        path: req.file.path,
-        filename: originalFilename,
-      };
+      const session = sessionManager.get(req.params.sessionId ?? '');
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+      }
 
-      logger.info('Media file uploaded successfully via direct API', {
-        originalName: req.file.originalname,
-        fixedName: originalFilename,
-        savedFilename: req.file.filename,
-        path: req.file.path,
-        size: req.file.size,
-        mimetype: req.file.mimetype,
-        fileType: fileType,
+      const { status } = session.whatsapp.getState();
+      if (status !== 'qr-pending') {
+        return res.status(409).json({
+          success: false,
+          error:
+            status === 'open'
+              ? 'The session is already linked'
+              : `A pairing code can only be requested while the session waits for a QR scan; it is ${status}`,
+          status,
+        });
+      }
+
+      const pairingCode: PairingCode = await session.whatsapp.requestPairingCode(parsed);
+      return res.json({
+        success: true,
+        pairingCode,
+      });
+    } catch (error) {
+      logger.error('Error requesting pairing code', { error });
+      return res.status(502).json({
+        success: false,
+        error: 'Failed to get a pairing code',
+        details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
+  },
+);
 
-    // Add message to queue
-    const messageId = messageQueue.addMessage(validPhoneNumber, message || '', mediaInfo);
-
-    logger.info('Message added to queue via direct API', {
-      messageId,
-      phoneNumber: validPhoneNumber,
-      hasMedia: !!mediaInfo,
-      hasText: !!message,
-    });
+/**
+ * Disconnect a session without logging out; its queued messages wait until it is started again
+ */
+router.post('/sessions/:sessionId/stop', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const session = sessionManager.stop(req.params.sessionId ?? '');
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
 
     return res.json({
       success: true,
-      messageId,
-      phoneNumber: validPhoneNumber,
-      hasMedia: !!mediaInfo,
-      hasText: !!message,
-      message: 'Message queued successfully',
+      session: toSessionResponse(res, session),
     });
   } catch (error) {
-    logger.error('Failed to queue message via direct API', { error });
+    logger.error('Error stopping session', { error });
     return res.status(500).json({
       success: false,
-      error: 'Failed to queue message',
-      details: error instanceof Error ? error.message : 'Unknown error',
+      error: 'Internal server error',
     });
   }
 });
 
 /**
- * Helper function to determine file type from MIME type
+ * Log a session out and delete it along with its credentials and queued messages
  */
-function getFileType(mimeType: string): 'image' | 'document' | 'video' | 'audio' {
-  if (mimeType.startsWith('image/')) return 'image';
-  if (mimeType.startsWith('video/')) return 'video';
-  if (mimeType.startsWith('audio/')) return 'audio';
-  return 'document';
-}
+router.delete('/sessions/:sessionId', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId ?? '';
+    if (sessionId === DEFAULT_SESSION_ID) {
+      return res.status(409).json({
+        success: false,
+        error: 'The default session cannot be deleted; log it out instead',
+      });
+    }
+
+    if (!(await sessionManager.delete(sessionId))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Session deleted',
+    });
+  } catch (error) {
+    logger.error('Error deleting session', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
 
 /**
- * Clean up uploads directory
+ * Get message status by ID
  */
-router.post('/cleanup-uploads', (req: Request, res: Response) => {
+router.get('/message/:messageId', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const messageId = req.params.messageId ?? '';
+    const message = sessionManager.getMessage(messageId);
+
+    // Another client's message is reported as missing rather than forbidden, so ids cannot be probed
+    if (!message || !isOwnedByCaller(res, message.clientId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: toMessageResponse(message),
+    });
+  } catch (error) {
+    logger.error('Error getting message status', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Cancel a message that has not started sending
+ */
+router.post('/message/:messageId/cancel', requireScope('send'), (req: Request, res: Response) => {
+  try {
+    const message = sessionManager.getMessage(req.params.messageId ?? '');
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
+
+    if (!isOwnedByCaller(res, message.clientId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Message belongs to another client',
+      });
+    }
+
+    const cancelled = sessionManager.getQueueFor(message)?.cancelMessage(message.id);
+    if (!cancelled) {
+      return res.status(409).json({
+        success: false,
+        error: `Message is ${message.status} and can no longer be cancelled`,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: toMessageResponse(cancelled),
+    });
+  } catch (error) {
+    logger.error('Error cancelling message', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Send a waiting message before every other due message of its session
+ * POST /api/message/:messageId/move-to-front
+ */
+router.post('/message/:messageId/move-to-front', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const message = sessionManager.getMessage(req.params.messageId ?? '');
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
+
+    const moved = sessionManager.getQueueFor(message)?.moveToFront(message.id);
+    if (!moved) {
+      return res.status(409).json({
+        success: false,
+        error: `Message is ${message.status} and can no longer be moved`,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: toMessageResponse(moved),
+    });
+  } catch (error) {
+    logger.error('Error moving message to the front', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Move a message that has not started sending to a new time
+ * POST /api/message/:messageId/reschedule
+ *
+ * Body: { sendAt?, timezone? } - omit sendAt to send as soon as possible
+ */
+router.post('/message/:messageId/reschedule', requireScope('send'), (req: Request, res: Response) => {
+  try {
+    const message = sessionManager.getMessage(req.params.messageId ?? '');
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
+
+    if (!isOwnedByCaller(res, message.clientId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Message belongs to another client',
+      });
+    }
+
+    let sendAt: number | undefined;
+    if (req.body.sendAt) {
+      const schedule = parseSendAtRequest(req.body, message.phoneNumber);
+      if (typeof schedule !== 'number') {
+        return res.status(400).json({ success: false, ...schedule });
+      }
+      sendAt = schedule;
+    }
+
+    const rescheduled = sessionManager.getQueueFor(message)?.reschedule(message.id, sendAt);
+    if (!rescheduled) {
+      return res.status(409).json({
+        success: false,
+        error: `Message is ${message.status} and can no longer be rescheduled`,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: toMessageResponse(rescheduled),
+    });
+  } catch (error) {
+    logger.error('Error rescheduling message', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * List the delivery log
+ * GET /api/messages
+ *
+ * Query parameters:
+ * - phoneNumber: string (optional)
+ * - status: pending | sending | sent | server_ack | delivered | read | played | failed | cancelled (optional)
+ * - batchId: string (optional) - messages of one bulk send
+ * - sessionId: string (optional) - messages of one WhatsApp session
+ * - from, to: ISO date or epoch milliseconds, filters on queue time (optional)
+ * - page: number (default 1)
+ * - limit: number (default 50, max 200)
+ */
+router.get('/messages', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const { phoneNumber, status, batchId, sessionId, from, to, page, limit } = req.query as Record<
+      string,
+      string | undefined
+    >;
+    const filter: MessageHistoryQuery = {
+      page: Math.max(1, parseInt(page || '1', 10) || 1),
+      limit: Math.min(200, Math.max(1, parseInt(limit || '50', 10) || 50)),
+    };
+
+    if (batchId) {
+      filter.batchId = batchId;
+    }
+    if (sessionId) {
+      filter.sessionId = sessionId;
+    }
+
+    if (phoneNumber) {
+      const validPhoneNumber = PhoneNumberUtil.isGroupJid(phoneNumber)
+        ? phoneNumber
+        : PhoneNumberUtil.parseNumber(phoneNumber);
+      if (!validPhoneNumber) {
+        return res.status(400).json({
+          success: false,
+          error: invalidPhoneNumberError(),
+        });
+      }
+      filter.phoneNumber = validPhoneNumber;
+    }
+
+    if (status) {
+      if (!MESSAGE_STATUSES.includes(status as MessageQueueItem['status'])) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid status. Allowed: ${MESSAGE_STATUSES.join(', ')}`,
+        });
+      }
+      filter.status = status as MessageQueueItem['status'];
+    }
+
+    for (const [key, value] of [
+      ['from', from],
+      ['to', to],
+    ] as const) {
+      if (!value) continue;
+      const time = parseDateParam(value);
+      if (time === null) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid ${key} date`,
+        });
+      }
+      filter[key] = time;
+    }
+
+    const result = messageHistory.query(filter);
+    return res.json({
+      success: true,
+      ...toMessagePageResponse(result),
+    });
+  } catch (error) {
+    logger.error('Error listing message history', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * List messages customers sent us
+ * GET /api/inbox
+ *
+ * Query parameters:
+ * - phoneNumber: string (optional)
+ * - from, to: ISO date or epoch milliseconds, filters on WhatsApp timestamp (optional)
+ * - page: number (default 1)
+ * - limit: number (default 50, max 200)
+ */
+router.get('/inbox', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const { phoneNumber, from, to, page, limit } = req.query as Record<string, string | undefined>;
+    const filter: InboxQuery = {
+      page: Math.max(1, parseInt(page || '1', 10) || 1),
+      limit: Math.min(200, Math.max(1, parseInt(limit || '50', 10) || 50)),
+    };
+
+    if (phoneNumber) {
+      const contactNumber = parseContactNumber(phoneNumber);
+      if (!contactNumber) {
+        return res.status(400).json({
+          success: false,
+          error: invalidPhoneNumberError(),
+        });
+      }
+      filter.phoneNumber = contactNumber;
+    }
+
+    for (const [key, value] of [
+      ['from', from],
+      ['to', to],
+    ] as const) {
+      if (!value) continue;
+      const time = parseDateParam(value);
+      if (time === null) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid ${key} date`,
+        });
+      }
+      filter[key] = time;
+    }
+
+    return res.json({
+      success: true,
+      ...inboxService.query(filter),
+    });
+  } catch (error) {
+    logger.error('Error listing inbox', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * List the contacts who wrote to us, most recent first
+ */
+router.get('/inbox/conversations', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      conversations: inboxService.listConversations(),
+    });
+  } catch (error) {
+    logger.error('Error listing conversations', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Get the latest messages exchanged with one contact, oldest first
+ * GET /api/inbox/conversations/:phoneNumber?limit=100
+ */
+router.get(
+  '/inbox/conversations/:phoneNumber',
+  requireScope('read-status'),
+  (req: Request, res: Response) => {
+    try {
+      const contactNumber = parseContactNumber(req.params.phoneNumber || '');
+      if (!contactNumber) {
+        return res.status(400).json({
+          success: false,
+          error: invalidPhoneNumberError(),
+        });
+      }
+
+      const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit || '100'), 10) || 100));
+      return res.json({
+        success: true,
+        phoneNumber: contactNumber,
+        entries: inboxService.getConversation(contactNumber, limit),
+      });
+    } catch (error) {
+      logger.error('Error getting conversation', { error });
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  },
+);
+
+/**
+ * Download the media file of an inbound message
+ */
+router.get('/inbox/:messageId/media', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const message = inboxService.get(req.params.messageId ?? '');
+    if (!message || !message.media || !fs.existsSync(message.media.path)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Media not found',
+      });
+    }
+
+    res.type(message.media.mimetype);
+    return res.download(message.media.path, message.media.filename || path.basename(message.media.path));
+  } catch (error) {
+    logger.error('Error downloading inbound media', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Send message via multipart form data (no frontend interface)
+ * POST /api/send-message-direct
+ *
+ * Form fields:
+ * - phoneNumber: string (required unless groupJid is given)
+ * - groupJid: string (optional) - send to a group instead, e.g. "120363025246125486@g.us"
+ * - sessionId: string (optional) - WhatsApp session to send from, defaults to "default"
+ * - country: string (optional) - ISO country code to read national numbers in, e.g. "AE"
+ * - message: string (optional)
+ * - templateId: string (optional) - send a stored template instead of message
+ * - variables: object or JSON string (optional) - template variable values
+ * - language: "ar" | "en" (optional) - template variant
+ * - templateVersion: number (optional) - pin a template version, defaults to the current one
+ * - media: file, or { url, filename? } or { base64, filename, mimetype? } (optional) - replaces the
+ *   template's default media; a URL is fetched by the server within MEDIA_MAX_MB and MEDIA_FETCH_TIMEOUT_MS
+ * - mediaId: string (optional) - send a media library item instead of media
+ * - voiceNote: "true" | "false" (optional) - send audio media as a voice note, converted to ogg/opus
+ * - callbackUrl: string (optional) - receives this message's webhook events
+ * - sendAt: ISO date-time or epoch ms (optional) - hold the message until then; local
+ *   date-times without an offset are read in `timezone`, or the recipient country's zone
+ * - timezone: IANA zone (optional), e.g. "Asia/Riyadh"
+ * - lane: string (optional) - queue lane, e.g. "otp" or "marketing"; defaults to the default lane
+ * - priority: integer (optional) - higher is sent first within the lane, defaults to 0
+ * - clientReference: string (optional) - idempotency key, also accepted as the Idempotency-Key
+ *   header; a repeated request with the same key returns the original message
+ * - checkNumber: "true" | "false" (optional) - reject numbers without a WhatsApp account before
+ *   queueing; defaults to CHECK_NUMBERS_ON_SEND
+ * - location: { latitude, longitude, name?, address? } (optional) - send a location pin
+ * - contact: { name, phoneNumber, organization?, email? } (optional) - send a contact card
+ * - reaction: { messageId, emoji } (optional) - react to a message in the chat; "" removes the reaction
+ * - poll: { question, options, selectableCount? } (optional) - 2 to 12 options; selectableCount
+ *   defaults to 1, 0 allows any number
+ * - replyTo: string (optional) - queue or inbox id of a message in the chat to quote
+ * - linkPreview: { url, title, description? } or false (optional) - preview card for a link in the text
+ *
+ * location, contact, reaction and poll take an object or a JSON string, and are sent on their own
+ * without message, templateId or media.
+ */
+router.post('/send-message-direct', requireScope('send'), withMedia, queueDirectMessage);
+
+/**
+ * Send a message from a JSON body, so clients need not build multipart forms
+ * POST /api/messages
+ *
+ * Takes the fields of /send-message-direct, with media given as { url } or { base64 }.
+ */
+router.post('/messages', requireScope('send'), requireJson, queueDirectMessage);
+
+/**
+ * Validate a direct API send request and queue its message
+ */
+async function queueDirectMessage(req: Request, res: Response) {
+  try {
+    const { phoneNumber, groupJid, callbackUrl, templateId } = req.body;
+
+    // Validate required fields
+    if (!phoneNumber && !groupJid) {
+      discardUpload(req);
+      return res.status(400).json({
+        success: false,
+        error: 'Phone number or groupJid is required',
+      });
+    }
+
+    const queued = await queueSendRequest(req, res.locals.apiKey?.id, callbackUrl);
+    if ('body' in queued) {
+      return res.status(queued.status).json(queued.body);
+    }
+
+    logger.info('Message added to queue via direct API', {
+      messageId: queued.messageId,
+      sessionId: queued.session.id,
+      phoneNumber: queued.recipient,
+      hasMedia: queued.hasMedia,
+      hasText: queued.hasText,
+      templateId,
+    });
+
+    return res.json({
+      success: true,
+      messageId: queued.messageId,
+      sessionId: queued.session.id,
+      phoneNumber: queued.recipient,
+      hasMedia: queued.hasMedia,
+      hasText: queued.hasText,
+      contentType: queued.contentType,
+      template: queued.template,
+      sendAt: queued.sendAt ? new Date(queued.sendAt).toISOString() : undefined,
+      lane: queued.lane,
+      message: queued.sendAt ? 'Message scheduled successfully' : 'Message queued successfully',
+    });
+  } catch (error) {
+    logger.error('Failed to queue message via direct API', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to queue message',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * A message queued by a send request
+ */
+interface QueuedSend {
+  messageId: string;
+  session: WhatsAppSession;
+  recipient: string;
+  hasMedia: boolean;
+  hasText: boolean;
+  contentType?: MessageContent['type'];
+  template?: MessageTemplateRef;
+  sendAt?: number;
+  lane: string;
+}
+
+/**
+ * Validate a send request and queue its message; /send-message and the direct API share this path,
+ * with only the required fields and the response differing
+ * @param clientId - API key sending the message
+ * @param callbackUrl - URL that receives the message's events, on routes that take one
+ * @returns The queued message, or the status and body to answer with instead: a refusal, or the
+ *   message an earlier request with the same idempotency key or content queued
+ */
+async function queueSendRequest(
+  req: Request,
+  clientId: string | undefined,
+  callbackUrl?: string,
+): Promise<QueuedSend | { status: number; body: object }> {
+  let claimedKey: string | undefined;
+  // The upload, and any file made from it, is removed unless the message is queued
+  let mediaInfo: NonNullable<MessageQueueItem['media']> | undefined;
+  let queued = false;
+  try {
+    const { message, templateId } = req.body as SendMessageRequest;
+
+    if (message && templateId) {
+      return refuseSend(400, 'Provide either message or templateId, not both');
+    }
+
+    const hasMedia = !!req.file || req.body.media !== undefined || req.body.mediaId !== undefined;
+    if (
+      [!!req.file, req.body.media !== undefined, req.body.mediaId !== undefined].filter(Boolean).length > 1
+    ) {
+      return refuseSend(
+        400,
+        'Send media as an upload, in the request body or as a mediaId, only one of them',
+      );
+    }
+
+    // Validate the recipient: a phone number, or a group the linked account belongs to
+    const recipient = parseRecipient(req.body);
+    if (typeof recipient !== 'string') {
+      return refuseSend(400, recipient);
+    }
+
+    let sendAt: number | undefined;
+    if (req.body.sendAt) {
+      const schedule = parseSendAtRequest(req.body, recipient);
+      if (typeof schedule !== 'number') {
+        return refuseSend(400, schedule);
+      }
+      sendAt = schedule;
+    }
+
+    const routing = parseLaneRequest(req.body);
+    if ('error' in routing) {
+      return refuseSend(400, routing);
+    }
+
+    const idempotencyKey = readIdempotencyKey(req);
+    if (typeof idempotencyKey === 'object') {
+      return refuseSend(400, idempotencyKey);
+    }
+
+    // A retried request is answered before anything that needs the connection, DNS or the media
+    const requestFingerprint = fingerprintSendRequest(req, recipient);
+    if (idempotencyKey) {
+      const keyed = findKeyedSend(clientId, idempotencyKey, requestFingerprint);
+      if (keyed) {
+        return keyed;
+      }
+      claimedKey = idempotencyKey;
+    }
+
+    if (callbackUrl) {
+      const refused = await checkCallbackUrl(callbackUrl, clientId);
+      if (refused) {
+        return refuseSend(400, refused);
+      }
+    }
+
+    const session = findSession(req.body.sessionId);
+    if (!session) {
+      return refuseSend(404, 'Session not found');
+    }
+
+    // Messages wait in the queue while WhatsApp connects or reconnects
+    const unavailable = checkSessionCanQueue(session);
+    if (unavailable) {
+      return refuseSend(503, unavailable);
+    }
+
+    const unregistered = await findUnregisteredNumber(req.body, session, recipient);
+    if (unregistered) {
+      return refuseSend(422, unregistered);
+    }
+
+    const rich = parseRichContent(req.body, recipient, session.id, hasMedia);
+    if ('error' in rich) {
+      return refuseSend(rich.status, rich.error);
+    }
+
+    // Render templates server-side so the queue only ever sees final text
+    let rendered: RenderedTemplate | undefined;
+    if (templateId) {
+      const result = renderRequestedTemplate(req.body);
+      if (!('text' in result)) {
+        const { status, ...body } = result;
+        return refuseSend(status, body);
+      }
+      rendered = result;
+    }
+
+    const text = rendered?.text ?? (message || '');
+    const content = rich.content ? JSON.stringify(rich.content) : text;
+
+    if (req.file) {
+      mediaInfo = mediaFromUpload(req.file);
+      logger.info('Media file uploaded', {
+        originalName: req.file.originalname,
+        filename: mediaInfo.filename,
+        path: req.file.path,
+        size: req.file.size,
+        mimetype: req.file.mimetype,
+      });
+    } else if (req.body.media !== undefined) {
+      const saved = await readBodyMedia(req.body.media);
+      if ('error' in saved) {
+        const { status, ...body } = saved;
+        return refuseSend(status, body);
+      }
+      mediaInfo = saved;
+    } else if (req.body.mediaId !== undefined) {
+      const stored = readLibraryMedia(req.body);
+      if ('error' in stored) {
+        const { status, ...body } = stored;
+        return refuseSend(status, body);
+      }
+      mediaInfo = stored;
+    }
+
+    const voiceNote = String(req.body.voiceNote) === 'true';
+    if (voiceNote && !mediaInfo) {
+      return refuseSend(400, 'voiceNote needs an audio file in media');
+    }
+
+    // Check the file's real type, compress images and convert voice notes before queueing;
+    // library media was processed when it was added
+    if (mediaInfo && !mediaInfo.mediaId) {
+      const processed = await MediaPipelineUtil.process(mediaInfo, { voiceNote });
+      if ('error' in processed) {
+        const { status, ...body } = processed;
+        return refuseSend(status, body);
+      }
+      mediaInfo = processed;
+    }
+
+    // Uploaded or fetched media replaces the template's default media
+    mediaInfo = mediaInfo ?? rendered?.media;
+
+    const { fingerprint: contentFingerprint, duplicate } = await findContentDuplicate(
+      clientId,
+      recipient,
+      content,
+      mediaInfo,
+    );
+    if (duplicate) {
+      return duplicate;
+    }
+
+    // Add message to queue
+    const messageId = session.queue.addMessage(recipient, text, mediaInfo, {
+      ...(callbackUrl ? { callbackUrl } : {}),
+      ...(clientId ? { clientId } : {}),
+      ...(rendered ? { template: rendered.template } : {}),
+      ...(sendAt ? { sendAt } : {}),
+      ...routing,
+      ...rich,
+    });
+    queued = true;
+    idempotencyService.remember(
+      messageId,
+      { request: requestFingerprint, ...(contentFingerprint ? { content: contentFingerprint } : {}) },
+      clientId,
+      idempotencyKey,
+    );
+
+    return {
+      messageId,
+      session,
+      recipient,
+      hasMedia: !!mediaInfo,
+      hasText: !!text,
+      ...(rich.content ? { contentType: rich.content.type } : {}),
+      ...(rendered ? { template: rendered.template } : {}),
+      ...(sendAt ? { sendAt } : {}),
+      lane: routing.lane ?? QueueLaneUtil.getDefaultLane(),
+    };
+  } finally {
+    if (!queued) {
+      discardUpload(req, mediaInfo);
+    }
+    if (claimedKey) {
+      idempotencyService.release(clientId, claimedKey);
+    }
+  }
+}
+
+/**
+ * Check that a session can queue messages. While WhatsApp connects or reconnects they wait in the
+ * queue; the other states hold them until an operator starts, links or reconnects the session.
+ * @returns Why the session refuses messages, or undefined when it takes them
+ */
+function checkSessionCanQueue(session: WhatsAppSession): string | undefined {
+  return SESSION_UNAVAILABLE_ERRORS[session.whatsapp.getState().status];
+}
+
+/**
+ * Answer a request that needs the live connection while the session has none: during a reconnect
+ * the client is asked to try again shortly, in any other state an operator has to act first
+ */
+function refuseWithoutConnection(res: Response, session: WhatsAppSession) {
+  const unavailable = checkSessionCanQueue(session);
+  if (!unavailable) {
+    res.set('Retry-After', String(RECONNECT_RETRY_AFTER_SECONDS));
+  }
+  return res.status(503).json({
+    success: false,
+    error: unavailable ?? 'WhatsApp is reconnecting. Please try again shortly.',
+  });
+}
+
+/**
+ * Build the answer to a send request that is refused
+ * @param error - The error, or an object with the error and any fields that explain it
+ */
+function refuseSend(status: number, error: string | { error: string }): { status: number; body: object } {
+  return { status, body: { success: false, ...(typeof error === 'string' ? { error } : error) } };
+}
+
+/**
+ * Find out which numbers have a WhatsApp account
+ * POST /api/check-numbers
+ *
+ * JSON body:
+ * - phoneNumbers: string[] (required) - up to 500 numbers in any format the send routes accept
+ * - country: string (optional) - ISO country code to read national numbers in
+ * - sessionId: string (optional) - connected session to ask through, defaults to "default"
+ *
+ * Answers are cached for NUMBER_CHECK_TTL_HOURS; invalid numbers are reported without a lookup.
+ */
+router.post('/check-numbers', requireScope('send'), async (req: Request, res: Response) => {
+  try {
+    const { phoneNumbers, country } = req.body;
+
+    if (
+      !Array.isArray(phoneNumbers) ||
+      phoneNumbers.length === 0 ||
+      !phoneNumbers.every((phoneNumber) => typeof phoneNumber === 'string')
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'phoneNumbers must be a non-empty array of strings',
+      });
+    }
+
+    if (phoneNumbers.length > MAX_NUMBER_CHECKS) {
+      return res.status(400).json({
+        success: false,
+        error: `At most ${MAX_NUMBER_CHECKS} numbers can be checked at once`,
+      });
+    }
+
+    if (country && !PhoneNumberUtil.isAllowedCountry(country)) {
+      return res.status(400).json({
+        success: false,
+        error: invalidPhoneNumberError(country),
+      });
+    }
+
+    const session = findSession(req.body.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    if (!session.whatsapp.getState().isAuthenticated) {
+      return refuseWithoutConnection(res, session);
+    }
+
+    const parsed: (string | null)[] = phoneNumbers.map((phoneNumber: string) =>
+      PhoneNumberUtil.parseNumber(phoneNumber, country),
+    );
+    const checks = await numberCheckService.check(
+      session.whatsapp,
+      parsed.filter((phoneNumber): phoneNumber is string => !!phoneNumber),
+    );
+
+    const results: NumberCheckResult[] = phoneNumbers.map((input: string, index: number) => {
+      const phoneNumber = parsed[index] ?? null;
+      const check = phoneNumber ? checks.get(phoneNumber) : undefined;
+      if (!phoneNumber || !check) {
+        return { input, phoneNumber: null, onWhatsApp: null };
+      }
+      return {
+        input,
+        phoneNumber,
+        onWhatsApp: check.record.onWhatsApp,
+        ...(check.record.jid ? { jid: check.record.jid } : {}),
+        checkedAt: check.record.checkedAt,
+        cached: check.cached,
+      };
+    });
+
+    return res.json({
+      success: true,
+      total: results.length,
+      onWhatsApp: results.filter((result) => result.onWhatsApp === true).length,
+      notOnWhatsApp: results.filter((result) => result.onWhatsApp === false).length,
+      invalid: results.filter((result) => result.onWhatsApp === null).length,
+      results,
+    });
+  } catch (error) {
+    logger.error('Error checking numbers on WhatsApp', { error });
+    return res.status(502).json({
+      success: false,
+      error: 'Failed to check numbers with WhatsApp',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * List the groups the linked account of a session belongs to
+ * GET /api/groups?sessionId=
+ */
+router.get('/groups', requireScope('read-status'), async (req: Request, res: Response) => {
+  try {
+    const session = findSession(req.query.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    if (!session.whatsapp.getState().isAuthenticated) {
+      return refuseWithoutConnection(res, session);
+    }
+
+    const groups: WhatsAppGroup[] = await session.whatsapp.listGroups();
+    return res.json({
+      success: true,
+      groups,
+    });
+  } catch (error) {
+    logger.error('Error listing WhatsApp groups', { error });
+    return res.status(502).json({
+      success: false,
+      error: 'Failed to list groups',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Create a group with the session's linked account as admin
+ * POST /api/groups
+ *
+ * JSON body:
+ * - subject: string (required) - group name
+ * - phoneNumbers: string[] (required) - initial members
+ * - sessionId: string (optional) - defaults to "default"
+ */
+router.post('/groups', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const { subject } = req.body;
+
+    if (typeof subject !== 'string' || !subject.trim() || subject.trim().length > MAX_GROUP_SUBJECT_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `subject is required and must be at most ${MAX_GROUP_SUBJECT_LENGTH} characters`,
+      });
+    }
+
+    const members = parseParticipants(req.body);
+    if ('error' in members) {
+      return res.status(400).json({ success: false, ...members });
+    }
+
+    const session = findSession(req.body.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    if (!session.whatsapp.getState().isAuthenticated) {
+      return refuseWithoutConnection(res, session);
+    }
+
+    const group: WhatsAppGroup = await session.whatsapp.createGroup(subject.trim(), members.phoneNumbers);
+    return res.status(201).json({
+      success: true,
+      group,
+    });
+  } catch (error) {
+    logger.error('Error creating WhatsApp group', { error });
+    return res.status(502).json({
+      success: false,
+      error: 'Failed to create group',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Add members to a group or remove them; the session's linked account must be a group admin
+ * POST /api/groups/:groupJid/participants
+ *
+ * JSON body:
+ * - action: "add" | "remove" (required)
+ * - phoneNumbers: string[] (required)
+ * - sessionId: string (optional) - defaults to "default"
+ */
+router.post('/groups/:groupJid/participants', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const groupJid = req.params.groupJid ?? '';
+    const { action } = req.body;
+
+    if (!PhoneNumberUtil.isGroupJid(groupJid)) {
+      return res.status(400).json({
+        success: false,
+        error: 'groupJid must be a WhatsApp group id ending in @g.us',
+      });
+    }
+
+    if (action !== 'add' && action !== 'remove') {
+      return res.status(400).json({
+        success: false,
+        error: 'action must be "add" or "remove"',
+      });
+    }
+
+    const members = parseParticipants(req.body);
+    if ('error' in members) {
+      return res.status(400).json({ success: false, ...members });
+    }
+
+    const session = findSession(req.body.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    if (!session.whatsapp.getState().isAuthenticated) {
+      return refuseWithoutConnection(res, session);
+    }
+
+    const results: GroupParticipantUpdate[] = await session.whatsapp.updateGroupParticipants(
+      groupJid,
+      members.phoneNumbers,
+      action,
+    );
+    return res.json({
+      success: true,
+      results,
+    });
+  } catch (error) {
+    logger.error('Error updating WhatsApp group participants', { error });
+    return res.status(502).json({
+      success: false,
+      error: 'Failed to update group participants',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Get the link that lets anyone join a group; the session's linked account must be a group admin
+ * GET /api/groups/:groupJid/invite-link?sessionId=
+ */
+router.get('/groups/:groupJid/invite-link', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const groupJid = req.params.groupJid ?? '';
+
+    if (!PhoneNumberUtil.isGroupJid(groupJid)) {
+      return res.status(400).json({
+        success: false,
+        error: 'groupJid must be a WhatsApp group id ending in @g.us',
+      });
+    }
+
+    const session = findSession(req.query.sessionId);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    if (!session.whatsapp.getState().isAuthenticated) {
+      return refuseWithoutConnection(res, session);
+    }
+
+    const inviteLink: string = await session.whatsapp.getGroupInviteLink(groupJid);
+    return res.json({
+      success: true,
+      groupJid,
+      inviteLink,
+    });
+  } catch (error) {
+    logger.error('Error getting WhatsApp group invite link', { error });
+    return res.status(502).json({
+      success: false,
+      error: 'Failed to get the group invite link',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Queue one templated message per row of a recipient sheet
+ * POST /api/bulk-send
+ *
+ * Form fields:
+ * - recipients: file (required) - CSV or Excel sheet with a header row
+ * - template: string (required) - message text with {{column}} placeholders
+ * - phoneColumn: string (optional) - defaults to a column named phoneNumber, phone or mobile
+ * - countryColumn: string (optional) - per-row ISO country code for national numbers
+ * - country: string (optional) - ISO country code for national numbers in every row
+ * - sessionId: string (optional) - WhatsApp session to send from, defaults to "default"
+ * - lane: string (optional) - queue lane of the batch, e.g. "marketing"; defaults to the default lane
+ * - dryRun: "true" (optional) - validate and report without queueing
+ */
+router.post(
+  '/bulk-send',
+  requireScope('send'),
+  upload.single('recipients'),
+  async (req: Request, res: Response) => {
+    const filePath = req.file?.path;
+
+    try {
+      const { template, phoneColumn, countryColumn, country } = req.body;
+      const dryRun = req.body.dryRun === 'true';
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'A recipients CSV or Excel file is required',
+        });
+      }
+
+      if (!BULK_SHEET_EXTENSIONS.includes(path.extname(req.file.originalname).toLowerCase())) {
+        return res.status(400).json({
+          success: false,
+          error: `Recipients file must be one of: ${BULK_SHEET_EXTENSIONS.join(', ')}`,
+        });
+      }
+
+      if (!template || !template.trim()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Message template is required',
+        });
+      }
+
+      if (country && !PhoneNumberUtil.isAllowedCountry(country)) {
+        return res.status(400).json({
+          success: false,
+          error: invalidPhoneNumberError(country),
+        });
+      }
+
+      const sheet = RecipientSheetUtil.read(req.file.path, req.file.originalname);
+      const maxRows = Number(process.env.BULK_MAX_ROWS) || 10000;
+
+      if (sheet.rows.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Recipients file has no data rows',
+        });
+      }
+
+      if (sheet.rows.length > maxRows) {
+        return res.status(400).json({
+          success: false,
+          error: `Recipients file has ${sheet.rows.length} rows, the limit is ${maxRows}`,
+        });
+      }
+
+      const phoneHeader = RecipientSheetUtil.findColumn(
+        sheet.columns,
+        phoneColumn ? [phoneColumn] : ['phoneNumber', 'phone', 'mobile'],
+      );
+      if (!phoneHeader) {
+        return res.status(400).json({
+          success: false,
+          error: `Phone number column not found. Columns: ${sheet.columns.join(', ')}`,
+        });
+      }
+
+      const countryHeader = countryColumn
+        ? RecipientSheetUtil.findColumn(sheet.columns, [countryColumn])
+        : null;
+      if (countryColumn && !countryHeader) {
+        return res.status(400).json({
+          success: false,
+          error: `Country column not found. Columns: ${sheet.columns.join(', ')}`,
+        });
+      }
+
+      const unknownColumns = TemplateUtil.getPlaceholders(template).filter(
+        (name) => !RecipientSheetUtil.findColumn(sheet.columns, [name]),
+      );
+      if (unknownColumns.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Template uses unknown columns: ${unknownColumns.join(', ')}`,
+        });
+      }
+
+      const routing = parseLaneRequest({ lane: req.body.lane });
+      if ('error' in routing) {
+        return res.status(400).json({ success: false, ...routing });
+      }
+
+      const session = findSession(req.body.sessionId);
+      if (!session) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+      }
+
+      // Messages wait in the queue while WhatsApp connects or reconnects
+      const unavailable = dryRun ? undefined : checkSessionCanQueue(session);
+      if (unavailable) {
+        return res.status(503).json({
+          success: false,
+          error: unavailable,
+        });
+      }
+
+      const result = await bulkSendService.send(sheet.rows, {
+        template,
+        phoneColumn: phoneHeader,
+        ...(countryHeader ? { countryColumn: countryHeader } : {}),
+        ...(country ? { country } : {}),
+        ...(res.locals.apiKey ? { clientId: res.locals.apiKey.id } : {}),
+        sessionId: session.id,
+        ...(routing.lane ? { lane: routing.lane } : {}),
+        dryRun,
+      });
+      const count = (status: BulkRowResult['status']) =>
+        result.rows.filter((row) => row.status === status).length;
+
+      return res.json({
+        success: true,
+        batchId: result.batch?.id,
+        dryRun,
+        total: result.rows.length,
+        accepted: count('accepted'),
+        rejected: count('rejected'),
+        ...(result.batch?.cancelled ? { cancelled: result.batch.cancelled } : {}),
+        rows: result.rows,
+      });
+    } catch (error) {
+      logger.error('Error in bulk-send endpoint', { error });
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to process recipients file',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      // The sheet is only needed while parsing
+      if (filePath) {
+        fs.unlink(filePath, () => undefined);
+      }
+    }
+  },
+);
+
+/**
+ * Get bulk send batch progress
+ */
+router.get('/bulk-send/:batchId', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const batch = bulkSendService.getBatch(req.params.batchId ?? '');
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      batch,
+      progress: bulkSendService.getProgress(batch.id),
+    });
+  } catch (error) {
+    logger.error('Error getting bulk send progress', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Cancel the remaining messages of a bulk send batch
+ */
+router.post('/bulk-send/:batchId/cancel', requireScope('send'), (req: Request, res: Response) => {
+  try {
+    const batch = bulkSendService.getBatch(req.params.batchId ?? '');
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+      });
+    }
+
+    // Only the client that created the batch, or an admin, may cancel it
+    if (!isOwnedByCaller(res, batch.clientId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Batch belongs to another client',
+      });
+    }
+
+    const cancelled = bulkSendService.cancel(batch.id);
+    return res.json({
+      success: true,
+      cancelled,
+      progress: bulkSendService.getProgress(batch.id),
+    });
+  } catch (error) {
+    logger.error('Error cancelling bulk send batch', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+const BULK_SHEET_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+/**
+ * List webhook subscriptions (secrets are not returned)
+ */
+router.get('/webhooks', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const subscriptions = webhookService
+      .listSubscriptions()
+      .map(({ secret, ...subscription }: { secret: string }) => subscription);
+    res.json({
+      success: true,
+      subscriptions,
+    });
+  } catch (error) {
+    logger.error('Error listing webhooks', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Create a webhook subscription
+ * POST /api/webhooks
+ *
+ * JSON body:
+ * - url: string (required)
+ * - events: string[] (required) - see WEBHOOK_EVENT_TYPES
+ * - secret: string (optional) - HMAC-SHA256 signing secret, generated when omitted
+ */
+router.post('/webhooks', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const { url, events, secret } = req.body as { url?: string; events?: string[]; secret?: string };
+
+    if (!url || !isHttpUrl(url)) {
+      return res.status(400).json({
+        success: false,
+        error: 'url must be an http or https URL',
+      });
+    }
+
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every((event): event is WebhookEventType =>
+        WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType),
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `events must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+      });
+    }
+
+    // The secret is only ever returned here
+    const subscription = webhookService.subscribe(url, events, secret);
+    return res.status(201).json({
+      success: true,
+      subscription,
+    });
+  } catch (error) {
+    logger.error('Error creating webhook', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Delete a webhook subscription
+ */
+router.delete('/webhooks/:subscriptionId', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    if (!webhookService.unsubscribe(req.params.subscriptionId ?? '')) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Webhook deleted',
+    });
+  } catch (error) {
+    logger.error('Error deleting webhook', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * List webhook deliveries that exhausted their retries
+ */
+router.get('/webhooks/dead-letters', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      deliveries: webhookService.listDeadLetters(),
+    });
+  } catch (error) {
+    logger.error('Error listing webhook dead letters', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Replay a dead-lettered webhook delivery
+ */
+router.post(
+  '/webhooks/dead-letters/:deliveryId/replay',
+  requireScope('admin'),
+  (req: Request, res: Response) => {
+    try {
+      if (!webhookService.replay(req.params.deliveryId ?? '')) {
+        return res.status(404).json({
+          success: false,
+          error: 'Dead-lettered delivery not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Delivery replayed',
+      });
+    } catch (error) {
+      logger.error('Error replaying webhook delivery', { error });
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+      });
+    }
+  },
+);
+
+/**
+ * Discard a dead-lettered webhook delivery
+ */
+router.delete('/webhooks/dead-letters/:deliveryId', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    if (!webhookService.discard(req.params.deliveryId ?? '')) {
+      return res.status(404).json({
+        success: false,
+        error: 'Dead-lettered delivery not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Delivery discarded',
+    });
+  } catch (error) {
+    logger.error('Error discarding webhook delivery', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * List API keys (hashes are never returned)
+ */
+router.get('/keys', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      keys: apiKeyService.list(),
+    });
+  } catch (error) {
+    logger.error('Error listing API keys', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Create an API key
+ * POST /api/keys
+ *
+ * JSON body:
+ * - name: string (required) - who the key belongs to
+ * - scopes: ('send' | 'read-status' | 'admin')[] (required)
+ *
+ * The plain key is only returned in this response.
+ */
+router.post('/keys', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const { name, scopes } = req.body as { name?: string; scopes?: string[] };
+
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'name is required',
+      });
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope): scope is ApiKeyScope => API_KEY_SCOPES.includes(scope as ApiKeyScope))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`,
+      });
+    }
+
+    const { apiKey, key } = apiKeyService.create(name, scopes);
+    const { keyHash, ...details } = apiKey;
+    return res.status(201).json({
+      success: true,
+      key,
+      apiKey: details,
+    });
+  } catch (error) {
+    logger.error('Error creating API key', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Rotate an API key; the old key stops working immediately
+ */
+router.post('/keys/:keyId/rotate', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const rotated = apiKeyService.rotate(req.params.keyId ?? '');
+    if (!rotated) {
+      return res.status(404).json({
+        success: false,
+        error: 'API key not found',
+      });
+    }
+
+    const { keyHash, ...details } = rotated.apiKey;
+    return res.json({
+      success: true,
+      key: rotated.key,
+      apiKey: details,
+    });
+  } catch (error) {
+    logger.error('Error rotating API key', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Get the secret that signs callbacks of the calling key's messages
+ * GET /api/callback-secret
+ */
+router.get('/callback-secret', requireScope('send'), (req: Request, res: Response) => {
+  try {
+    const secret = res.locals.apiKey ? apiKeyService.getCallbackSecret(res.locals.apiKey.id) : undefined;
+    if (!secret) {
+      return res.status(404).json({
+        success: false,
+        error: 'This key has no callback secret; its callbacks are signed with WEBHOOK_CALLBACK_SECRET',
+      });
+    }
+
+    return res.json({ success: true, secret });
+  } catch (error) {
+    logger.error('Error reading callback secret', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Revoke an API key
+ */
+router.delete('/keys/:keyId', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    if (!apiKeyService.revoke(req.params.keyId ?? '')) {
+      return res.status(404).json({
+        success: false,
+        error: 'API key not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'API key revoked',
+    });
+  } catch (error) {
+    logger.error('Error revoking API key', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * List message templates
+ */
+router.get('/templates', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      templates: templateService.list().map(toTemplateResponse),
+    });
+  } catch (error) {
+    logger.error('Error listing templates', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Get a template with all of its versions
+ */
+router.get('/templates/:templateId', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const template = templateService.get(req.params.templateId ?? '');
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      template: toTemplateResponse(template),
+    });
+  } catch (error) {
+    logger.error('Error getting template', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Create a message template
+ * POST /api/templates
+ *
+ * Body (JSON or form fields):
+ * - name: string (required) - unique template name
+ * - description: string (optional)
+ * - content: { ar?: string, en?: string } (at least one) - text with {{variable}} placeholders
+ * - variables: [{ name, type: "text" | "number" | "date", description? }] - declares every placeholder
+ * - media: file (optional) - default attachment sent with the template
+ */
+router.post('/templates', requireScope('admin'), withMedia, (req: Request, res: Response) => {
+  try {
+    const input: TemplateInput = {
+      name: req.body.name ?? '',
+      content: parseJsonField(req.body.content) ?? {},
+      variables: parseJsonField(req.body.variables) ?? [],
+    };
+    if (req.body.description) {
+      input.description = req.body.description;
+    }
+    if (req.file) {
+      input.media = mediaFromUpload(req.file);
+    }
+
+    const result = templateService.create(input);
+    if ('errors' in result) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid template',
+        details: result.errors,
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      template: toTemplateResponse(result.template),
+    });
+  } catch (error) {
+    logger.error('Error creating template', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Publish a new template version
+ * PUT /api/templates/:templateId
+ *
+ * Accepts the same fields as creation; omitted fields keep their current value.
+ * Send removeMedia=true to drop the default attachment.
+ */
+router.put('/templates/:templateId', requireScope('admin'), withMedia, (req: Request, res: Response) => {
+  try {
+    const update: TemplateUpdate = {};
+    if (req.body.name !== undefined) update.name = req.body.name;
+    if (req.body.description !== undefined) update.description = req.body.description;
+    if (req.body.content !== undefined) update.content = parseJsonField(req.body.content);
+    if (req.body.variables !== undefined) update.variables = parseJsonField(req.body.variables);
+    if (req.body.removeMedia === true || req.body.removeMedia === 'true') update.removeMedia = true;
+    if (req.file) update.media = mediaFromUpload(req.file);
+
+    const result = templateService.update(req.params.templateId ?? '', update);
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+      });
+    }
+    if ('errors' in result) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid template',
+        details: result.errors,
+      });
+    }
+
+    return res.json({
+      success: true,
+      template: toTemplateResponse(result.template),
+    });
+  } catch (error) {
+    logger.error('Error updating template', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Delete a template and all of its versions
+ */
+router.delete('/templates/:templateId', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    if (!templateService.delete(req.params.templateId ?? '')) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Template deleted',
+    });
+  } catch (error) {
+    logger.error('Error deleting template', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Render a template without sending it
+ * POST /api/templates/:templateId/preview
+ *
+ * Body: { variables, language?, templateVersion? }
+ */
+router.post('/templates/:templateId/preview', requireScope('send'), (req: Request, res: Response) => {
+  try {
+    const result = renderRequestedTemplate({ ...req.body, templateId: req.params.templateId });
+    if (!('text' in result)) {
+      const { status, ...body } = result;
+      return res.status(status).json({ success: false, ...body });
+    }
+
+    return res.json({
+      success: true,
+      preview: {
+        ...result.template,
+        text: result.text,
+        media: result.media ? { type: result.media.type, filename: result.media.filename } : undefined,
+      },
+    });
+  } catch (error) {
+    logger.error('Error previewing template', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Add a file to the media library, so sends can reference it by mediaId instead of uploading it again
+ * POST /api/media
+ *
+ * Body (form fields, or JSON):
+ * - media: file, or { url, filename? } or { base64, filename, mimetype? } (required)
+ * - voiceNote: "true" | "false" (optional) - store audio as a voice note, converted to ogg/opus
+ *
+ * A file whose content the library already holds is not stored again; the existing item is
+ * returned with created: false.
+ */
+router.post('/media', requireScope('send'), withMedia, async (req: Request, res: Response) => {
+  try {
+    if (!req.file === (req.body.media === undefined)) {
+      discardUpload(req);
+      return res.status(400).json({
+        success: false,
+        error: 'Send media as an upload or in the request body',
+      });
+    }
+
+    let media: NonNullable<MessageQueueItem['media']>;
+    if (req.file) {
+      media = mediaFromUpload(req.file);
+    } else {
+      const saved = await readBodyMedia(req.body.media);
+      if ('error' in saved) {
+        const { status, ...body } = saved;
+        return res.status(status).json({ success: false, ...body });
+      }
+      media = saved;
+    }
+
+    const result = await mediaLibraryService.add(media, {
+      voiceNote: String(req.body.voiceNote) === 'true',
+      clientId: res.locals.apiKey?.id,
+    });
+    if ('error' in result) {
+      discardUpload(req, media);
+      const { status, ...body } = result;
+      return res.status(status).json({ success: false, ...body });
+    }
+
+    return res.status(result.created ? 201 : 200).json({
+      success: true,
+      created: result.created,
+      media: toMediaLibraryResponse(result.item),
+    });
+  } catch (error) {
+    logger.error('Error adding media to the library', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * List media library items, newest first
+ */
+router.get('/media', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      media: mediaLibraryService.list().map(toMediaLibraryResponse),
+    });
+  } catch (error) {
+    logger.error('Error listing media library', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Get a media library item and the number of queued messages that still need it
+ */
+router.get('/media/:mediaId', requireScope('read-status'), (req: Request, res: Response) => {
+  try {
+    const item = mediaLibraryService.get(req.params.mediaId ?? '');
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Media not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      media: toMediaLibraryResponse(item),
+    });
+  } catch (error) {
+    logger.error('Error getting media library item', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+/**
+ * Delete a media library item; refused while queued messages still need it, and for items another
+ * client added
+ */
+router.delete('/media/:mediaId', requireScope('send'), (req: Request, res: Response) => {
+  try {
+    const item = mediaLibraryService.get(req.params.mediaId ?? '');
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        error: 'Media not found',
+      });
+    }
+
+    if (!isOwnedByCaller(res, item.clientId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Media belongs to another client',
+      });
+    }
+
+    const result = mediaLibraryService.delete(item.id);
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Media not found',
+      });
+    }
+    if ('references' in result) {
+      return res.status(409).json({
+        success: false,
+        error: 'Queued messages still use this media; cancel them or wait until they are sent',
+        references: result.references,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Media deleted',
+    });
+  } catch (error) {
+    logger.error('Error deleting media library item', { error });
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+});
+
+const MESSAGE_STATUSES: MessageQueueItem['status'][] = [
+  'pending',
+  'sending',
+  'sent',
+  'server_ack',
+  'delivered',
+  'read',
+  'played',
+  'failed',
+  'cancelled',
+];
+
+const MAX_NUMBER_CHECKS = 500;
+// Connection states that need an operator before a session sends again
+const SESSION_UNAVAILABLE_ERRORS: Partial<Record<ConnectionStatus, string>> = {
+  stopped: 'Session is stopped. Start it to send messages.',
+  'qr-pending': 'WhatsApp is not linked. Please scan the QR code first.',
+  conflict: 'Another WhatsApp Web session took over the number. Reconnect the session to send messages.',
+  'logged-out': 'WhatsApp was logged out. Please scan the QR code again.',
+  'gave-up': 'WhatsApp could not reconnect. Reconnect the session to send messages.',
+};
+// How soon a request that needs the live connection may be retried while WhatsApp reconnects
+const RECONNECT_RETRY_AFTER_SECONDS = 10;
+const RICH_CONTENT_TYPES = ['location', 'contact', 'reaction', 'poll'] as const;
+// Send request fields that make up what is sent; the same key with different values is a conflict
+const SEND_CONTENT_FIELDS = [
+  'message',
+  'templateId',
+  'variables',
+  'language',
+  'templateVersion',
+  ...RICH_CONTENT_TYPES,
+  'replyTo',
+  'linkPreview',
+] as const;
+// WhatsApp's limit on poll options
+const MAX_POLL_OPTIONS = 12;
+const MAX_RICH_TEXT_LENGTH = 256;
+const MAX_GROUP_PARTICIPANTS = 256;
+// WhatsApp's limit on group names
+const MAX_GROUP_SUBJECT_LENGTH = 100;
+
+const QUEUED_STATUSES: NonNullable<QueuedMessagesQuery['status']>[] = ['pending', 'scheduled', 'sending'];
+
+/**
+ * Helper function to describe an invalid phone number against the configured allow-list
+ */
+function invalidPhoneNumberError(country?: string): string {
+  const allowedCountries = PhoneNumberUtil.getAllowedCountries().join(', ');
+  if (country && !PhoneNumberUtil.isAllowedCountry(country)) {
+    return `Country ${country} is not allowed. Allowed countries: ${allowedCountries}`;
+  }
+  return `Invalid phone number format. Allowed countries: ${allowedCountries}`;
+}
+
+/**
+ * Check that a callback URL may receive deliveries: it must be public, and they must be signable
+ * @param clientId - API key that names the URL
+ * @returns Why the URL is refused, or undefined when it is accepted
+ */
+async function checkCallbackUrl(callbackUrl: unknown, clientId?: string): Promise<string | undefined> {
+  if (typeof callbackUrl !== 'string' || !isHttpUrl(callbackUrl)) {
+    return 'callbackUrl must be an http or https URL';
+  }
+
+  const refused = await NetworkUtil.checkPublicUrl(callbackUrl);
+  if (refused) {
+    return `callbackUrl is not allowed: ${refused}`;
+  }
+
+  if (!webhookService.canSignCallbacks(clientId)) {
+    return 'callbackUrl needs an API key of your own, or WEBHOOK_CALLBACK_SECRET, to sign its deliveries';
+  }
+  return undefined;
+}
+
+/**
+ * Helper function to check that a string is an absolute http(s) URL
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Helper function to parse an ISO date or epoch milliseconds query parameter
+ */
+function parseDateParam(value: string): number | null {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Normalize a contact's number; senders outside the allowed countries are still valid here
+ */
+function parseContactNumber(value: string): string | null {
+  const parsed = PhoneNumberUtil.parseNumber(value);
+  if (parsed) return parsed;
+
+  const digits = value.replace(/[^\d+]/g, '').replace(/^00/, '+');
+  return /^\+\d{7,15}$/.test(digits) ? digits : null;
+}
+
+/**
+ * Read a request's sendAt, interpreting local date-times in its timezone or the recipient's
+ */
+function parseSendAtRequest(body: any, phoneNumber: string): number | { error: string } {
+  const { sendAt, timezone } = body;
+
+  if (timezone && !SendWindowUtil.isValidTimeZone(timezone)) {
+    return { error: `Unknown timezone: ${timezone}` };
+  }
+
+  const zone = timezone || SendWindowUtil.getTimeZone(PhoneNumberUtil.getCountryCode(phoneNumber));
+  const parsed = SendWindowUtil.parseSendAt(sendAt, zone);
+  if (parsed === null) {
+    return { error: 'sendAt must be an ISO 8601 date-time or epoch milliseconds' };
+  }
+
+  return parsed;
+}
+
+/**
+ * Read a request's queue lane and priority, leaving out the ones it does not set
+ */
+function parseLaneRequest(body: any): { lane?: string; priority?: number } | { error: string } {
+  const routing: { lane?: string; priority?: number } = {};
+
+  if (body.lane !== undefined && body.lane !== '') {
+    const lane = typeof body.lane === 'string' ? QueueLaneUtil.getLane(body.lane.trim().toLowerCase()) : null;
+    if (!lane) {
+      const names = QueueLaneUtil.getLanes().map((known) => known.name);
+      return { error: `lane must be one of: ${names.join(', ')}` };
+    }
+    routing.lane = lane.name;
+  }
+
+  if (body.priority !== undefined && body.priority !== '') {
+    const priority = QueueLaneUtil.parsePriority(body.priority);
+    if (priority === null) {
+      return { error: 'priority must be an integer' };
+    }
+    routing.priority = priority;
+  }
+
+  return routing;
+}
+
+/**
+ * Read a send request's idempotency key from the Idempotency-Key header or the clientReference field
+ */
+function readIdempotencyKey(req: Request): string | undefined | { error: string } {
+  const key = req.header('idempotency-key') ?? req.body.clientReference;
+  if (key === undefined || key === '') return undefined;
+
+  if (typeof key !== 'string' || key.length > 255) {
+    return { error: 'Idempotency key must be a string of at most 255 characters' };
+  }
+  return key;
+}
+
+/**
+ * Find the message an earlier request with the same idempotency key queued. This runs before the
+ * connection, number, callback URL and media checks, so a retried request gets its first answer even
+ * while WhatsApp is down, and does not fetch, compress or convert its media again.
+ * @param fingerprint - The request's fingerprint from fingerprintSendRequest
+ * @returns The response to send instead of queueing, or null if the key is new
+ */
+function findKeyedSend(
+  clientId: string | undefined,
+  idempotencyKey: string,
+  fingerprint: string,
+): { status: number; body: object } | null {
+  const record = idempotencyService.findByKey(clientId, idempotencyKey);
+  if (record && record.fingerprint !== fingerprint) {
+    return {
+      status: 409,
+      body: { success: false, error: 'Idempotency key was already used for a different message' },
+    };
+  }
+  if (record) {
+    return { status: 200, body: toDuplicateResponse(record.messageId, 'idempotency-key') };
+  }
+  if (!idempotencyService.claim(clientId, idempotencyKey)) {
+    return {
+      status: 409,
+      body: { success: false, error: 'A request with this idempotency key is still being processed' },
+    };
+  }
+  return null;
+}
+
+/**
+ * Find a recent send of the client with the same recipient, text and media bytes, while content dedupe is on
+ * @returns The content fingerprint to remember, and the response to send instead of queueing if a repeat
+ */
+async function findContentDuplicate(
+  clientId: string | undefined,
+  recipient: string,
+  text: string,
+  media?: NonNullable<MessageQueueItem['media']>,
+): Promise<{ fingerprint?: string; duplicate?: { status: number; body: object } }> {
+  if (!idempotencyService.dedupesContent()) return {};
+
+  const fingerprint = IdempotencyService.fingerprint(
+    recipient,
+    text,
+    media ? await MediaUtil.hashFile(media.path) : undefined,
+  );
+  // Identical content is only a repeat while the first copy is still on its way
+  const record = idempotencyService.findByContent(clientId, fingerprint);
+  const original: MessageQueueItem | undefined = record && sessionManager.getMessage(record.messageId);
+  if (original && original.status !== 'failed' && original.status !== 'cancelled') {
+    return { fingerprint, duplicate: { status: 200, body: toDuplicateResponse(original.id, 'content') } };
+  }
+  return { fingerprint };
+}
+
+/**
+ * Fingerprint a send request as it was sent, before templates are rendered or media is read, for the
+ * idempotency key check
+ */
+function fingerprintSendRequest(req: Request, recipient: string): string {
+  const content = SEND_CONTENT_FIELDS.map((field) => req.body[field] ?? null);
+  return IdempotencyService.fingerprint(recipient, JSON.stringify(content), describeRequestMedia(req));
+}
+
+/**
+ * Describe the media a send request names without reading it, for the idempotency key check
+ */
+function describeRequestMedia(req: Request): string {
+  const voiceNote = String(req.body.voiceNote) === 'true' ? ':voice' : '';
+  if (req.file) {
+    return `upload:${req.file.originalname}:${req.file.size}${voiceNote}`;
+  }
+  if (req.body.media !== undefined) {
+    const media = parseJsonField(req.body.media);
+    return `body:${JSON.stringify([media?.url, media?.filename, media?.base64?.length])}${voiceNote}`;
+  }
+  if (req.body.mediaId !== undefined) {
+    return `library:${String(req.body.mediaId)}${voiceNote}`;
+  }
+  return '';
+}
+
+function toDuplicateResponse(messageId: string, matchedBy: 'idempotency-key' | 'content') {
+  const message: MessageQueueItem | undefined = sessionManager.getMessage(messageId);
+  return {
+    success: true,
+    duplicate: matchedBy,
+    messageId,
+    status: message?.status,
+    sessionId: message?.sessionId ?? DEFAULT_SESSION_ID,
+    message: 'Message was already queued',
+  };
+}
+
+/**
+ * Read and normalize the member numbers of a group request
+ */
+function parseParticipants(body: any): { phoneNumbers: string[] } | { error: string } {
+  const { phoneNumbers, country } = body;
+
+  if (
+    !Array.isArray(phoneNumbers) ||
+    phoneNumbers.length === 0 ||
+    phoneNumbers.length > MAX_GROUP_PARTICIPANTS ||
+    !phoneNumbers.every((phoneNumber) => typeof phoneNumber === 'string')
+  ) {
+    return { error: `phoneNumbers must be an array of 1 to ${MAX_GROUP_PARTICIPANTS} strings` };
+  }
+
+  const parsed: string[] = [];
+  for (const phoneNumber of phoneNumbers) {
+    const valid = PhoneNumberUtil.parseNumber(phoneNumber, country);
+    if (!valid) {
+      return { error: `${phoneNumber}: ${invalidPhoneNumberError(country)}` };
+    }
+    parsed.push(valid);
+  }
+  return { phoneNumbers: [...new Set(parsed)] };
+}
+
+/**
+ * Whether a send request carries a location, contact, reaction or poll
+ */
+function hasRichContent(body: SendMessageRequest): boolean {
+  return RICH_CONTENT_TYPES.some((type) => body[type] !== undefined && body[type] !== '');
+}
+
+/**
+ * Read a send request's rich content, quoted message and link preview, leaving out the ones it does not set
+ * @param recipient - Chat the message goes to; quoted and reacted-to messages must be in it
+ * @param sessionId - Session sending the message; quoted and reacted-to messages must be its own
+ * @param hasMedia - Whether a file was uploaded with the request
+ */
+function parseRichContent(
+  body: SendMessageRequest,
+  recipient: string,
+  sessionId: string,
+  hasMedia: boolean,
+):
+  | { content?: MessageContent; replyTo?: MessageKeyRef; linkPreview?: LinkPreview | false }
+  | { status: number; error: string } {
+  const rich: { content?: MessageContent; replyTo?: MessageKeyRef; linkPreview?: LinkPreview | false } = {};
+  const types = RICH_CONTENT_TYPES.filter((type) => body[type] !== undefined && body[type] !== '');
+
+  if (types.length > 1) {
+    return { status: 400, error: `Send only one of ${RICH_CONTENT_TYPES.join(', ')}` };
+  }
+
+  const type = types[0];
+  if (type) {
+    if (body.message || body.templateId || hasMedia) {
+      return { status: 400, error: `${type} is sent on its own, without message, templateId or media` };
+    }
+
+    const value = parseJsonField(body[type]);
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { status: 400, error: `${type} must be an object or a JSON object string` };
+    }
+
+    const content = parseContent(type, value, recipient, sessionId);
+    if ('error' in content) return content;
+    rich.content = content;
+  }
+
+  if (body.replyTo !== undefined && body.replyTo !== '') {
+    if (typeof body.replyTo !== 'string') {
+      return { status: 400, error: 'replyTo must be a message id' };
+    }
+    const replyTo = findMessageRef(body.replyTo, recipient, sessionId);
+    if ('error' in replyTo) return replyTo;
+    rich.replyTo = replyTo;
+  }
+
+  if (body.linkPreview !== undefined && body.linkPreview !== '') {
+    const value = parseJsonField(body.linkPreview);
+    if (rich.content || hasMedia) {
+      return { status: 400, error: 'linkPreview only applies to text messages' };
+    }
+
+    if (value === false) {
+      rich.linkPreview = false;
+    } else if (
+      !value ||
+      typeof value.url !== 'string' ||
+      !isHttpUrl(value.url) ||
+      !isShortText(value.title) ||
+      (value.description !== undefined && !isShortText(value.description))
+    ) {
+      return {
+        status: 400,
+        error: 'linkPreview must be false or { url, title, description? } with an http(s) url',
+      };
+    } else if (body.message && !body.message.includes(value.url)) {
+      return { status: 400, error: 'linkPreview url must appear in the message text' };
+    } else {
+      rich.linkPreview = {
+        url: value.url,
+        title: value.title.trim(),
+        ...(value.description ? { description: value.description.trim() } : {}),
+      };
+    }
+  }
+
+  return rich;
+}
+
+function parseContent(
+  type: MessageContent['type'],
+  value: any,
+  recipient: string,
+  sessionId: string,
+): MessageContent | { status: number; error: string } {
+  switch (type) {
+    case 'location': {
+      const latitude = Number(value.latitude);
+      const longitude = Number(value.longitude);
+      if (
+        value.latitude === '' ||
+        value.longitude === '' ||
+        !(Math.abs(latitude) <= 90) ||
+        !(Math.abs(longitude) <= 180) ||
+        (value.name && !isShortText(value.name)) ||
+        (value.address && !isShortText(value.address))
+      ) {
+        return {
+          status: 400,
+          error:
+            'location needs latitude (-90 to 90) and longitude (-180 to 180), with an optional name and address',
+        };
+      }
+      return {
+        type,
+        latitude,
+        longitude,
+        ...(value.name ? { name: value.name.trim() } : {}),
+        ...(value.address ? { address: value.address.trim() } : {}),
+      };
+    }
+
+    case 'contact': {
+      const phoneNumber =
+        typeof value.phoneNumber === 'string' ? PhoneNumberUtil.parseNumber(value.phoneNumber) : null;
+      if (
+        !isShortText(value.name) ||
+        !phoneNumber ||
+        (value.organization && !isShortText(value.organization)) ||
+        (value.email && !isShortText(value.email))
+      ) {
+        return {
+          status: 400,
+          error: `contact needs a name and a valid phoneNumber, with an optional organization and email. ${invalidPhoneNumberError()}`,
+        };
+      }
+      return {
+        type,
+        name: value.name.trim(),
+        phoneNumber,
+        ...(value.organization ? { organization: value.organization.trim() } : {}),
+        ...(value.email ? { email: value.email.trim() } : {}),
+      };
+    }
+
+    case 'reaction': {
+      // An emoji can take several code units, e.g. with skin tones or joiners
+      if (typeof value.emoji !== 'string' || value.emoji.length > 16 || typeof value.messageId !== 'string') {
+        return { status: 400, error: 'reaction needs a messageId and an emoji, or "" to remove a reaction' };
+      }
+      const target = findMessageRef(value.messageId, recipient, sessionId);
+      if ('error' in target) return target;
+      return { type, emoji: value.emoji, target };
+    }
+
+    case 'poll': {
+      const options = Array.isArray(value.options) ? value.options : [];
+      const trimmed = options.map((option: unknown) => (typeof option === 'string' ? option.trim() : ''));
+      const selectableCount = value.selectableCount === undefined ? 1 : Number(value.selectableCount);
+      if (
+        !isShortText(value.question) ||
+        trimmed.length < 2 ||
+        trimmed.length > MAX_POLL_OPTIONS ||
+        trimmed.some((option: string) => !option || option.length > MAX_RICH_TEXT_LENGTH) ||
+        new Set(trimmed).size !== trimmed.length ||
+        !Number.isInteger(selectableCount) ||
+        selectableCount < 0 ||
+        selectableCount > trimmed.length
+      ) {
+        return {
+          status: 400,
+          error: `poll needs a question and 2 to ${MAX_POLL_OPTIONS} distinct options, with selectableCount from 0 (any) to the number of options`,
+        };
+      }
+      return { type, question: value.question.trim(), options: trimmed, selectableCount };
+    }
+  }
+}
+
+/**
+ * Find a message to quote or react to: one of ours that was sent, or one a customer sent us
+ */
+function findMessageRef(
+  messageId: string,
+  recipient: string,
+  sessionId: string,
+): MessageKeyRef | { status: number; error: string } {
+  const outbound: MessageQueueItem | undefined = sessionManager.getMessage(messageId);
+  const inbound: InboundMessage | undefined = outbound ? undefined : inboxService.get(messageId);
+  const message = outbound ?? inbound;
+
+  if (!message) {
+    return { status: 404, error: `Message ${messageId} not found` };
+  }
+  if (message.phoneNumber !== recipient) {
+    return { status: 400, error: `Message ${messageId} belongs to a different chat` };
+  }
+  if ((message.sessionId ?? DEFAULT_SESSION_ID) !== sessionId) {
+    return { status: 400, error: `Message ${messageId} belongs to another session` };
+  }
+  if (!message.whatsappId) {
+    return { status: 409, error: `Message ${messageId} has not been sent yet` };
+  }
+
+  const text = outbound ? outbound.message : inbound?.text;
+  return {
+    messageId,
+    whatsappId: message.whatsappId,
+    fromMe: !!outbound,
+    ...(text ? { text } : {}),
+  };
+}
+
+function isShortText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_RICH_TEXT_LENGTH;
+}
+
+/**
+ * Read a send request's recipient: its phone number in E.164 format, or its group JID
+ */
+function parseRecipient(body: SendMessageRequest): string | { error: string } {
+  if (body.phoneNumber && body.groupJid) {
+    return { error: 'Provide either phoneNumber or groupJid, not both' };
+  }
+
+  if (body.groupJid !== undefined) {
+    return typeof body.groupJid === 'string' && PhoneNumberUtil.isGroupJid(body.groupJid)
+      ? body.groupJid
+      : { error: 'groupJid must be a WhatsApp group id ending in @g.us' };
+  }
+
+  return (
+    PhoneNumberUtil.parseNumber(body.phoneNumber ?? '', body.country) ?? {
+      error: invalidPhoneNumberError(body.country),
+    }
+  );
+}
+
+/**
+ * Check that a send request's number has a WhatsApp account, when the request or CHECK_NUMBERS_ON_SEND asks for it.
+ * A failed lookup lets the message through, so an outage of the check never blocks sending.
+ * @returns The error to reject the request with, or null to queue it
+ */
+async function findUnregisteredNumber(
+  body: SendMessageRequest,
+  session: WhatsAppSession,
+  phoneNumber: string,
+): Promise<{ error: string; phoneNumber: string } | null> {
+  const requested =
+    body.checkNumber === undefined ? process.env.CHECK_NUMBERS_ON_SEND : String(body.checkNumber);
+  if (requested !== 'true' || PhoneNumberUtil.isGroupJid(phoneNumber)) return null;
+
+  try {
+    const checks = await numberCheckService.check(session.whatsapp, [phoneNumber]);
+    if (checks.get(phoneNumber)?.record.onWhatsApp === false) {
+      return { error: `${phoneNumber} does not have a WhatsApp account`, phoneNumber };
+    }
+  } catch (error) {
+    logger.warn('Could not check number on WhatsApp, queueing anyway', { phoneNumber, error });
+  }
+  return null;
+}
+
+/**
+ * Delete the file uploaded with a request that will not be queued
+ * @param media - The request's media once saved or processed; a template's shared media is kept
+ */
+function discardUpload(req: Request, media?: NonNullable<MessageQueueItem['media']>): void {
+  if (req.file) {
+    fs.unlink(req.file.path, () => undefined);
+  }
+  if (media && !media.shared && media.path !== req.file?.path) {
+    fs.unlink(media.path, () => undefined);
+  }
+}
+
+/**
+ * Save media a send request gives in its body, as { url, filename? } or { base64, filename, mimetype? }
+ */
+async function readBodyMedia(
+  value: unknown,
+): Promise<NonNullable<MessageQueueItem['media']> | { status: number; error: string }> {
+  const media = parseJsonField(value);
+  if (
+    !media ||
+    typeof media !== 'object' ||
+    Array.isArray(media) ||
+    (media.url === undefined) === (media.base64 === undefined)
+  ) {
+    return { status: 400, error: 'media must be { url, filename? } or { base64, filename, mimetype? }' };
+  }
+  if (media.filename !== undefined && !isShortText(media.filename)) {
+    return {
+      status: 400,
+      error: `media.filename must be a name of up to ${MAX_RICH_TEXT_LENGTH} characters`,
+    };
+  }
+  if (media.mimetype !== undefined && typeof media.mimetype !== 'string') {
+    return { status: 400, error: 'media.mimetype must be a string' };
+  }
+
+  let saved: Awaited<ReturnType<typeof MediaUtil.download>>;
+  if (media.url !== undefined) {
+    if (typeof media.url !== 'string' || !isHttpUrl(media.url)) {
+      return { status: 400, error: 'media.url must be an http or https URL' };
+    }
+    saved = await MediaUtil.download(media.url, UPLOADS_DIR, media.filename);
+  } else {
+    if (typeof media.base64 !== 'string' || media.filename === undefined) {
+      return { status: 400, error: 'media.base64 must be a base64 string, sent with a filename' };
+    }
+    saved = await MediaUtil.saveBase64(media.base64, UPLOADS_DIR, media.filename, media.mimetype);
+  }
+  if ('error' in saved) return saved;
+
+  logger.info('Media saved from request body', {
+    source: media.url !== undefined ? 'url' : 'base64',
+    filename: saved.filename,
+    path: saved.path,
+    size: saved.size,
+    mimetype: saved.mimetype,
+  });
+  return { type: saved.type, path: saved.path, filename: saved.filename };
+}
+
+/**
+ * Describe the media library item a send request names with mediaId
+ */
+function readLibraryMedia(
+  body: SendMessageRequest,
+): NonNullable<MessageQueueItem['media']> | { status: number; error: string } {
+  const item: MediaLibraryItem | undefined =
+    typeof body.mediaId === 'string' ? mediaLibraryService.get(body.mediaId) : undefined;
+  if (!item) {
+    return { status: 404, error: 'Media not found in the library' };
+  }
+  if (String(body.voiceNote) === 'true' && !item.voiceNote) {
+    return { status: 400, error: 'To send library media as a voice note, add it with voiceNote=true' };
+  }
+  return mediaLibraryService.toMedia(item);
+}
+
+/**
+ * Look up the session a request names, or the default session when it names none
+ */
+function findSession(sessionId: unknown): WhatsAppSession | undefined {
+  if (sessionId !== undefined && typeof sessionId !== 'string') return undefined;
+  return sessionManager.get(sessionId || DEFAULT_SESSION_ID);
+}
+
+/**
+ * Describe a session; only admins see the QR and pairing codes, since using either takes over the session
+ */
+function toSessionResponse(res: Response, session: WhatsAppSession) {
+  const summary = sessionManager.summarize(session);
+  summary.state = toStateResponse(res, summary.state);
+  return summary;
+}
+
+/**
+ * Hide the QR and pairing codes of a connection state from callers without the admin scope
+ */
+function toStateResponse(res: Response, state: WhatsAppState): WhatsAppState {
+  const apiKey = res.locals.apiKey;
+  if (!apiKey || ApiKeyService.hasScope(apiKey, 'admin')) return state;
+
+  const { qrCode, pairingCode, ...publicState } = state;
+  return publicState;
+}
+
+/**
+ * Check that a record was created by the calling API key, or that the caller is an admin
+ */
+function isOwnedByCaller(res: Response, clientId?: string): boolean {
+  const apiKey = res.locals.apiKey;
+  return !apiKey || !clientId || clientId === apiKey.id || ApiKeyService.hasScope(apiKey, 'admin');
+}
+
+/**
+ * Render the template a send or preview request asks for
+ */
+function renderRequestedTemplate(
+  body: any,
+): RenderedTemplate | { status: number; error: string; details?: string[] } {
+  const { templateId, language, templateVersion } = body;
+
+  if (language && !TEMPLATE_LANGUAGES.includes(language)) {
+    return { status: 400, error: `language must be one of: ${TEMPLATE_LANGUAGES.join(', ')}` };
+  }
+
+  const version =
+    templateVersion !== undefined && templateVersion !== '' ? Number(templateVersion) : undefined;
+  if (version !== undefined && !Number.isInteger(version)) {
+    return { status: 400, error: 'templateVersion must be an integer' };
+  }
+
+  const result = templateService.render(templateId, parseJsonField(body.variables) ?? {}, {
+    ...(language ? { language } : {}),
+    ...(version !== undefined ? { version } : {}),
+  });
+  if (!result) {
+    return { status: 404, error: 'Template not found' };
+  }
+  if ('errors' in result) {
+    return { status: 400, error: 'Template variables are invalid', details: result.errors };
+  }
+
+  return result;
+}
+
+/**
+ * Form fields arrive as strings, JSON bodies as objects; accept both
+ */
+function parseJsonField(value: unknown): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+}
+
+/**
+ * Describe an uploaded file, restoring UTF-8 file names that multer reads as Latin-1
+ */
+function mediaFromUpload(file: Express.Multer.File): NonNullable<MessageQueueItem['media']> {
+  const decoded = Buffer.from(file.originalname, 'latin1').toString('utf8');
+  return {
+    type: MediaUtil.getFileType(file.mimetype),
+    path: file.path,
+    filename: decoded.includes('\uFFFD') ? file.originalname : decoded,
+  };
+}
+
+/**
+ * Hide server file paths from template responses
+ */
+function toTemplateResponse(template: MessageTemplate) {
+  return {
+    ...template,
+    versions: template.versions.map(({ media, ...version }) => ({
+      ...version,
+      media: media ? { type: media.type, filename: media.filename } : undefined,
+    })),
+  };
+}
+
+/**
+ * Hide the server file path of a queued message's media
+ */
+function toMessageResponse(message: MessageQueueItem) {
+  const { media, ...rest } = message;
+  if (!media) return rest;
+
+  const { path: filePath, jpegThumbnail, shared, ...publicMedia } = media;
+  return { ...rest, media: publicMedia };
+}
+
+function toMessagePageResponse(page: MessageHistoryPage) {
+  return { ...page, messages: page.messages.map(toMessageResponse) };
+}
+
+/**
+ * Hide the server file path of a media library item, and add how many queued messages use it
+ */
+function toMediaLibraryResponse(item: MediaLibraryItem) {
+  const { path: filePath, jpegThumbnail, ...rest } = item;
+  return {
+    ...rest,
+    hasThumbnail: !!jpegThumbnail,
+    references: mediaLibraryService.getReferenceCount(item),
+  };
+}
+
+/**
+ * Clean up uploads directory
+ */
+router.post('/cleanup-uploads', requireScope('admin'), (req: Request, res: Response) => {
   try {
     const uploadsDir = path.join(__dirname, '../../uploads');
     if (fs.existsSync(uploadsDir)) {
+      const referencedPaths: Set<string> = sessionManager.getReferencedMediaPaths();
       const files = fs.readdirSync(uploadsDir);
       let cleanedCount = 0;
 
       files.forEach((file) => {
         const filePath = path.join(uploadsDir, file);
+        // Keep media that queued messages still need
+        if (referencedPaths.has(path.resolve(filePath))) {
+          return;
+        }
         try {
           fs.unlinkSync(filePath);
           cleanedCount++;
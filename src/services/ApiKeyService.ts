@@ -0,0 +1,178 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey, ApiKeyScope } from '../types';
+import { JsonJournal } from '../utils/journal';
+import logger from '../utils/logger';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['send', 'read-status', 'admin'];
+
+export const BOOTSTRAP_CLIENT_ID = 'bootstrap-admin';
+
+/**
+ * Issues and verifies API keys. Only a SHA-256 hash of each key is stored;
+ * the plain key is returned once, when it is created or rotated.
+ */
+export class ApiKeyService {
+  private journal: JsonJournal<ApiKey>;
+  private idsByHash = new Map<string, string>();
+  private bootstrapHash?: Buffer;
+  private lastUsedWrites = new Map<string, number>();
+
+  constructor(filePath: string, bootstrapKey?: string) {
+    this.journal = new JsonJournal<ApiKey>(filePath);
+
+    for (const apiKey of this.journal.values()) {
+      if (!apiKey.revokedAt) {
+        this.idsByHash.set(apiKey.keyHash, apiKey.id);
+      }
+    }
+
+    if (bootstrapKey) {
+      this.bootstrapHash = Buffer.from(this.hash(bootstrapKey), 'hex');
+    }
+  }
+
+  /**
+   * Check whether any key can authenticate at all
+   */
+  hasKeys(): boolean {
+    return !!this.bootstrapHash || this.idsByHash.size > 0;
+  }
+
+  /**
+   * Create a key and return it with its plain-text value
+   */
+  create(name: string, scopes: ApiKeyScope[]): { apiKey: ApiKey; key: string } {
+    const key = this.generateKey();
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      name,
+      keyHash: this.hash(key),
+      prefix: key.slice(0, 12),
+      scopes,
+      callbackSecret: this.generateSecret(),
+      createdAt: Date.now(),
+    };
+
+    this.journal.put(apiKey);
+    this.idsByHash.set(apiKey.keyHash, apiKey.id);
+    logger.info('API key created', { keyId: apiKey.id, name, scopes });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Replace a key's secret, keeping its id and scopes
+   */
+  rotate(keyId: string): { apiKey: ApiKey; key: string } | null {
+    const apiKey = this.journal.get(keyId);
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    const key = this.generateKey();
+    this.idsByHash.delete(apiKey.keyHash);
+    apiKey.keyHash = this.hash(key);
+    apiKey.prefix = key.slice(0, 12);
+    apiKey.rotatedAt = Date.now();
+
+    this.journal.put(apiKey);
+    this.idsByHash.set(apiKey.keyHash, apiKey.id);
+    logger.info('API key rotated', { keyId });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Revoke a key; the record is kept for auditing
+   */
+  revoke(keyId: string): boolean {
+    const apiKey = this.journal.get(keyId);
+    if (!apiKey || apiKey.revokedAt) return false;
+
+    apiKey.revokedAt = Date.now();
+    this.journal.put(apiKey);
+    this.idsByHash.delete(apiKey.keyHash);
+    logger.info('API key revoked', { keyId });
+
+    return true;
+  }
+
+  /**
+   * List keys without their hashes and callback secrets
+   */
+  list(): Omit<ApiKey, 'keyHash' | 'callbackSecret'>[] {
+    return this.journal.values().map(({ keyHash, callbackSecret, ...apiKey }) => apiKey);
+  }
+
+  /**
+   * Get the secret that signs callbacks for a key's messages, creating it for older keys
+   * @returns The secret, or undefined for the bootstrap key and unknown keys
+   */
+  getCallbackSecret(keyId: string): string | undefined {
+    const apiKey = this.journal.get(keyId);
+    if (!apiKey) return undefined;
+
+    if (!apiKey.callbackSecret) {
+      apiKey.callbackSecret = this.generateSecret();
+      this.journal.put(apiKey);
+    }
+    return apiKey.callbackSecret;
+  }
+
+  /**
+   * Resolve a presented key to its record
+   */
+  authenticate(key: string): Omit<ApiKey, 'keyHash'> | null {
+    const keyHash = this.hash(key);
+
+    if (this.bootstrapHash && timingSafeEqual(this.bootstrapHash, Buffer.from(keyHash, 'hex'))) {
+      return {
+        id: BOOTSTRAP_CLIENT_ID,
+        name: 'Bootstrap admin (ADMIN_API_KEY)',
+        prefix: key.slice(0, 12),
+        scopes: ['admin'],
+        createdAt: 0,
+      };
+    }
+
+    const keyId = this.idsByHash.get(keyHash);
+    const apiKey = keyId ? this.journal.get(keyId) : undefined;
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    this.touch(apiKey);
+    const { keyHash: _hash, ...result } = apiKey;
+    return result;
+  }
+
+  /**
+   * Check whether a key grants a scope; admin grants everything
+   */
+  static hasScope(apiKey: Pick<ApiKey, 'scopes'>, scope: ApiKeyScope): boolean {
+    return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+  }
+
+  /**
+   * Record key usage, at most once a minute per key to keep the journal small
+   */
+  private touch(apiKey: ApiKey): void {
+    const now = Date.now();
+    const lastWrite = this.lastUsedWrites.get(apiKey.id) ?? 0;
+    apiKey.lastUsedAt = now;
+
+    if (now - lastWrite > 60 * 1000) {
+      this.lastUsedWrites.set(apiKey.id, now);
+      this.journal.put(apiKey);
+    }
+  }
+
+  private generateKey(): string {
+    return 'wak_' + randomBytes(24).toString('base64url');
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('hex');
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
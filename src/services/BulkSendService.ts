@@ -0,0 +1,181 @@
+import { setImmediate as yieldToEventLoop } from 'timers/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { BulkBatch, BulkBatchProgress, BulkRowResult } from '../types';
+import { DEFAULT_SESSION_ID, SessionManager } from './SessionManager';
+import { MessageHistory } from './MessageHistory';
+import { JsonJournal } from '../utils/journal';
+import { PhoneNumberUtil } from '../utils/phoneNumber';
+import { TemplateUtil } from '../utils/template';
+import logger from '../utils/logger';
+
+export interface BulkSendOptions {
+  template: string;
+  phoneColumn: string;
+  countryColumn?: string;
+  country?: string;
+  clientId?: string;
+  /** Session that sends the batch (default "default") */
+  sessionId?: string;
+  /** Queue lane of the batch's messages (default: the default lane) */
+  lane?: string;
+  dryRun?: boolean;
+}
+
+// Rows validated or queued before other requests get a turn
+const CHUNK_SIZE = 250;
+
+/**
+ * Validates recipient sheets row by row and enqueues the accepted rows as one batch
+ */
+export class BulkSendService {
+  private batches: JsonJournal<BulkBatch>;
+
+  constructor(filePath: string, private sessions: SessionManager, private history: MessageHistory) {
+    this.batches = new JsonJournal<BulkBatch>(filePath);
+  }
+
+  /**
+   * Render and validate every row, then enqueue the accepted ones unless this is a dry run.
+   * Rows are handled in chunks, so a large sheet does not hold up other requests.
+   * @throws If the session does not exist
+   */
+  async send(
+    rows: Record<string, string>[],
+    options: BulkSendOptions,
+  ): Promise<{ batch?: BulkBatch; rows: BulkRowResult[] }> {
+    const sessionId = options.sessionId ?? DEFAULT_SESSION_ID;
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const batchId = uuidv4();
+    const seen = new Set<string>();
+    const accepted: { result: BulkRowResult; phoneNumber: string; text: string }[] = [];
+    const results: BulkRowResult[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      if (index > 0 && index % CHUNK_SIZE === 0) {
+        await yieldToEventLoop();
+      }
+
+      // Row 1 is the header, so data starts at row 2 as shown in spreadsheet apps
+      const result: BulkRowResult = {
+        row: index + 2,
+        phoneNumber: row[options.phoneColumn] ?? '',
+        status: 'rejected',
+      };
+      results.push(result);
+
+      const country = (options.countryColumn && row[options.countryColumn]) || options.country;
+      const phoneNumber = PhoneNumberUtil.parseNumber(result.phoneNumber, country);
+      if (!phoneNumber) {
+        result.reason = result.phoneNumber ? 'Invalid phone number' : 'Missing phone number';
+        continue;
+      }
+
+      if (seen.has(phoneNumber)) {
+        result.reason = 'Duplicate phone number in sheet';
+        continue;
+      }
+
+      const { text, missing } = TemplateUtil.render(options.template, row);
+      if (missing.length > 0) {
+        result.reason = `Missing value for ${missing.map((name) => `{{${name}}}`).join(', ')}`;
+        continue;
+      }
+
+      seen.add(phoneNumber);
+      result.phoneNumber = phoneNumber;
+      result.status = 'accepted';
+      accepted.push({ result, phoneNumber, text });
+    }
+
+    if (options.dryRun || accepted.length === 0) {
+      return { rows: results };
+    }
+
+    const batch: BulkBatch = {
+      id: batchId,
+      template: options.template,
+      total: rows.length,
+      accepted: accepted.length,
+      rejected: rows.length - accepted.length,
+      createdAt: Date.now(),
+      sessionId: session.id,
+    };
+    if (options.clientId) {
+      batch.clientId = options.clientId;
+    }
+    if (options.lane) {
+      batch.lane = options.lane;
+    }
+    this.batches.put(batch);
+
+    let queued = 0;
+    for (const [index, { result, phoneNumber, text }] of accepted.entries()) {
+      if (index > 0 && index % CHUNK_SIZE === 0) {
+        await yieldToEventLoop();
+        // The batch may have been cancelled while it was being queued
+        if (this.batches.get(batchId)?.cancelledAt) break;
+      }
+
+      result.messageId = session.queue.addMessage(phoneNumber, text, undefined, {
+        batchId,
+        ...(options.clientId ? { clientId: options.clientId } : {}),
+        ...(options.lane ? { lane: options.lane } : {}),
+      });
+      queued++;
+    }
+
+    // Rows the cancel came before were never queued
+    if (queued < accepted.length) {
+      for (const { result } of accepted.slice(queued)) {
+        result.status = 'cancelled';
+        result.reason = 'Batch was cancelled before this row was queued';
+      }
+      batch.accepted = queued;
+      batch.cancelled = accepted.length - queued;
+      this.batches.put(batch);
+    }
+
+    logger.info('Bulk send batch queued', {
+      batchId,
+      sessionId: session.id,
+      lane: options.lane,
+      total: batch.total,
+      accepted: batch.accepted,
+      rejected: batch.rejected,
+      cancelled: batch.cancelled,
+    });
+
+    return { batch, rows: results };
+  }
+
+  /**
+   * Get a batch by ID
+   */
+  getBatch(batchId: string): BulkBatch | undefined {
+    return this.batches.get(batchId);
+  }
+
+  /**
+   * Count the batch's messages by status
+   */
+  getProgress(batchId: string): BulkBatchProgress {
+    return this.history.countBatch(batchId);
+  }
+
+  /**
+   * Cancel the batch's messages that have not been sent yet
+   */
+  cancel(batchId: string): number {
+    const batch = this.batches.get(batchId);
+    if (!batch) return 0;
+
+    batch.cancelledAt = Date.now();
+    this.batches.put(batch);
+
+    return this.sessions.cancelBatch(batchId);
+  }
+}
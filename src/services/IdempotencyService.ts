@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import { IdempotencyRecord } from '../types';
+import { JsonJournal } from '../utils/journal';
+import logger from '../utils/logger';
+
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Remembers which message each send request produced, so a retried request
+ * returns the original message instead of queueing it again. Requests are
+ * matched by the caller's idempotency key and, within an optional window, by
+ * their content (recipient, text and media bytes).
+ */
+export class IdempotencyService {
+  private journal: JsonJournal<IdempotencyRecord>;
+  private pruneTimer: NodeJS.Timeout;
+  // Keys of requests still being processed, so a retry arriving meanwhile is not queued as well
+  private claimed = new Set<string>();
+
+  /**
+   * @param keyTtlHours - How long idempotency keys are kept
+   * @param contentWindowMinutes - How long identical content counts as a repeat; 0 disables it
+   */
+  constructor(filePath: string, private keyTtlHours = 24, private contentWindowMinutes = 0) {
+    this.journal = new JsonJournal<IdempotencyRecord>(filePath);
+    this.prune();
+    this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL);
+    this.pruneTimer.unref();
+  }
+
+  /**
+   * Hash what a request asks to send
+   * @param media - Describes the media: a reference such as its URL or file name and size for the
+   *   idempotency key check, which runs before any media work, or the hash of its bytes for content dedupe
+   */
+  static fingerprint(phoneNumber: string, text: string, media?: string): string {
+    return createHash('sha256')
+      .update(phoneNumber)
+      .update('\0')
+      .update(text)
+      .update('\0')
+      .update(media ?? '')
+      .digest('hex');
+  }
+
+  /**
+   * Whether identical content within the window counts as a repeat, so it is worth hashing
+   */
+  dedupesContent(): boolean {
+    return this.contentWindowMinutes > 0;
+  }
+
+  /**
+   * Find the request a client already made with this key
+   */
+  findByKey(clientId: string | undefined, key: string): IdempotencyRecord | undefined {
+    return this.live(this.journal.get(this.keyId(clientId, key)));
+  }
+
+  /**
+   * Mark a key as taken by a request that is still being processed
+   * @returns False if another request with the key is still being processed
+   */
+  claim(clientId: string | undefined, key: string): boolean {
+    const id = this.keyId(clientId, key);
+    if (this.claimed.has(id)) return false;
+    this.claimed.add(id);
+    return true;
+  }
+
+  /**
+   * Free a key once its request was queued or refused
+   */
+  release(clientId: string | undefined, key: string): void {
+    this.claimed.delete(this.keyId(clientId, key));
+  }
+
+  /**
+   * Find a recent request of the same client with the same content
+   * @returns The earlier request, or undefined if none or content dedupe is off
+   */
+  findByContent(clientId: string | undefined, fingerprint: string): IdempotencyRecord | undefined {
+    if (!this.dedupesContent()) return undefined;
+    return this.live(this.journal.get(this.contentId(clientId, fingerprint)));
+  }
+
+  /**
+   * Record the message a request produced
+   * @param fingerprints.request - Fingerprint the idempotency key is checked against
+   * @param fingerprints.content - Fingerprint of the content; only kept while content dedupe is on
+   */
+  remember(
+    messageId: string,
+    fingerprints: { request: string; content?: string },
+    clientId?: string,
+    key?: string,
+  ): void {
+    const now = Date.now();
+
+    if (key) {
+      this.journal.put({
+        id: this.keyId(clientId, key),
+        messageId,
+        fingerprint: fingerprints.request,
+        createdAt: now,
+        expiresAt: now + this.keyTtlHours * 60 * 60 * 1000,
+      });
+    }
+    if (fingerprints.content && this.dedupesContent()) {
+      this.journal.put({
+        id: this.contentId(clientId, fingerprints.content),
+        messageId,
+        fingerprint: fingerprints.content,
+        createdAt: now,
+        expiresAt: now + this.contentWindowMinutes * 60 * 1000,
+      });
+    }
+  }
+
+  /**
+   * Stop the prune timer
+   */
+  cleanup(): void {
+    clearInterval(this.pruneTimer);
+  }
+
+  // Keys and content hashes are scoped to the API key that sent them, so two clients cannot collide
+  private keyId(clientId: string | undefined, key: string): string {
+    return `key:${clientId ?? ''}:${key}`;
+  }
+
+  private contentId(clientId: string | undefined, fingerprint: string): string {
+    return `content:${clientId ?? ''}:${fingerprint}`;
+  }
+
+  private live(record: IdempotencyRecord | undefined): IdempotencyRecord | undefined {
+    return record && record.expiresAt > Date.now() ? record : undefined;
+  }
+
+  /**
+   * Drop expired keys and content hashes
+   */
+  private prune(): void {
+    const now = Date.now();
+    let pruned = 0;
+    for (const record of this.journal.values()) {
+      if (record.expiresAt <= now) {
+        this.journal.delete(record.id);
+        pruned++;
+      }
+    }
+
+    if (pruned > 0) {
+      logger.info('Pruned expired idempotency records', { pruned });
+    }
+  }
+}
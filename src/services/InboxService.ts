@@ -0,0 +1,162 @@
+import fs from 'fs';
+import {
+  ConversationEntry,
+  ConversationSummary,
+  InboundMessage,
+  InboxPage,
+  InboxQuery,
+  MessageHistoryPage,
+} from '../types';
+import { MessageHistory } from './MessageHistory';
+import { JsonJournal } from '../utils/journal';
+import logger from '../utils/logger';
+
+/**
+ * Persistent log of messages customers send us, linked to the outbound messages they reply to
+ */
+export class InboxService {
+  private journal: JsonJournal<InboundMessage>;
+  private seenWhatsAppIds = new Set<string>();
+
+  constructor(filePath: string, private history: MessageHistory, retentionDays = 0) {
+    this.journal = new JsonJournal<InboundMessage>(filePath);
+
+    if (retentionDays > 0) {
+      this.prune(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    }
+
+    for (const message of this.journal.values()) {
+      this.seenWhatsAppIds.add(message.whatsappId);
+    }
+  }
+
+  /**
+   * Store an inbound message, linking it to the outbound message it quotes
+   * @returns The stored message, or null if WhatsApp delivered it before
+   */
+  record(message: InboundMessage): InboundMessage | null {
+    if (this.seenWhatsAppIds.has(message.whatsappId)) {
+      return null;
+    }
+
+    const stored = { ...message };
+    if (message.quotedWhatsAppId) {
+      const outbound = this.history.findByWhatsAppId(message.quotedWhatsAppId);
+      if (outbound) {
+        stored.inReplyTo = outbound.id;
+      }
+    }
+
+    this.journal.put(stored);
+    this.seenWhatsAppIds.add(stored.whatsappId);
+    logger.info('Inbound message received', {
+      messageId: stored.id,
+      phoneNumber: stored.phoneNumber,
+      type: stored.type,
+      inReplyTo: stored.inReplyTo,
+    });
+
+    return stored;
+  }
+
+  /**
+   * Get an inbound message by ID
+   */
+  get(messageId: string): InboundMessage | undefined {
+    return this.journal.get(messageId);
+  }
+
+  /**
+   * List inbound messages matching a filter, newest first
+   */
+  query(filter: InboxQuery): InboxPage {
+    const matches = this.journal
+      .values()
+      .filter((message) => {
+        if (filter.phoneNumber && message.phoneNumber !== filter.phoneNumber) return false;
+        if (filter.from !== undefined && message.timestamp < filter.from) return false;
+        if (filter.to !== undefined && message.timestamp > filter.to) return false;
+        return true;
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    const start = (filter.page - 1) * filter.limit;
+
+    return {
+      messages: matches.slice(start, start + filter.limit),
+      total: matches.length,
+      page: filter.page,
+      limit: filter.limit,
+    };
+  }
+
+  /**
+   * List the contacts who wrote to us, most recent conversation first
+   */
+  listConversations(): ConversationSummary[] {
+    const conversations = new Map<string, ConversationSummary>();
+
+    for (const message of this.journal.values()) {
+      const summary = conversations.get(message.phoneNumber) ?? {
+        phoneNumber: message.phoneNumber,
+        lastMessageAt: 0,
+        inboundCount: 0,
+      };
+
+      summary.inboundCount++;
+      if (message.timestamp >= summary.lastMessageAt) {
+        summary.lastMessageAt = message.timestamp;
+        if (message.text) {
+          summary.lastText = message.text;
+        } else {
+          delete summary.lastText;
+        }
+        if (message.pushName) {
+          summary.pushName = message.pushName;
+        }
+      }
+
+      conversations.set(message.phoneNumber, summary);
+    }
+
+    return Array.from(conversations.values()).sort((a, b) => b.lastMessageAt - a.lastMessageAt);
+  }
+
+  /**
+   * Get the most recent messages exchanged with a contact in both directions, oldest first
+   */
+  getConversation(phoneNumber: string, limit: number): ConversationEntry[] {
+    const inbound: ConversationEntry[] = this.query({ phoneNumber, page: 1, limit }).messages.map(
+      (message) => ({ direction: 'inbound', timestamp: message.timestamp, message }),
+    );
+    const outboundPage: MessageHistoryPage = this.history.query({ phoneNumber, page: 1, limit });
+    const outbound: ConversationEntry[] = outboundPage.messages.map((message) => ({
+      direction: 'outbound',
+      timestamp: message.completedAt ?? message.timestamp,
+      message,
+    }));
+
+    return [...inbound, ...outbound].sort((a, b) => a.timestamp - b.timestamp).slice(-limit);
+  }
+
+  /**
+   * Drop messages older than the cutoff along with their media files
+   */
+  private prune(cutoff: number): void {
+    let pruned = 0;
+    for (const message of this.journal.values()) {
+      if (message.timestamp >= cutoff) continue;
+
+      this.journal.delete(message.id);
+      if (message.media) {
+        fs.rm(message.media.path, { force: true }, () => undefined);
+      }
+      pruned++;
+    }
+
+    if (pruned > 0) {
+      this.journal.compact();
+      logger.info('Pruned inbox', { pruned });
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MediaLibraryItem, MessageQueueItem } from '../types';
+import { SessionManager } from './SessionManager';
+import { JsonJournal } from '../utils/journal';
+import { MediaUtil } from '../utils/media';
+import { MediaPipelineUtil } from '../utils/mediaPipeline';
+import logger from '../utils/logger';
+
+type Media = NonNullable<MessageQueueItem['media']>;
+
+export interface MediaLibraryServiceOptions {
+  itemsPath: string;
+  /** Directory that owns the stored files */
+  mediaDir: string;
+}
+
+type AddResult = { item: MediaLibraryItem; created: boolean } | { status: number; error: string };
+
+/**
+ * Stores media once so any number of sends can reference it by id. Files are
+ * deduplicated by the hash of their content, and an item cannot be deleted
+ * while queued messages still need its file.
+ */
+export class MediaLibraryService {
+  private journal: JsonJournal<MediaLibraryItem>;
+  private mediaDir: string;
+  // Uploads being processed, so the same file uploaded twice at once is stored once
+  private adding = new Map<string, Promise<AddResult>>();
+
+  constructor(options: MediaLibraryServiceOptions, private sessions: SessionManager) {
+    this.journal = new JsonJournal<MediaLibraryItem>(options.itemsPath);
+    this.mediaDir = options.mediaDir;
+    fs.mkdirSync(this.mediaDir, { recursive: true });
+  }
+
+  /**
+   * Add an uploaded file, or find the item already holding the same content
+   * @param media - A file owned by the request; it is moved into the library or deleted
+   * @param options.voiceNote - Store audio as a voice note, converting it to ogg/opus
+   * @param options.clientId - API key adding the file; it owns a new item
+   * @returns The item and whether it is new, or the status and error to answer the request with.
+   *   On error the uploaded file is left for the caller to delete.
+   */
+  async add(media: Media, options: { voiceNote?: boolean; clientId?: string } = {}): Promise<AddResult> {
+    const sha256 = await MediaUtil.hashFile(media.path);
+    const voiceNote = !!options.voiceNote;
+
+    const existing = this.journal
+      .values()
+      .find((item) => item.sha256 === sha256 && !!item.voiceNote === voiceNote);
+    if (existing) {
+      await fs.promises.unlink(media.path).catch(() => undefined);
+      return { item: existing, created: false };
+    }
+
+    const key = `${sha256}:${voiceNote}`;
+    const pending = this.adding.get(key);
+    if (pending) {
+      await fs.promises.unlink(media.path).catch(() => undefined);
+      const result = await pending;
+      return 'error' in result ? result : { item: result.item, created: false };
+    }
+
+    const adding = this.store(media, sha256, voiceNote, options.clientId).finally(() =>
+      this.adding.delete(key),
+    );
+    this.adding.set(key, adding);
+    return adding;
+  }
+
+  /**
+   * Get an item by id
+   */
+  get(itemId: string): MediaLibraryItem | undefined {
+    return this.journal.get(itemId);
+  }
+
+  /**
+   * List items, newest first
+   */
+  list(): MediaLibraryItem[] {
+    return this.journal.values().sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Count the queued messages of every session that still need an item's file
+   */
+  getReferenceCount(item: MediaLibraryItem): number {
+    return this.sessions.getMediaReferenceCounts().get(path.resolve(item.path)) ?? 0;
+  }
+
+  /**
+   * Describe an item as message media; the file is shared, so sending never deletes it
+   */
+  toMedia(item: MediaLibraryItem): Media {
+    return {
+      type: item.type,
+      path: item.path,
+      mimetype: item.mimetype,
+      ...(item.filename ? { filename: item.filename } : {}),
+      ...(item.voiceNote ? { voiceNote: true } : {}),
+      ...(item.jpegThumbnail ? { jpegThumbnail: item.jpegThumbnail } : {}),
+      shared: true,
+      mediaId: item.id,
+    };
+  }
+
+  /**
+   * Delete an item and its file
+   * @returns The deleted item, the number of queued messages that still need it, or undefined if not found
+   */
+  delete(itemId: string): { item: MediaLibraryItem } | { references: number } | undefined {
+    const item = this.journal.get(itemId);
+    if (!item) return undefined;
+
+    const references = this.getReferenceCount(item);
+    if (references > 0) return { references };
+
+    this.journal.delete(itemId);
+    fs.unlink(item.path, (error) => {
+      if (error && error.code !== 'ENOENT') {
+        logger.warn('Failed to delete media library file', { path: item.path, error });
+      }
+    });
+
+    logger.info('Media library item deleted', { mediaId: itemId, filename: item.filename });
+    return { item };
+  }
+
+  /**
+   * Process an upload the library does not hold yet and move it into the library directory
+   */
+  private async store(
+    media: Media,
+    sha256: string,
+    voiceNote: boolean,
+    clientId: string | undefined,
+  ): Promise<AddResult> {
+    const processed = await MediaPipelineUtil.process(media, { voiceNote });
+    if ('error' in processed) return processed;
+
+    const id = uuidv4();
+    const target = path.join(this.mediaDir, `${id}${path.extname(processed.path)}`);
+    try {
+      // Copy rather than rename, since uploads and data may be on different disks
+      await fs.promises.copyFile(processed.path, target);
+      await fs.promises.unlink(processed.path);
+    } catch (error) {
+      await fs.promises.unlink(target).catch(() => undefined);
+      throw error;
+    }
+
+    const item: MediaLibraryItem = {
+      id,
+      sha256,
+      type: processed.type,
+      mimetype: processed.mimetype ?? 'application/octet-stream',
+      ...(processed.filename ? { filename: processed.filename } : {}),
+      size: (await fs.promises.stat(target)).size,
+      path: target,
+      ...(processed.voiceNote ? { voiceNote: true } : {}),
+      ...(processed.jpegThumbnail ? { jpegThumbnail: processed.jpegThumbnail } : {}),
+      ...(clientId ? { clientId } : {}),
+      createdAt: Date.now(),
+    };
+    this.journal.put(item);
+
+    logger.info('Media library item added', {
+      mediaId: id,
+      filename: item.filename,
+      type: item.type,
+      size: item.size,
+    });
+    return { item, created: true };
+  }
+}
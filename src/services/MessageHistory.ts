@@ -0,0 +1,177 @@
+import { BulkBatchProgress, MessageHistoryPage, MessageHistoryQuery, MessageQueueItem } from '../types';
+import { JsonJournal } from '../utils/journal';
+import logger from '../utils/logger';
+
+function emptyStatusCounts(): Record<MessageQueueItem['status'], number> {
+  return {
+    pending: 0,
+    sending: 0,
+    sent: 0,
+    server_ack: 0,
+    delivered: 0,
+    read: 0,
+    played: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+}
+
+// Records from before sessions existed belong to the default session. Its id is fixed; importing it
+// from SessionManager would load the WhatsApp connection along with the history.
+const LEGACY_SESSION_ID = 'default';
+
+/**
+ * Persistent delivery log of every message that entered the queue
+ */
+export class MessageHistory {
+  private journal: JsonJournal<MessageQueueItem>;
+  // Counts by session
+  private statusCounts = new Map<string, Record<MessageQueueItem['status'], number>>();
+  private idsByWhatsAppId = new Map<string, string>();
+
+  constructor(filePath: string, retentionDays = 0) {
+    this.journal = new JsonJournal<MessageQueueItem>(filePath);
+
+    if (retentionDays > 0) {
+      this.prune(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    }
+
+    for (const record of this.journal.values()) {
+      this.countsFor(record)[record.status]++;
+      if (record.whatsappId) {
+        this.idsByWhatsAppId.set(record.whatsappId, record.id);
+      }
+    }
+  }
+
+  /**
+   * Record the current state of a message
+   */
+  record(item: MessageQueueItem): void {
+    const previous = this.journal.get(item.id);
+    if (previous) {
+      this.countsFor(previous)[previous.status]--;
+    }
+
+    this.journal.put({ ...item, attempts: item.attempts.map((attempt) => ({ ...attempt })) });
+    this.countsFor(item)[item.status]++;
+    if (item.whatsappId) {
+      this.idsByWhatsAppId.set(item.whatsappId, item.id);
+    }
+  }
+
+  /**
+   * Get a message record by ID
+   */
+  get(messageId: string): MessageQueueItem | undefined {
+    return this.journal.get(messageId);
+  }
+
+  /**
+   * Get a message record by the id WhatsApp assigned when it was sent
+   */
+  findByWhatsAppId(whatsappId: string): MessageQueueItem | undefined {
+    const messageId = this.idsByWhatsAppId.get(whatsappId);
+    return messageId ? this.journal.get(messageId) : undefined;
+  }
+
+  /**
+   * Count records with the given status
+   * @param sessionId - Only count the records of this session; every session when left out
+   */
+  count(status: MessageQueueItem['status'], sessionId?: string): number {
+    if (sessionId !== undefined) {
+      return this.statusCounts.get(sessionId)?.[status] ?? 0;
+    }
+    let total = 0;
+    for (const counts of this.statusCounts.values()) {
+      total += counts[status];
+    }
+    return total;
+  }
+
+  /**
+   * Count a batch's messages by status
+   */
+  countBatch(batchId: string): BulkBatchProgress {
+    const progress: BulkBatchProgress = emptyStatusCounts();
+    for (const record of this.journal.values()) {
+      if (record.batchId === batchId) {
+        progress[record.status]++;
+      }
+    }
+    return progress;
+  }
+
+  /**
+   * List the send attempts a session started since the cutoff, oldest first
+   */
+  listAttemptsSince(since: number, sessionId?: string): { phoneNumber: string; startedAt: number }[] {
+    const attempts: { phoneNumber: string; startedAt: number }[] = [];
+    for (const record of this.journal.values()) {
+      if (record.sessionId !== sessionId) continue;
+      for (const attempt of record.attempts ?? []) {
+        if (attempt.startedAt >= since) {
+          attempts.push({ phoneNumber: record.phoneNumber, startedAt: attempt.startedAt });
+        }
+      }
+    }
+    return attempts.sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  /**
+   * List records matching a filter, newest first
+   */
+  query(filter: MessageHistoryQuery): MessageHistoryPage {
+    const matches = this.journal
+      .values()
+      .filter((record) => {
+        if (filter.phoneNumber && record.phoneNumber !== filter.phoneNumber) return false;
+        if (filter.status && record.status !== filter.status) return false;
+        if (filter.batchId && record.batchId !== filter.batchId) return false;
+        if (filter.sessionId && record.sessionId !== filter.sessionId) return false;
+        if (filter.from !== undefined && record.timestamp < filter.from) return false;
+        if (filter.to !== undefined && record.timestamp > filter.to) return false;
+        return true;
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    const start = (filter.page - 1) * filter.limit;
+
+    return {
+      messages: matches.slice(start, start + filter.limit),
+      total: matches.length,
+      page: filter.page,
+      limit: filter.limit,
+    };
+  }
+
+  private countsFor(record: MessageQueueItem): Record<MessageQueueItem['status'], number> {
+    const sessionId = record.sessionId ?? LEGACY_SESSION_ID;
+    let counts = this.statusCounts.get(sessionId);
+    if (!counts) {
+      counts = emptyStatusCounts();
+      this.statusCounts.set(sessionId, counts);
+    }
+    return counts;
+  }
+
+  /**
+   * Drop finished records older than the cutoff
+   */
+  private prune(cutoff: number): void {
+    let pruned = 0;
+    for (const record of this.journal.values()) {
+      const finished = record.status !== 'pending' && record.status !== 'sending';
+      if (finished && record.timestamp < cutoff) {
+        this.journal.delete(record.id);
+        pruned++;
+      }
+    }
+
+    if (pruned > 0) {
+      this.journal.compact();
+      logger.info('Pruned message history', { pruned });
+    }
+  }
+}
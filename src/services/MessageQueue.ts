@@ -1,23 +1,113 @@
 import { EventEmitter } from 'events';
+import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { MessageQueueItem, QueueStatus } from '../types';
+import {
+  MessageQueueItem,
+  MessageReceiptStatus,
+  QueueMessageOptions,
+  QueueStatus,
+  SendErrorClass,
+  ThrottleStatus,
+} from '../types';
+import { QueueStore } from './QueueStore';
+import { MessageHistory } from './MessageHistory';
+import { RateLimiter } from './RateLimiter';
+import { SendWindowUtil } from '../utils/sendWindow';
+import { QueueLane, QueueLaneUtil } from '../utils/queueLanes';
+import { RetryPolicyUtil } from '../utils/retryPolicy';
 import logger from '../utils/logger';
 
+// setTimeout overflows past ~24.8 days, so far-off schedules are re-checked hourly
+const MAX_WAKE_UP_DELAY = 60 * 60 * 1000;
+
+// Receipts can arrive out of order or twice, so a status only ever moves forward along this list
+const RECEIPT_ORDER: MessageReceiptStatus[] = ['sent', 'server_ack', 'delivered', 'read', 'played'];
+
+// Statuses of messages that have left the queue for good
+const FINISHED_STATUSES: MessageQueueItem['status'][] = [...RECEIPT_ORDER, 'failed', 'cancelled'];
+
+const RECEIPT_TIMESTAMP_FIELDS = {
+  server_ack: 'serverAckAt',
+  delivered: 'deliveredAt',
+  read: 'readAt',
+  played: 'playedAt',
+} as const;
+
 export class MessageQueue extends EventEmitter {
   private queue: MessageQueueItem[] = [];
   private isProcessing = false;
+  private isStopped = false;
+  private isParked = false;
+  private isPaused = false;
   private lastSendTime = 0;
-  private processingTimeout?: NodeJS.Timeout;
+  private processingTimeout: NodeJS.Timeout | undefined;
   private processingMessages = new Set<string>(); // Track messages currently being processed
+  private laneCredits = new Map<string, number>(); // Weighted round-robin state per lane
 
-  constructor() {
+  constructor(
+    private store: QueueStore,
+    private history: MessageHistory,
+    private sessionId?: string,
+    private limiter = new RateLimiter(),
+  ) {
     super();
   }
 
+  /**
+   * Reload persisted messages after a restart.
+   * Messages that were in flight go back to pending, unless the history shows they finished.
+   * Delivery is at least once: a message WhatsApp accepted just before the shutdown, before its
+   * send was recorded, is sent again. The resend reuses the WhatsApp message id, but the
+   * recipient may still see it twice.
+   */
+  restore(): number {
+    const items = this.store.load();
+
+    let restored = 0;
+    for (const item of items) {
+      if (this.queue.some((msg) => msg.id === item.id)) continue;
+
+      item.attempts ??= [];
+
+      // The history is written before a finished message leaves the store
+      const recorded = this.history.get(item.id);
+      if (recorded && FINISHED_STATUSES.includes(recorded.status)) {
+        this.store.remove(item.id);
+        logger.warn(`Message ${item.id} finished before shutdown, not re-queued`, {
+          status: recorded.status,
+        });
+        continue;
+      }
+
+      if (item.status === 'sending') {
+        item.status = 'pending';
+        this.persist(item);
+        logger.warn(`Message ${item.id} was in flight during shutdown, re-queued`);
+      }
+
+      this.queue.push(item);
+      restored++;
+    }
+
+    // Sends from before the restart still count towards the rate limits
+    const since = Date.now() - this.limiter.getLookback();
+    for (const attempt of this.history.listAttemptsSince(since, this.sessionId)) {
+      this.limiter.record(attempt.phoneNumber, attempt.startedAt);
+    }
+
+    logger.info('Message queue restored', { restored });
+    return restored;
+  }
+
   /**
    * Add a message to the queue
    */
-  addMessage(phoneNumber: string, message: string, media?: MessageQueueItem['media']): string {
+  addMessage(
+    phoneNumber: string,
+    message: string,
+    media?: MessageQueueItem['media'],
+    options: QueueMessageOptions = {},
+  ): string {
     const messageId = uuidv4();
     const queueItem: MessageQueueItem = {
       id: messageId,
@@ -26,14 +116,57 @@ export class MessageQueue extends EventEmitter {
       timestamp: Date.now(),
       status: 'pending',
       retryCount: 0,
+      attempts: [],
     };
 
     if (media) {
       queueItem.media = media;
     }
+    if (this.sessionId) {
+      queueItem.sessionId = this.sessionId;
+    }
+    if (options.callbackUrl) {
+      queueItem.callbackUrl = options.callbackUrl;
+    }
+    if (options.clientId) {
+      queueItem.clientId = options.clientId;
+    }
+    if (options.batchId) {
+      queueItem.batchId = options.batchId;
+    }
+    if (options.template) {
+      queueItem.template = options.template;
+    }
+    if (options.sendAt && options.sendAt > queueItem.timestamp) {
+      queueItem.sendAt = options.sendAt;
+    }
+    if (options.lane) {
+      queueItem.lane = options.lane;
+    }
+    if (options.priority) {
+      queueItem.priority = options.priority;
+    }
+    if (options.content) {
+      queueItem.content = options.content;
+    }
+    if (options.replyTo) {
+      queueItem.replyTo = options.replyTo;
+    }
+    if (options.linkPreview !== undefined) {
+      queueItem.linkPreview = options.linkPreview;
+    }
 
+    // Persist before acknowledging so the caller's messageId survives a restart
+    this.persist(queueItem);
     this.queue.push(queueItem);
-    logger.info(`Message added to queue: ${messageId}`, { phoneNumber, queueLength: this.queue.length });
+    logger.info(`Message added to queue: ${messageId}`, {
+      phoneNumber,
+      clientId: options.clientId,
+      sendAt: queueItem.sendAt,
+      lane: queueItem.lane,
+      queueLength: this.queue.length,
+    });
+    this.emit('messageQueued', queueItem);
 
     // Start processing if not already running
     if (!this.isProcessing) {
@@ -44,52 +177,109 @@ export class MessageQueue extends EventEmitter {
   }
 
   /**
-   * Process the message queue with random delays
+   * Start processing pending messages if not already running, also ending a park
+   */
+  start(): void {
+    this.isStopped = false;
+    this.isParked = false;
+    if (!this.isProcessing) {
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Stop sending until resume() is called, whatever the connection does
+   */
+  pause(): void {
+    this.isPaused = true;
+    if (this.processingTimeout) {
+      clearTimeout(this.processingTimeout);
+    }
+    logger.info('Message queue paused', { pending: this.queue.length });
+  }
+
+  /**
+   * Continue sending after pause()
+   */
+  resume(): void {
+    if (!this.isPaused) return;
+
+    this.isPaused = false;
+    logger.info('Message queue resumed', { pending: this.queue.length });
+    if (!this.isProcessing) {
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Hold every message while WhatsApp is disconnected, without failing any; start() resumes
+   */
+  park(): void {
+    if (this.isParked) return;
+
+    this.isParked = true;
+    if (this.processingTimeout) {
+      clearTimeout(this.processingTimeout);
+    }
+    logger.info('Message queue parked until WhatsApp reconnects', { pending: this.queue.length });
+  }
+
+  /**
+   * Stop picking up new messages, keeping everything persisted
+   */
+  stop(): void {
+    this.isStopped = true;
+    if (this.processingTimeout) {
+      clearTimeout(this.processingTimeout);
+    }
+    logger.info('Message queue stopped', { pending: this.queue.length });
+  }
+
+  /**
+   * Process the message queue, pacing messages by the rate limiter
    */
   private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.queue.length === 0) {
+    if (this.isProcessing || !this.canSend() || this.queue.length === 0) {
       return;
     }
 
     this.isProcessing = true;
     logger.info('Starting queue processing');
 
-    while (this.queue.length > 0) {
-      // Get the first pending message and remove it from the queue immediately
-      const pendingIndex = this.queue.findIndex(
-        (msg) => msg.status === 'pending' && !this.processingMessages.has(msg.id),
-      );
-      if (pendingIndex === -1) break;
-
-      const items = this.queue.splice(pendingIndex, 1); // Remove and get the item
-      const item = items[0];
-      if (!item) break; // Safety check
-
-      // Double-check that this message is not already being processed
-      if (this.processingMessages.has(item.id)) {
-        logger.warn(`Message ${item.id} is already being processed, skipping`);
-        continue;
-      }
+    while (this.queue.length > 0 && this.canSend()) {
+      // Pick the next due message; it stays in the queue until sent or failed
+      const item = this.nextDueItem();
+      if (!item) break;
 
       // Mark as being processed
       this.processingMessages.add(item.id);
 
       try {
-        // Calculate delay since last message (1-5 seconds)
+        // Random pause since the last message
         const timeSinceLastSend = Date.now() - this.lastSendTime;
-        const minDelay = 1000; // 1 second
-        const maxDelay = 5000; // 5 seconds
-        const randomDelay = Math.floor(Math.random() * (maxDelay - minDelay + 1)) + minDelay;
-
-        const actualDelay = Math.max(0, randomDelay - timeSinceLastSend);
+        const actualDelay = Math.max(0, this.limiter.getDelay(this.getLane(item)) - timeSinceLastSend);
 
         if (actualDelay > 0) {
           logger.info(`Waiting ${actualDelay}ms before sending next message`);
           await this.delay(actualDelay);
         }
 
+        if (!this.canSend()) {
+          this.processingMessages.delete(item.id);
+          break;
+        }
+
+        // Cancelled or rescheduled while we were waiting
+        if (item.status !== 'pending' || (item.sendAt && item.sendAt > Date.now())) {
+          this.processingMessages.delete(item.id);
+          continue;
+        }
+
         // Mark as sending
         item.status = 'sending';
+        item.attempts.push({ startedAt: Date.now() });
+        this.limiter.record(item.phoneNumber);
+        this.persist(item);
         this.emit('messageSending', item);
 
         // Emit event for WhatsApp service to handle
@@ -101,37 +291,161 @@ export class MessageQueue extends EventEmitter {
         await this.delay(100);
       } catch (error) {
         logger.error('Error processing queue item', { error, itemId: item.id });
-        item.status = 'failed';
-        item.retryCount++;
-        this.processingMessages.delete(item.id); // Remove from processing set
-
-        // Add back to queue for retry if under retry limit
-        if (item.retryCount < 3) {
-          item.status = 'pending';
-          this.queue.push(item);
-          logger.warn(`Message failed, will retry: ${item.id}`, { retryCount: item.retryCount, error });
-        } else {
-          // Permanently failed, don't add back to queue
-          this.emit('messageFailed', item);
-          logger.error(`Message permanently failed: ${item.id}`, { error });
-        }
+        this.markAsFailed(item.id, error instanceof Error ? error.message : 'Unknown error');
       }
     }
 
     this.isProcessing = false;
     logger.info('Queue processing completed');
+    this.scheduleWakeUp();
+  }
+
+  /**
+   * Whether nothing holds the queue back: not stopped, parked or paused
+   */
+  private canSend(): boolean {
+    return !this.isStopped && !this.isParked && !this.isPaused;
+  }
+
+  /**
+   * Pick the next message that may be sent now.
+   * Due messages whose recipient is in quiet hours are pushed to the next send window;
+   * messages over a rate limit simply wait until it has room again.
+   * A message moved to the front goes first; otherwise each lane offers its highest-priority
+   * due message, and the lanes take turns by weight.
+   */
+  private nextDueItem(): MessageQueueItem | undefined {
+    const now = Date.now();
+    if (this.limiter.getNextSendTime(now) > now) return undefined;
+
+    const candidates = new Map<string, MessageQueueItem>();
+    let pinned: MessageQueueItem | undefined;
+    for (const item of this.queue) {
+      if (item.status !== 'pending' || this.processingMessages.has(item.id)) continue;
+      if (item.sendAt && item.sendAt > now) continue;
+      if (this.limiter.getNextSendTimeFor(item.phoneNumber, now) > now) continue;
+
+      const allowedAt = SendWindowUtil.getNextSendTime(item.phoneNumber, now);
+      if (allowedAt > now) {
+        item.sendAt = allowedAt;
+        this.persist(item);
+        logger.info(`Message ${item.id} held by quiet hours`, { sendAt: new Date(allowedAt).toISOString() });
+        continue;
+      }
+
+      if (item.pinnedAt && (!pinned || item.pinnedAt > pinned.pinnedAt!)) {
+        pinned = item;
+      }
+
+      // Within a lane, the earliest queued message wins a priority tie
+      const lane = this.getLane(item).name;
+      const best = candidates.get(lane);
+      if (!best || (item.priority ?? 0) > (best.priority ?? 0)) {
+        candidates.set(lane, item);
+      }
+    }
+
+    return pinned ?? this.pickLane(candidates);
+  }
+
+  /**
+   * Smooth weighted round-robin: every waiting lane earns its weight in credit, the richest
+   * lane sends and pays back the total. Heavy lanes go first and most often, light lanes still
+   * get their turn.
+   */
+  private pickLane(candidates: Map<string, MessageQueueItem>): MessageQueueItem | undefined {
+    let chosen: string | undefined;
+    let totalWeight = 0;
+
+    for (const [lane, item] of candidates) {
+      const weight = this.getLane(item).weight;
+      const credit = (this.laneCredits.get(lane) ?? 0) + weight;
+      this.laneCredits.set(lane, credit);
+      totalWeight += weight;
+
+      if (chosen === undefined || credit > this.laneCredits.get(chosen)!) {
+        chosen = lane;
+      }
+    }
+
+    // Lanes with nothing waiting start over when messages arrive again
+    for (const lane of this.laneCredits.keys()) {
+      if (!candidates.has(lane)) {
+        this.laneCredits.delete(lane);
+      }
+    }
+
+    if (chosen === undefined) return undefined;
+    this.laneCredits.set(chosen, this.laneCredits.get(chosen)! - totalWeight);
+    return candidates.get(chosen);
+  }
+
+  /**
+   * Lane of a message; messages naming a lane that is no longer configured use the default one
+   */
+  private getLane(item: MessageQueueItem): QueueLane {
+    return QueueLaneUtil.getLane(item.lane) ?? QueueLaneUtil.getLane()!;
+  }
+
+  /**
+   * Wake the queue up when the earliest waiting message becomes due
+   */
+  private scheduleWakeUp(): void {
+    if (this.processingTimeout) {
+      clearTimeout(this.processingTimeout);
+      this.processingTimeout = undefined;
+    }
+    if (!this.canSend()) return;
+
+    const now = Date.now();
+    const nextSendAt = this.getNextSendAt(now);
+    if (nextSendAt === undefined) return;
+
+    const delay = Math.min(Math.max(nextSendAt - now, 0), MAX_WAKE_UP_DELAY);
+    this.processingTimeout = setTimeout(() => this.processQueue(), delay);
+  }
+
+  /**
+   * Earliest time a pending message is scheduled for and fits the rate limits
+   */
+  private getNextSendAt(now: number): number | undefined {
+    const limiterAt = this.limiter.getNextSendTime(now);
+    let nextSendAt: number | undefined;
+
+    for (const item of this.queue) {
+      if (item.status !== 'pending' || this.processingMessages.has(item.id)) continue;
+
+      const dueAt = Math.max(
+        item.sendAt ?? now,
+        limiterAt,
+        this.limiter.getNextSendTimeFor(item.phoneNumber, now),
+      );
+      if (nextSendAt === undefined || dueAt < nextSendAt) {
+        nextSendAt = dueAt;
+      }
+    }
+
+    return nextSendAt;
   }
 
   /**
    * Mark a message as sent
    */
-  markAsSent(messageId: string): void {
+  markAsSent(messageId: string, whatsappId?: string): void {
     const item = this.queue.find((msg) => msg.id === messageId);
     if (item) {
       item.status = 'sent';
+      item.completedAt = Date.now();
+      if (whatsappId) {
+        item.whatsappId = whatsappId;
+      }
+      this.finishAttempt(item);
       // Remove the message from queue immediately
       this.queue = this.queue.filter((msg) => msg.id !== messageId);
+      this.history.record(item);
+      this.store.remove(messageId);
       this.processingMessages.delete(messageId); // Remove from processing set
+      this.cleanupMediaFile(item);
       this.emit('messageSent', item);
       logger.info(`Message sent successfully: ${messageId}`);
     } else {
@@ -142,64 +456,353 @@ export class MessageQueue extends EventEmitter {
   }
 
   /**
-   * Mark a message as failed
+   * Apply a delivery receipt to a sent message
+   * @param whatsappId - The message id WhatsApp reported the receipt for
+   * @param status - The status the receipt reports
+   * @param at - When the receipt happened, epoch ms
+   * @returns The updated message, or null if the message is unknown or already further along
+   */
+  markReceipt(whatsappId: string, status: MessageReceiptStatus, at = Date.now()): MessageQueueItem | null {
+    const record = this.history.findByWhatsAppId(whatsappId);
+    if (!record || !RECEIPT_ORDER.includes(record.status as MessageReceiptStatus)) return null;
+
+    const item = { ...record };
+    const current = RECEIPT_ORDER.indexOf(item.status as MessageReceiptStatus);
+    const next = RECEIPT_ORDER.indexOf(status);
+    if (next <= current) return null;
+
+    // A read receipt implies delivery, so fill in the steps WhatsApp skipped
+    for (const step of RECEIPT_ORDER.slice(current + 1, next + 1)) {
+      const field = RECEIPT_TIMESTAMP_FIELDS[step as keyof typeof RECEIPT_TIMESTAMP_FIELDS];
+      item[field] ??= at;
+    }
+    item.status = status;
+
+    this.history.record(item);
+    this.emit('messageStatusChanged', item);
+    logger.info(`Message ${status}: ${item.id}`);
+
+    return item;
+  }
+
+  /**
+   * Record a failed attempt and decide what happens next. Transient failures are retried after
+   * an exponential backoff, and the message fails for good once its failures of one class reach
+   * that class's limit. A dropped connection is not the message's fault: it goes straight back to
+   * pending and the queue parks until WhatsApp reconnects.
+   * @param errorClass - How the failure was judged; see RetryPolicyUtil.classify
    */
-  markAsFailed(messageId: string, error?: string): void {
+  markAsFailed(messageId: string, error?: string, errorClass: SendErrorClass = 'retryable'): void {
     const item = this.queue.find((msg) => msg.id === messageId);
-    if (item) {
-      item.status = 'failed';
-      item.retryCount++;
-
-      if (item.retryCount >= 3) {
-        // Remove permanently failed messages
-        this.queue = this.queue.filter((msg) => msg.id !== messageId);
-        this.processingMessages.delete(messageId); // Remove from processing set
-        this.emit('messageFailed', item);
-        logger.error(`Message permanently failed: ${messageId}`, { error });
-      } else {
-        // Reset to pending for retry
-        item.status = 'pending';
-        this.processingMessages.delete(messageId); // Remove from processing set for retry
-        logger.warn(`Message failed, will retry: ${messageId}`, { retryCount: item.retryCount, error });
-      }
-    } else {
+    if (!item) {
       this.processingMessages.delete(messageId); // Clean up processing set anyway
       logger.warn(`Message ${messageId} not found in queue when marking as failed`);
+      return;
+    }
+
+    item.retryCount++;
+    if (error) {
+      item.error = error;
+    }
+    this.finishAttempt(item, error, errorClass);
+    this.processingMessages.delete(messageId);
+
+    if (errorClass === 'reconnect') {
+      item.status = 'pending';
+      this.persist(item);
+      logger.warn(`Message failed on a dropped connection, will resend after reconnecting: ${messageId}`, {
+        error,
+      });
+      this.park();
+      return;
+    }
+
+    const failures = item.attempts.filter((attempt) => attempt.errorClass === errorClass).length;
+    if (failures >= RetryPolicyUtil.getMaxAttempts(errorClass)) {
+      // Remove permanently failed messages
+      item.status = 'failed';
+      item.completedAt = Date.now();
+      this.queue = this.queue.filter((msg) => msg.id !== messageId);
+      this.history.record(item);
+      this.store.remove(messageId);
+      this.cleanupMediaFile(item);
+      this.emit('messageFailed', item);
+      logger.error(`Message permanently failed: ${messageId}`, { error, errorClass, attempts: failures });
+      return;
+    }
+
+    // Back to pending, held until the backoff has passed
+    const retryAt = Date.now() + RetryPolicyUtil.getBackoff(failures);
+    const attempt = item.attempts[item.attempts.length - 1];
+    if (attempt) {
+      attempt.retryAt = retryAt;
+    }
+    item.status = 'pending';
+    item.sendAt = Math.max(item.sendAt ?? 0, retryAt);
+    this.persist(item);
+    logger.warn(`Message failed, will retry: ${messageId}`, {
+      retryCount: item.retryCount,
+      errorClass,
+      retryAt: new Date(retryAt).toISOString(),
+      error,
+    });
+
+    if (!this.isProcessing) {
+      this.scheduleWakeUp();
+    }
+  }
+
+  /**
+   * Cancel every pending message of a batch; messages already being sent are not affected
+   */
+  cancelBatch(batchId: string): number {
+    const items = this.queue.filter((msg) => msg.batchId === batchId && msg.status === 'pending');
+    for (const item of items) {
+      this.cancelItem(item);
+    }
+
+    if (items.length > 0) {
+      logger.info(`Cancelled ${items.length} pending messages of batch ${batchId}`);
+    }
+    return items.length;
+  }
+
+  /**
+   * Cancel a message that has not started sending
+   * @returns The cancelled message, or null if it is not waiting in the queue
+   */
+  cancelMessage(messageId: string): MessageQueueItem | null {
+    const item = this.queue.find((msg) => msg.id === messageId);
+    if (!item || item.status !== 'pending') return null;
+
+    this.cancelItem(item);
+    logger.info(`Message cancelled: ${messageId}`);
+    return item;
+  }
+
+  /**
+   * Move a message that has not started sending to a new time
+   * @param sendAt - Epoch ms, or undefined to send as soon as possible
+   * @returns The rescheduled message, or null if it is not waiting in the queue
+   */
+  reschedule(messageId: string, sendAt?: number): MessageQueueItem | null {
+    const item = this.queue.find((msg) => msg.id === messageId);
+    if (!item || item.status !== 'pending') return null;
+
+    if (sendAt && sendAt > Date.now()) {
+      item.sendAt = sendAt;
+    } else {
+      delete item.sendAt;
+    }
+    this.persist(item);
+    logger.info(`Message rescheduled: ${messageId}`, { sendAt: item.sendAt });
+
+    if (!this.isProcessing) {
+      this.processQueue();
+      this.scheduleWakeUp();
+    }
+    return item;
+  }
+
+  /**
+   * Send a waiting message before every other due message
+   * @returns The message, or null if it is not waiting in the queue
+   */
+  moveToFront(messageId: string): MessageQueueItem | null {
+    const item = this.queue.find((msg) => msg.id === messageId);
+    if (!item || item.status !== 'pending') return null;
+
+    item.pinnedAt = Date.now();
+    this.queue = [item, ...this.queue.filter((msg) => msg.id !== messageId)];
+    this.persist(item);
+    logger.info(`Message moved to the front: ${messageId}`);
+
+    if (!this.isProcessing) {
+      this.processQueue();
     }
+    return item;
+  }
+
+  /**
+   * List the messages waiting or being sent, roughly in the order they will go:
+   * moved-to-front first, then due before scheduled, heavier lanes and higher priorities first
+   */
+  getItems(): MessageQueueItem[] {
+    const now = Date.now();
+    const dueAt = (msg: MessageQueueItem) => (msg.sendAt && msg.sendAt > now ? msg.sendAt : 0);
+
+    return this.queue
+      .map((msg, index) => ({ msg, index }))
+      .sort(
+        (a, b) =>
+          (b.msg.pinnedAt ?? 0) - (a.msg.pinnedAt ?? 0) ||
+          dueAt(a.msg) - dueAt(b.msg) ||
+          this.getLane(b.msg).weight - this.getLane(a.msg).weight ||
+          (b.msg.priority ?? 0) - (a.msg.priority ?? 0) ||
+          a.index - b.index,
+      )
+      .map(({ msg }) => msg);
   }
 
   /**
-   * Get queue status
+   * Get queue status, including the rate limit budget and when the next message may go
    */
   getStatus(): QueueStatus {
-    return {
-      pending: this.queue.filter((msg) => msg.status === 'pending').length,
+    const now = Date.now();
+    const isScheduled = (msg: MessageQueueItem) => !!msg.sendAt && msg.sendAt > now;
+
+    const lanes: QueueStatus['lanes'] = {};
+    for (const lane of QueueLaneUtil.getLanes()) {
+      lanes[lane.name] = { pending: 0, scheduled: 0 };
+    }
+    for (const msg of this.queue) {
+      const counts = lanes[this.getLane(msg).name];
+      if (msg.status !== 'pending' || !counts) continue;
+      if (isScheduled(msg)) {
+        counts.scheduled++;
+      } else {
+        counts.pending++;
+      }
+    }
+
+    const status: QueueStatus = {
+      pending: this.queue.filter((msg) => msg.status === 'pending' && !isScheduled(msg)).length,
+      scheduled: this.queue.filter((msg) => msg.status === 'pending' && isScheduled(msg)).length,
       processing: this.queue.filter((msg) => msg.status === 'sending').length,
-      completed: 0, // We remove sent messages, so this is always 0
-      failed: 0, // We remove failed messages, so this is always 0
+      completed: RECEIPT_ORDER.reduce(
+        (total, status) => total + this.history.count(status, this.sessionId),
+        0,
+      ),
+      failed: this.history.count('failed', this.sessionId),
+      paused: this.isPaused,
+      parked: this.isParked,
+      lanes,
+      throttle: this.limiter.getStatus(now),
     };
+
+    const nextSendAt = this.getNextSendAt(now);
+    if (nextSendAt !== undefined) {
+      status.nextSendAt = nextSendAt;
+    }
+
+    return status;
+  }
+
+  /**
+   * Get the rate limit budget of this queue's number
+   */
+  getThrottleStatus(): ThrottleStatus {
+    return this.limiter.getStatus();
+  }
+
+  /**
+   * Start the warm-up of a newly linked number
+   */
+  setLinkedAt(linkedAt: number): void {
+    this.limiter.setLinkedAt(linkedAt);
   }
 
   /**
-   * Get a specific message by ID
+   * Get a specific message by ID, falling back to the history for finished messages
    */
   getMessage(messageId: string): MessageQueueItem | undefined {
-    return this.queue.find((msg) => msg.id === messageId);
+    return this.queue.find((msg) => msg.id === messageId) ?? this.history.get(messageId);
+  }
+
+  /**
+   * Get the absolute paths of media files still needed by queued messages
+   */
+  getReferencedMediaPaths(): Set<string> {
+    return new Set(this.getMediaReferenceCounts().keys());
+  }
+
+  /**
+   * Count the queued messages that need each media file, keyed by absolute path
+   */
+  getMediaReferenceCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const item of this.queue) {
+      if (item.media) {
+        const filePath = path.resolve(item.media.path);
+        counts.set(filePath, (counts.get(filePath) ?? 0) + 1);
+      }
+    }
+    return counts;
   }
 
   /**
-   * Clear the queue
+   * Clear the queue, including persisted messages
    */
   clear(): void {
+    for (const item of this.queue) {
+      item.status = 'failed';
+      item.error = 'Queue cleared';
+      item.completedAt = Date.now();
+      this.history.record(item);
+    }
     this.queue = [];
     this.isProcessing = false;
     this.processingMessages.clear(); // Clear processing set
+    this.store.clear();
     if (this.processingTimeout) {
       clearTimeout(this.processingTimeout);
     }
     logger.info('Message queue cleared');
   }
 
+  /**
+   * Remove a pending message from the queue without sending it
+   */
+  private cancelItem(item: MessageQueueItem): void {
+    item.status = 'cancelled';
+    item.completedAt = Date.now();
+    this.queue = this.queue.filter((msg) => msg.id !== item.id);
+    this.history.record(item);
+    this.store.remove(item.id);
+    this.cleanupMediaFile(item);
+    this.emit('messageCancelled', item);
+  }
+
+  /**
+   * Save a queued message to the store and the history
+   */
+  private persist(item: MessageQueueItem): void {
+    this.store.save(item);
+    this.history.record(item);
+  }
+
+  /**
+   * Close the most recent send attempt
+   */
+  private finishAttempt(item: MessageQueueItem, error?: string, errorClass?: SendErrorClass): void {
+    const attempt = item.attempts[item.attempts.length - 1];
+    if (!attempt || attempt.finishedAt) return;
+
+    attempt.finishedAt = Date.now();
+    if (error) {
+      attempt.error = error;
+    }
+    if (errorClass) {
+      attempt.errorClass = errorClass;
+    }
+  }
+
+  /**
+   * Delete a message's media file once the message is finished with it. Template and
+   * media library files are shared by other messages and deleted by their owners.
+   */
+  private async cleanupMediaFile(item: MessageQueueItem): Promise<void> {
+    if (!item.media || item.media.shared) return;
+
+    try {
+      const fs = await import('fs/promises');
+      await fs.unlink(item.media.path);
+      logger.info('Media file cleaned up', { path: item.media.path });
+    } catch (error) {
+      logger.warn('Failed to cleanup media file', { path: item.media.path, error });
+    }
+  }
+
   /**
    * Utility function for delays
    */
@@ -0,0 +1,277 @@
+import { ConnectionStatus, ConnectionTransition, MessageQueueItem } from '../types';
+import { SessionManager } from './SessionManager';
+import { CONNECTION_STATUSES } from './WhatsAppService';
+
+type Labels = Record<string, string>;
+
+// Seconds from a send attempt starting to WhatsApp accepting the message
+const SEND_DURATION_BUCKETS = [0.25, 0.5, 1, 2, 5, 10, 30, 60];
+// Seconds a message waited in the queue before its first attempt
+const QUEUE_WAIT_BUCKETS = [1, 5, 15, 60, 300, 900, 3600, 14400];
+
+export interface SessionReadiness {
+  sessionId: string;
+  status: ConnectionStatus;
+  authenticated: boolean;
+  /** Messages due now */
+  pending: number;
+  /** Messages handed to WhatsApp and not yet acknowledged */
+  sending: number;
+  paused: boolean;
+  /** False when a message has waited longer than the stall timeout with nothing sent or failed */
+  draining: boolean;
+}
+
+export interface Readiness {
+  ready: boolean;
+  /** Why the process is not ready; empty when it is */
+  reasons: string[];
+  sessions: SessionReadiness[];
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, type: 'counter' | 'gauge' | 'histogram', help: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels): void {
+    const key = formatLabels(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, 'counter', this.help);
+    for (const [key, { value }] of this.series) {
+      lines.push(`${this.name}${key} ${value}`);
+    }
+    return lines;
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index]!++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, 'histogram', this.help);
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Watches the events of every session to answer the health, readiness and
+ * Prometheus metrics endpoints. Counters start at zero with the process.
+ */
+export class MonitoringService {
+  private sent = new Counter('wa_messages_sent_total', 'Messages WhatsApp accepted');
+  private failed = new Counter('wa_messages_failed_total', 'Messages that failed for good');
+  private retried = new Counter('wa_message_retries_total', 'Send attempts after the first');
+  private reconnects = new Counter('wa_reconnects_total', 'Times a connection started reconnecting');
+  private sendDuration = new Histogram(
+    'wa_send_duration_seconds',
+    'Time from a send attempt starting to WhatsApp accepting the message',
+    SEND_DURATION_BUCKETS,
+  );
+  private queueWait = new Histogram(
+    'wa_queue_wait_seconds',
+    'Time a message waited in the queue before its first send attempt',
+    QUEUE_WAIT_BUCKETS,
+  );
+  // When each session's connection last opened, while it is open
+  private openSince = new Map<string, number>();
+  // When each session last finished a send, successfully or not
+  private lastProgressAt = new Map<string, number>();
+
+  /**
+   * @param queueStallMs - How long due messages may wait with nothing sent before the queue counts as stuck
+   */
+  constructor(private sessions: SessionManager, private queueStallMs = 5 * 60 * 1000) {
+    sessions.on('messageSending', (sessionId: string, item: MessageQueueItem) => {
+      const attempt = item.attempts[item.attempts.length - 1];
+      if (item.attempts.length > 1) {
+        this.retried.inc({ session: sessionId });
+      } else if (attempt) {
+        const queuedAt = Math.max(item.timestamp, item.sendAt ?? 0);
+        this.queueWait.observe({ session: sessionId }, Math.max(0, attempt.startedAt - queuedAt) / 1000);
+      }
+    });
+
+    sessions.on('messageSent', (sessionId: string, item: MessageQueueItem) => {
+      this.lastProgressAt.set(sessionId, Date.now());
+      this.sent.inc({ session: sessionId });
+      const attempt = item.attempts[item.attempts.length - 1];
+      if (attempt) {
+        const finishedAt = attempt.finishedAt ?? item.completedAt ?? Date.now();
+        this.sendDuration.observe({ session: sessionId }, (finishedAt - attempt.startedAt) / 1000);
+      }
+    });
+
+    sessions.on('messageFailed', (sessionId: string, item: MessageQueueItem) => {
+      this.lastProgressAt.set(sessionId, Date.now());
+      const errorClass = item.attempts[item.attempts.length - 1]?.errorClass ?? 'retryable';
+      this.failed.inc({ session: sessionId, error_class: errorClass });
+    });
+
+    sessions.on('connectionTransition', (sessionId: string, transition: ConnectionTransition) => {
+      if (transition.to === 'open') {
+        this.openSince.set(sessionId, transition.at);
+      } else if (transition.from === 'open') {
+        this.openSince.delete(sessionId);
+      }
+      if (transition.to === 'reconnecting') {
+        this.reconnects.inc({ session: sessionId, reason: transition.reason ?? 'unknown' });
+      }
+    });
+  }
+
+  /**
+   * Ready when at least one session runs, every running session is connected, and no queue is stuck
+   */
+  getReadiness(): Readiness {
+    const now = Date.now();
+    const reasons: string[] = [];
+    const sessions: SessionReadiness[] = [];
+
+    for (const session of this.sessions.list()) {
+      if (!session.isRunning) continue;
+
+      const state = session.whatsapp.getState();
+      const queue = session.queue.getStatus();
+      const lastProgressAt = this.lastProgressAt.get(session.id) ?? 0;
+      const waitingSince = this.getWaitingSince(session.queue.getItems(), queue.nextSendAt);
+      // Something has waited for a while, whether to be sent or acknowledged, and nothing finished since
+      const stuck =
+        !queue.paused &&
+        state.isAuthenticated &&
+        waitingSince !== undefined &&
+        now - waitingSince > this.queueStallMs &&
+        now - lastProgressAt > this.queueStallMs;
+
+      if (!state.isAuthenticated) {
+        reasons.push(`Session ${session.id} is not connected (${state.status})`);
+      }
+      if (stuck) {
+        reasons.push(`Session ${session.id} has messages waiting and has sent nothing recently`);
+      }
+      sessions.push({
+        sessionId: session.id,
+        status: state.status,
+        authenticated: state.isAuthenticated,
+        pending: queue.pending,
+        sending: queue.processing,
+        paused: queue.paused,
+        draining: !stuck,
+      });
+    }
+
+    if (sessions.length === 0) {
+      reasons.push('No WhatsApp session is running');
+    }
+    return { ready: reasons.length === 0, reasons, sessions };
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format
+   */
+  renderMetrics(): string {
+    const now = Date.now();
+    const lines = [
+      ...header('process_uptime_seconds', 'gauge', 'Seconds since the process started'),
+      `process_uptime_seconds ${Math.round(process.uptime())}`,
+      ...header('process_resident_memory_bytes', 'gauge', 'Resident memory size'),
+      `process_resident_memory_bytes ${process.memoryUsage().rss}`,
+      ...this.sent.render(),
+      ...this.failed.render(),
+      ...this.retried.render(),
+      ...this.reconnects.render(),
+      ...this.sendDuration.render(),
+      ...this.queueWait.render(),
+    ];
+
+    const depth = header('wa_queue_messages', 'gauge', 'Messages in the queue by status');
+    const up = header('wa_connection_up', 'gauge', 'Whether the session is connected to WhatsApp');
+    const status = header('wa_connection_status', 'gauge', 'Current connection status of the session');
+    const uptime = header(
+      'wa_connection_uptime_seconds',
+      'gauge',
+      'Seconds the current connection has been open; 0 while disconnected',
+    );
+    for (const session of this.sessions.list()) {
+      const labels = { session: session.id };
+      const queue = session.queue.getStatus();
+      const state = session.whatsapp.getState();
+      const openSince = this.openSince.get(session.id);
+
+      depth.push(`wa_queue_messages${formatLabels({ ...labels, status: 'pending' })} ${queue.pending}`);
+      depth.push(`wa_queue_messages${formatLabels({ ...labels, status: 'scheduled' })} ${queue.scheduled}`);
+      depth.push(`wa_queue_messages${formatLabels({ ...labels, status: 'sending' })} ${queue.processing}`);
+      up.push(`wa_connection_up${formatLabels(labels)} ${state.isAuthenticated ? 1 : 0}`);
+      for (const candidate of CONNECTION_STATUSES) {
+        status.push(
+          `wa_connection_status${formatLabels({ ...labels, status: candidate })} ${
+            state.status === candidate ? 1 : 0
+          }`,
+        );
+      }
+      uptime.push(
+        `wa_connection_uptime_seconds${formatLabels(labels)} ${
+          state.isAuthenticated && openSince ? Math.round((now - openSince) / 1000) : 0
+        }`,
+      );
+    }
+
+    return [...lines, ...depth, ...up, ...status, ...uptime].join('\n') + '\n';
+  }
+
+  /**
+   * Earliest time a message still waiting became due or was handed to WhatsApp
+   * @param nextSendAt - When the first pending message may go, as the queue reports it
+   */
+  private getWaitingSince(items: MessageQueueItem[], nextSendAt?: number): number | undefined {
+    let waitingSince = nextSendAt;
+    for (const item of items) {
+      const startedAt = item.attempts[item.attempts.length - 1]?.startedAt;
+      if (
+        item.status === 'sending' &&
+        startedAt &&
+        (waitingSince === undefined || startedAt < waitingSince)
+      ) {
+        waitingSince = startedAt;
+      }
+    }
+    return waitingSince;
+  }
+}
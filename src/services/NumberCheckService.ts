@@ -0,0 +1,111 @@
+import { NumberCheckRecord } from '../types';
+import { JsonJournal } from '../utils/journal';
+import logger from '../utils/logger';
+import { WhatsAppService } from './WhatsAppService';
+
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+// Numbers sent to WhatsApp in one lookup
+const LOOKUP_CHUNK_SIZE = 50;
+
+/**
+ * Remembers which phone numbers have a WhatsApp account, so sends to landlines
+ * and unregistered numbers can be rejected before they are queued. Answers
+ * are cached for a while because numbers rarely join or leave WhatsApp.
+ */
+export class NumberCheckService {
+  private journal: JsonJournal<NumberCheckRecord>;
+  private pruneTimer: NodeJS.Timeout;
+
+  /**
+   * @param ttlHours - How long an answer is trusted before WhatsApp is asked again
+   */
+  constructor(filePath: string, private ttlHours = 24) {
+    this.journal = new JsonJournal<NumberCheckRecord>(filePath);
+    this.prune();
+    this.pruneTimer = setInterval(() => this.prune(), PRUNE_INTERVAL);
+    this.pruneTimer.unref();
+  }
+
+  /**
+   * Find out which numbers have a WhatsApp account, asking WhatsApp only about numbers not in the cache
+   * @param whatsapp - Connected session used for the lookup
+   * @param phoneNumbers - Numbers in E.164 format
+   * @returns A record per distinct number, and whether it came from the cache
+   */
+  async check(
+    whatsapp: WhatsAppService,
+    phoneNumbers: string[],
+  ): Promise<Map<string, { record: NumberCheckRecord; cached: boolean }>> {
+    const results = new Map<string, { record: NumberCheckRecord; cached: boolean }>();
+    const missing: string[] = [];
+
+    for (const phoneNumber of new Set(phoneNumbers)) {
+      const record = this.getCached(phoneNumber);
+      if (record) {
+        results.set(phoneNumber, { record, cached: true });
+      } else {
+        missing.push(phoneNumber);
+      }
+    }
+
+    for (let start = 0; start < missing.length; start += LOOKUP_CHUNK_SIZE) {
+      const chunk = missing.slice(start, start + LOOKUP_CHUNK_SIZE);
+      const found = await whatsapp.lookupNumbers(chunk);
+      const now = Date.now();
+
+      for (const phoneNumber of chunk) {
+        const jid = found.get(phoneNumber);
+        const record: NumberCheckRecord = {
+          id: phoneNumber,
+          onWhatsApp: !!jid,
+          ...(jid ? { jid } : {}),
+          checkedAt: now,
+          expiresAt: now + this.ttlHours * 60 * 60 * 1000,
+        };
+        this.journal.put(record);
+        results.set(phoneNumber, { record, cached: false });
+      }
+    }
+
+    if (missing.length > 0) {
+      logger.info('Checked numbers on WhatsApp', {
+        checked: missing.length,
+        cached: results.size - missing.length,
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Get a cached answer that has not expired
+   */
+  getCached(phoneNumber: string): NumberCheckRecord | undefined {
+    const record = this.journal.get(phoneNumber);
+    return record && record.expiresAt > Date.now() ? record : undefined;
+  }
+
+  /**
+   * Stop the prune timer
+   */
+  cleanup(): void {
+    clearInterval(this.pruneTimer);
+  }
+
+  /**
+   * Drop expired answers
+   */
+  private prune(): void {
+    const now = Date.now();
+    let pruned = 0;
+    for (const record of this.journal.values()) {
+      if (record.expiresAt <= now) {
+        this.journal.delete(record.id);
+        pruned++;
+      }
+    }
+
+    if (pruned > 0) {
+      logger.info('Pruned expired number checks', { pruned });
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { MessageQueueItem } from '../types';
+import { JsonJournal } from '../utils/journal';
+
+/**
+ * Storage backend for queued messages.
+ * Implementations must persist each change before returning.
+ */
+export interface QueueStore {
+  load(): MessageQueueItem[];
+  save(item: MessageQueueItem): void;
+  remove(messageId: string): void;
+  clear(): void;
+}
+
+/**
+ * Default store backed by an append-only journal file
+ */
+export class FileQueueStore implements QueueStore {
+  private journal: JsonJournal<MessageQueueItem>;
+
+  constructor(filePath: string) {
+    this.journal = new JsonJournal<MessageQueueItem>(filePath);
+  }
+
+  load(): MessageQueueItem[] {
+    return this.journal.values();
+  }
+
+  save(item: MessageQueueItem): void {
+    this.journal.put({ ...item });
+  }
+
+  remove(messageId: string): void {
+    this.journal.delete(messageId);
+  }
+
+  clear(): void {
+    this.journal.clear();
+  }
+}
+
+/**
+ * Non-durable store, useful when persistence is explicitly disabled
+ */
+export class MemoryQueueStore implements QueueStore {
+  private items = new Map<string, MessageQueueItem>();
+
+  load(): MessageQueueItem[] {
+    return Array.from(this.items.values());
+  }
+
+  save(item: MessageQueueItem): void {
+    this.items.set(item.id, { ...item });
+  }
+
+  remove(messageId: string): void {
+    this.items.delete(messageId);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
@@ -0,0 +1,215 @@
+import { ThrottleStatus } from '../types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export interface ThrottlePolicy {
+  /** Shortest random pause between two messages, ms */
+  minDelayMs: number;
+  /** Longest random pause between two messages, ms */
+  maxDelayMs: number;
+  /** Ceilings on messages per rolling minute, hour and day; 0 means unlimited */
+  perMinute: number;
+  perHour: number;
+  perDay: number;
+  /** Messages one recipient may get per recipient window; 0 means unlimited */
+  perRecipient: number;
+  recipientWindowMs: number;
+  /** Days a newly linked number takes to reach the full daily ceiling; 0 disables warm-up */
+  warmUpDays: number;
+  /** Daily ceiling on a new number's first day; it doubles every day of the warm-up */
+  warmUpStartPerDay: number;
+}
+
+/**
+ * Time a full window opens again: when the send that filled it ages out
+ * @param sends - Send times, oldest first
+ * @returns Epoch ms; `now` when the window has room or no limit applies
+ */
+function opensAt(sends: number[], limit: number | null, windowMs: number, now: number): number {
+  if (!limit) return now;
+
+  const inWindow = sends.filter((at) => at > now - windowMs);
+  return inWindow.length < limit ? now : inWindow[inWindow.length - limit]! + windowMs;
+}
+
+function insertSorted(times: number[], at: number): void {
+  let index = times.length;
+  while (index > 0 && times[index - 1]! > at) index--;
+  times.splice(index, 0, at);
+}
+
+/**
+ * Paces the messages of one WhatsApp number. It never fails a message; it only
+ * says when the next one may go, so the queue can hold items until then.
+ */
+export class RateLimiter {
+  // Send start times of the last day, oldest first
+  private sends: number[] = [];
+  private sendsByRecipient = new Map<string, number[]>();
+
+  constructor(private policy: ThrottlePolicy = RateLimiter.loadPolicy(), private linkedAt?: number) {}
+
+  /**
+   * Start warming up from the moment a new login was linked
+   */
+  setLinkedAt(linkedAt: number): void {
+    this.linkedAt = linkedAt;
+  }
+
+  /**
+   * How far back sends still count towards a window, ms
+   */
+  getLookback(): number {
+    return Math.max(DAY, this.policy.recipientWindowMs);
+  }
+
+  /**
+   * Count a send towards every window
+   */
+  record(phoneNumber: string, at = Date.now()): void {
+    insertSorted(this.sends, at);
+
+    const recipientSends = this.sendsByRecipient.get(phoneNumber) ?? [];
+    insertSorted(recipientSends, at);
+    this.sendsByRecipient.set(phoneNumber, recipientSends);
+  }
+
+  /**
+   * Random pause to keep between two messages
+   * @param range - Bounds that replace the policy's, such as a queue lane's own pacing
+   */
+  getDelay(range: { minDelayMs?: number; maxDelayMs?: number } = {}): number {
+    const minDelayMs = range.minDelayMs ?? this.policy.minDelayMs;
+    const maxDelayMs = range.maxDelayMs ?? this.policy.maxDelayMs;
+    return Math.floor(Math.random() * (Math.max(minDelayMs, maxDelayMs) - minDelayMs + 1)) + minDelayMs;
+  }
+
+  /**
+   * Earliest time the next message to anyone fits the minute, hour and day ceilings
+   * @returns Epoch ms; `now` when a message may go right away
+   */
+  getNextSendTime(now = Date.now()): number {
+    this.prune(now);
+    const limits = this.getLimits(now);
+
+    return Math.max(
+      now,
+      opensAt(this.sends, limits.perMinute, MINUTE, now),
+      opensAt(this.sends, limits.perHour, HOUR, now),
+      opensAt(this.sends, limits.perDay, DAY, now),
+    );
+  }
+
+  /**
+   * Earliest time a message to this recipient fits the per-recipient cap
+   * @returns Epoch ms; `now` when the recipient may get a message right away
+   */
+  getNextSendTimeFor(phoneNumber: string, now = Date.now()): number {
+    const { perRecipient, recipientWindowMs } = this.policy;
+    const recipientSends = this.sendsByRecipient.get(phoneNumber) ?? [];
+
+    return Math.max(now, opensAt(recipientSends, perRecipient || null, recipientWindowMs, now));
+  }
+
+  /**
+   * Current ceilings and how much of each is left
+   */
+  getStatus(now = Date.now()): ThrottleStatus {
+    this.prune(now);
+    const limits = this.getLimits(now);
+    const sentWithin = (windowMs: number) => this.sends.filter((at) => at > now - windowMs).length;
+    const remaining = (limit: number | null, windowMs: number) =>
+      limit === null ? null : Math.max(0, limit - sentWithin(windowMs));
+
+    const status: ThrottleStatus = {
+      limits,
+      remaining: {
+        perMinute: remaining(limits.perMinute, MINUTE),
+        perHour: remaining(limits.perHour, HOUR),
+        perDay: remaining(limits.perDay, DAY),
+      },
+    };
+
+    const warmUpDay = this.getWarmUpDay(now);
+    if (warmUpDay !== null) {
+      status.warmUpDay = warmUpDay + 1;
+    }
+
+    return status;
+  }
+
+  /**
+   * Ceilings in force now; the daily one is lowered while a new number warms up
+   */
+  private getLimits(now: number): ThrottleStatus['limits'] {
+    const { perMinute, perHour, perDay, warmUpStartPerDay } = this.policy;
+    const limits = { perMinute: perMinute || null, perHour: perHour || null, perDay: perDay || null };
+
+    const warmUpDay = this.getWarmUpDay(now);
+    if (warmUpDay !== null) {
+      const warmUpLimit = warmUpStartPerDay * 2 ** warmUpDay;
+      limits.perDay = limits.perDay === null ? warmUpLimit : Math.min(limits.perDay, warmUpLimit);
+    }
+
+    return limits;
+  }
+
+  /**
+   * Zero-based day of the warm-up, or null once it is over or when the link date is unknown
+   */
+  private getWarmUpDay(now: number): number | null {
+    if (!this.linkedAt || this.policy.warmUpDays <= 0 || this.policy.warmUpStartPerDay <= 0) return null;
+
+    const day = Math.floor((now - this.linkedAt) / DAY);
+    return day >= 0 && day < this.policy.warmUpDays ? day : null;
+  }
+
+  /**
+   * Forget sends older than the longest window
+   */
+  private prune(now: number): void {
+    const cutoff = now - this.getLookback();
+    const isRecent = (at: number) => at > cutoff;
+
+    this.sends = this.sends.filter(isRecent);
+    for (const [phoneNumber, recipientSends] of this.sendsByRecipient) {
+      const recent = recipientSends.filter(isRecent);
+      if (recent.length > 0) {
+        this.sendsByRecipient.set(phoneNumber, recent);
+      } else {
+        this.sendsByRecipient.delete(phoneNumber);
+      }
+    }
+  }
+
+  /**
+   * Read the policy from the environment
+   *
+   * - THROTTLE_MIN_DELAY_MS / THROTTLE_MAX_DELAY_MS: random pause between messages (default 1000-5000)
+   * - THROTTLE_PER_MINUTE, THROTTLE_PER_HOUR, THROTTLE_PER_DAY: ceilings per number (default unlimited)
+   * - THROTTLE_PER_RECIPIENT: messages per recipient per THROTTLE_RECIPIENT_WINDOW_MINUTES (default
+   *   unlimited per 60 minutes)
+   * - THROTTLE_WARMUP_DAYS: days a newly linked number takes to reach full volume (default 7, 0 disables)
+   * - THROTTLE_WARMUP_START_PER_DAY: messages allowed on a new number's first day (default 50)
+   */
+  static loadPolicy(): ThrottlePolicy {
+    const read = (name: string, fallback: number) => {
+      const value = Number(process.env[name]);
+      return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+    };
+
+    return {
+      minDelayMs: read('THROTTLE_MIN_DELAY_MS', 1000),
+      maxDelayMs: read('THROTTLE_MAX_DELAY_MS', 5000),
+      perMinute: read('THROTTLE_PER_MINUTE', 0),
+      perHour: read('THROTTLE_PER_HOUR', 0),
+      perDay: read('THROTTLE_PER_DAY', 0),
+      perRecipient: read('THROTTLE_PER_RECIPIENT', 0),
+      recipientWindowMs: read('THROTTLE_RECIPIENT_WINDOW_MINUTES', 60) * MINUTE,
+      warmUpDays: read('THROTTLE_WARMUP_DAYS', 7),
+      warmUpStartPerDay: read('THROTTLE_WARMUP_START_PER_DAY', 50),
+    };
+  }
+}
@@ -0,0 +1,455 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import {
+  MessageHistoryPage,
+  MessageQueueItem,
+  QueuedMessagesQuery,
+  QueueStatus,
+  WhatsAppSessionRecord,
+  WhatsAppSessionSummary,
+} from '../types';
+import { ConnectionPolicy, WhatsAppService } from './WhatsAppService';
+import { MessageQueue } from './MessageQueue';
+import { MessageHistory } from './MessageHistory';
+import { QueueStore } from './QueueStore';
+import { RateLimiter, ThrottlePolicy } from './RateLimiter';
+import { JsonJournal } from '../utils/journal';
+import { QueueLaneUtil } from '../utils/queueLanes';
+import logger from '../utils/logger';
+
+/** Session that sends when a request does not name one; it keeps the original single-number auth folder */
+export const DEFAULT_SESSION_ID = 'default';
+
+const SESSION_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+// Events re-emitted by the manager with the session id as the first argument
+const WHATSAPP_EVENTS = ['stateChange', 'connectionTransition', 'qrRequired', 'loggedOut', 'messageReceived'];
+const QUEUE_EVENTS = [
+  'messageQueued',
+  'messageSending',
+  'messageSent',
+  'messageFailed',
+  'messageCancelled',
+  'messageStatusChanged',
+];
+
+export interface SessionManagerOptions {
+  sessionsPath: string;
+  /** Auth folder of the default session */
+  defaultAuthFolder: string;
+  /** Directory holding one auth folder per additional session */
+  authDir: string;
+  inboundMediaDir: string;
+  /** Creates the queue store of a session */
+  createQueueStore: (sessionId: string) => QueueStore;
+  /** Pacing applied to each session's number */
+  throttlePolicy: ThrottlePolicy;
+  /** Reconnect backoff and watchdog timeouts of each connection; read from the environment by default */
+  connectionPolicy?: ConnectionPolicy;
+}
+
+export interface WhatsAppSession extends WhatsAppSessionRecord {
+  whatsapp: WhatsAppService;
+  queue: MessageQueue;
+  isRunning: boolean;
+}
+
+/**
+ * Runs one WhatsApp connection and message queue per named session, so each
+ * department can send from its own number. Events from every session are
+ * re-emitted here with the session id as the first argument.
+ */
+export class SessionManager extends EventEmitter {
+  private journal: JsonJournal<WhatsAppSessionRecord>;
+  private sessions = new Map<string, WhatsAppSession>();
+  private paused = false;
+
+  constructor(private options: SessionManagerOptions, private history: MessageHistory) {
+    super();
+    this.journal = new JsonJournal<WhatsAppSessionRecord>(options.sessionsPath);
+    fs.mkdirSync(options.authDir, { recursive: true });
+  }
+
+  /**
+   * Load the stored sessions and the messages they still had queued
+   * @returns Number of restored messages
+   */
+  restore(): number {
+    const defaultRecord = this.journal.get(DEFAULT_SESSION_ID);
+    if (!defaultRecord) {
+      this.journal.put({ id: DEFAULT_SESSION_ID, name: 'Default', createdAt: Date.now() });
+    }
+    this.paused = defaultRecord?.paused === true;
+
+    let restored = 0;
+    for (const record of this.journal.values()) {
+      if (this.sessions.has(record.id)) continue;
+      restored += this.attach(record).queue.restore();
+    }
+    return restored;
+  }
+
+  /**
+   * List sessions, oldest first
+   */
+  list(): WhatsAppSession[] {
+    return Array.from(this.sessions.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Get a session by ID
+   */
+  get(sessionId: string): WhatsAppSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Describe a session without exposing its services
+   */
+  summarize(session: WhatsAppSession): WhatsAppSessionSummary {
+    return {
+      id: session.id,
+      name: session.name,
+      createdAt: session.createdAt,
+      ...(session.linkedAt ? { linkedAt: session.linkedAt } : {}),
+      isRunning: session.isRunning,
+      state: session.whatsapp.getState(),
+      queue: session.queue.getStatus(),
+    };
+  }
+
+  /**
+   * Register a new session; it is not connected until started
+   */
+  create(id: string, name?: string): { session: WhatsAppSession } | { error: string } {
+    if (!SESSION_ID_PATTERN.test(id)) {
+      return {
+        error:
+          'Session id must be 1-32 lowercase letters, digits, dashes or underscores, starting with a letter or digit',
+      };
+    }
+    if (this.sessions.has(id)) {
+      return { error: `Session ${id} already exists` };
+    }
+
+    const record: WhatsAppSessionRecord = { id, name: name?.trim() || id, createdAt: Date.now() };
+    this.journal.put(record);
+    const session = this.attach(record);
+    logger.info('WhatsApp session created', { sessionId: id });
+    this.emit('sessionsChanged');
+
+    return { session };
+  }
+
+  /**
+   * Connect a session; a session without saved credentials will ask for a QR scan
+   */
+  async start(sessionId: string): Promise<WhatsAppSession | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+    if (session.isRunning) return session;
+
+    session.isRunning = true;
+    try {
+      await session.whatsapp.initialize();
+    } catch (error) {
+      session.isRunning = false;
+      throw error;
+    }
+    logger.info('WhatsApp session started', { sessionId });
+    this.emit('sessionsChanged');
+
+    return session;
+  }
+
+  /**
+   * Start every session, continuing past the ones that fail
+   */
+  async startAll(): Promise<void> {
+    for (const session of this.list()) {
+      try {
+        await this.start(session.id);
+      } catch (error) {
+        logger.error('Failed to start WhatsApp session', { sessionId: session.id, error });
+      }
+    }
+  }
+
+  /**
+   * Drop a session's connection and connect again at once, also after a conflict, logout or
+   * give-up; a stopped session is started
+   */
+  async reconnect(sessionId: string): Promise<WhatsAppSession | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+    if (!session.isRunning) return this.start(sessionId);
+
+    logger.info('WhatsApp session reconnect requested', { sessionId });
+    await session.whatsapp.reconnect();
+    return session;
+  }
+
+  /**
+   * Disconnect a session and pause its queue, keeping its credentials and queued messages
+   */
+  stop(sessionId: string): WhatsAppSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) return undefined;
+
+    session.queue.stop();
+    if (session.isRunning) {
+      session.isRunning = false;
+      session.whatsapp.disconnect();
+    }
+    logger.info('WhatsApp session stopped', { sessionId });
+    this.emit('sessionsChanged');
+
+    return session;
+  }
+
+  /**
+   * Log a session out, fail its queued messages and remove its credentials
+   * @returns False if the session does not exist or is the default session
+   */
+  async delete(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session || sessionId === DEFAULT_SESSION_ID) return false;
+
+    if (session.whatsapp.getState().isAuthenticated) {
+      await session.whatsapp.logout();
+    }
+    this.stop(sessionId);
+    session.queue.clear();
+    session.whatsapp.cleanup();
+    session.whatsapp.removeAllListeners();
+    session.queue.removeAllListeners();
+
+    this.sessions.delete(sessionId);
+    this.journal.delete(sessionId);
+    fs.rmSync(this.getAuthFolder(sessionId), { recursive: true, force: true });
+
+    logger.info('WhatsApp session deleted', { sessionId });
+    this.emit('sessionsChanged');
+    return true;
+  }
+
+  /**
+   * Pause sending in every session, including ones created while paused. The pause is kept on the
+   * default session's record, so it outlasts a restart.
+   */
+  pause(): void {
+    this.paused = true;
+    this.savePaused();
+    for (const session of this.sessions.values()) {
+      session.queue.pause();
+    }
+    this.emit('pausedChange', true);
+  }
+
+  /**
+   * Resume sending in every session
+   */
+  resume(): void {
+    this.paused = false;
+    this.savePaused();
+    for (const session of this.sessions.values()) {
+      session.queue.resume();
+    }
+    this.emit('pausedChange', false);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  private savePaused(): void {
+    const record = this.journal.get(DEFAULT_SESSION_ID);
+    if (record) {
+      this.journal.put({ ...record, paused: this.paused });
+    }
+  }
+
+  /**
+   * List queued messages across sessions, each session's in the order it will send them
+   */
+  listQueued(filter: QueuedMessagesQuery): MessageHistoryPage {
+    const now = Date.now();
+    const sessions = filter.sessionId ? [this.sessions.get(filter.sessionId)] : this.list();
+
+    const matches = sessions
+      .flatMap((session) => session?.queue.getItems() ?? [])
+      .filter((item) => {
+        const isScheduled = item.status === 'pending' && !!item.sendAt && item.sendAt > now;
+        const status = item.status === 'sending' ? 'sending' : isScheduled ? 'scheduled' : 'pending';
+
+        if (filter.status && status !== filter.status) return false;
+        if (filter.lane && (item.lane ?? QueueLaneUtil.getDefaultLane()) !== filter.lane) return false;
+        if (filter.batchId && item.batchId !== filter.batchId) return false;
+        if (filter.phoneNumber && item.phoneNumber !== filter.phoneNumber) return false;
+        return true;
+      });
+
+    const start = (filter.page - 1) * filter.limit;
+
+    return {
+      messages: matches.slice(start, start + filter.limit),
+      total: matches.length,
+      page: filter.page,
+      limit: filter.limit,
+    };
+  }
+
+  /**
+   * Get a message from the queue of the session sending it, falling back to the history
+   */
+  getMessage(messageId: string): MessageQueueItem | undefined {
+    const record = this.history.get(messageId);
+    if (!record) return undefined;
+
+    return this.getQueueFor(record)?.getMessage(messageId) ?? record;
+  }
+
+  /**
+   * Get the queue that owns a message
+   */
+  getQueueFor(message: MessageQueueItem): MessageQueue | undefined {
+    return this.sessions.get(message.sessionId ?? DEFAULT_SESSION_ID)?.queue;
+  }
+
+  /**
+   * Cancel a batch's unsent messages in every session
+   */
+  cancelBatch(batchId: string): number {
+    return this.list().reduce((total, session) => total + session.queue.cancelBatch(batchId), 0);
+  }
+
+  /**
+   * Absolute paths of media files still needed by any session's queued messages
+   */
+  getReferencedMediaPaths(): Set<string> {
+    return new Set(this.getMediaReferenceCounts().keys());
+  }
+
+  /**
+   * Count the queued messages of every session that need each media file, keyed by absolute path
+   */
+  getMediaReferenceCounts(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const session of this.sessions.values()) {
+      session.queue.getMediaReferenceCounts().forEach((count, filePath) => {
+        counts.set(filePath, (counts.get(filePath) ?? 0) + count);
+      });
+    }
+    return counts;
+  }
+
+  /**
+   * Queue counts summed over every session.
+   * Rate limits apply per number, so the total only carries the earliest next send time.
+   */
+  getQueueStatus(): QueueStatus {
+    const total: QueueStatus = {
+      pending: 0,
+      scheduled: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      paused: this.paused,
+      lanes: {},
+    };
+    for (const session of this.sessions.values()) {
+      const status = session.queue.getStatus();
+      total.pending += status.pending;
+      total.scheduled += status.scheduled;
+      total.processing += status.processing;
+      total.completed += status.completed;
+      total.failed += status.failed;
+      for (const [lane, counts] of Object.entries(status.lanes)) {
+        const laneTotal = (total.lanes[lane] ??= { pending: 0, scheduled: 0 });
+        laneTotal.pending += counts.pending;
+        laneTotal.scheduled += counts.scheduled;
+      }
+      if (
+        status.nextSendAt !== undefined &&
+        (total.nextSendAt === undefined || status.nextSendAt < total.nextSendAt)
+      ) {
+        total.nextSendAt = status.nextSendAt;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Stop every session's queue and timers for shutdown
+   */
+  cleanup(): void {
+    for (const session of this.sessions.values()) {
+      session.whatsapp.cleanup();
+      session.queue.stop();
+    }
+  }
+
+  private getAuthFolder(sessionId: string): string {
+    return sessionId === DEFAULT_SESSION_ID
+      ? this.options.defaultAuthFolder
+      : path.join(this.options.authDir, sessionId);
+  }
+
+  /**
+   * Build a session's services and wire its queue to its connection
+   */
+  private attach(record: WhatsAppSessionRecord): WhatsAppSession {
+    const whatsapp = new WhatsAppService(
+      this.getAuthFolder(record.id),
+      this.options.inboundMediaDir,
+      this.options.connectionPolicy,
+    );
+    const queue = new MessageQueue(
+      this.options.createQueueStore(record.id),
+      this.history,
+      record.id,
+      new RateLimiter(this.options.throttlePolicy, record.linkedAt),
+    );
+    const session: WhatsAppSession = { ...record, whatsapp, queue, isRunning: false };
+    if (this.paused) {
+      queue.pause();
+    }
+
+    queue.on('sendMessage', (item: MessageQueueItem) => whatsapp.sendMessage(item));
+    whatsapp.on('messageSent', (messageId, whatsappId) => queue.markAsSent(messageId, whatsappId));
+    whatsapp.on('messageFailed', (messageId, error, errorClass) => {
+      queue.markAsFailed(messageId, error, errorClass);
+      // The connection may already be back by the time a send reports it was down
+      if (errorClass === 'reconnect' && whatsapp.getState().isAuthenticated) {
+        queue.start();
+      }
+    });
+    whatsapp.on('messageStatus', (whatsappId, status, at) => queue.markReceipt(whatsappId, status, at));
+    whatsapp.on('linked', (linkedAt: number) => {
+      // A newly linked number starts its warm-up over
+      session.linkedAt = linkedAt;
+      this.journal.put({ ...(this.journal.get(record.id) ?? record), linkedAt });
+      queue.setLinkedAt(linkedAt);
+      logger.info('WhatsApp session linked a new login', { sessionId: record.id });
+    });
+    whatsapp.on('stateChange', (state) => {
+      // Resume restored messages once WhatsApp is ready to send them, and hold them while it is not
+      if (state.isAuthenticated) {
+        queue.start();
+      } else {
+        queue.park();
+      }
+    });
+
+    for (const event of WHATSAPP_EVENTS) {
+      whatsapp.on(event, (...args) => this.emit(event, record.id, ...args));
+    }
+    for (const event of QUEUE_EVENTS) {
+      queue.on(event, (...args) => this.emit(event, record.id, ...args));
+    }
+
+    this.sessions.set(record.id, session);
+    return session;
+  }
+}
@@ -0,0 +1,336 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  MessageQueueItem,
+  MessageTemplate,
+  MessageTemplateVersion,
+  RenderedTemplate,
+  TemplateLanguage,
+  TemplateVariable,
+  TemplateVariableType,
+} from '../types';
+import { SessionManager } from './SessionManager';
+import { JsonJournal } from '../utils/journal';
+import { TemplateUtil } from '../utils/template';
+import logger from '../utils/logger';
+
+export const TEMPLATE_LANGUAGES: TemplateLanguage[] = ['ar', 'en'];
+
+export const TEMPLATE_VARIABLE_TYPES: TemplateVariableType[] = ['text', 'number', 'date'];
+
+export interface TemplateServiceOptions {
+  templatesPath: string;
+  /** Directory that owns the default media files of templates */
+  mediaDir: string;
+  /** Variant used when a send does not ask for a language (default "ar") */
+  defaultLanguage?: TemplateLanguage;
+}
+
+export interface TemplateInput {
+  name: string;
+  description?: string;
+  content: Partial<Record<TemplateLanguage, string>>;
+  variables: TemplateVariable[];
+  /** Freshly uploaded file; it is moved into the template media directory */
+  media?: NonNullable<MessageQueueItem['media']>;
+}
+
+export interface TemplateUpdate extends Partial<TemplateInput> {
+  removeMedia?: boolean;
+}
+
+export interface RenderOptions {
+  language?: TemplateLanguage;
+  version?: number;
+}
+
+/**
+ * Stores named message templates. Every change adds a version, and older
+ * versions stay renderable so queued and logged messages can be traced back.
+ */
+export class TemplateService {
+  private journal: JsonJournal<MessageTemplate>;
+  private mediaDir: string;
+  private defaultLanguage: TemplateLanguage;
+
+  constructor(options: TemplateServiceOptions, private sessions: SessionManager) {
+    this.journal = new JsonJournal<MessageTemplate>(options.templatesPath);
+    this.mediaDir = options.mediaDir;
+    this.defaultLanguage = options.defaultLanguage ?? 'ar';
+    fs.mkdirSync(this.mediaDir, { recursive: true });
+  }
+
+  /**
+   * List templates, newest first
+   */
+  list(): MessageTemplate[] {
+    return this.journal.values().sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Get a template with all of its versions
+   */
+  get(templateId: string): MessageTemplate | undefined {
+    return this.journal.get(templateId);
+  }
+
+  /**
+   * Create a template at version 1
+   */
+  create(input: TemplateInput): { template: MessageTemplate } | { errors: string[] } {
+    const errors = this.validate(input);
+    if (this.findByName(input.name)) {
+      errors.push(`A template named "${input.name}" already exists`);
+    }
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const now = Date.now();
+    const template: MessageTemplate = {
+      id: uuidv4(),
+      name: input.name.trim(),
+      currentVersion: 1,
+      versions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (input.description) {
+      template.description = input.description;
+    }
+
+    template.versions.push(this.buildVersion(template.id, 1, input, input.media));
+    this.journal.put(template);
+    logger.info('Template created', { templateId: template.id, name: template.name });
+
+    return { template };
+  }
+
+  /**
+   * Add a version; fields that are left out are carried over from the current version
+   */
+  update(
+    templateId: string,
+    update: TemplateUpdate,
+  ): { template: MessageTemplate } | { errors: string[] } | null {
+    const template = this.journal.get(templateId);
+    if (!template) return null;
+
+    const current = this.getVersion(template)!;
+    const input: TemplateInput = {
+      name: update.name ?? template.name,
+      content: update.content ?? current.content,
+      variables: update.variables ?? current.variables,
+    };
+
+    const errors = this.validate(input);
+    const sameName = this.findByName(input.name);
+    if (sameName && sameName.id !== template.id) {
+      errors.push(`A template named "${input.name}" already exists`);
+    }
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const version = template.currentVersion + 1;
+    const media = update.media ?? (update.removeMedia ? undefined : current.media);
+    template.versions.push(this.buildVersion(template.id, version, input, media));
+    template.name = input.name.trim();
+    if (update.description !== undefined) {
+      template.description = update.description;
+    }
+    template.currentVersion = version;
+    template.updatedAt = Date.now();
+
+    this.journal.put(template);
+    logger.info('Template updated', { templateId, version });
+
+    return { template };
+  }
+
+  /**
+   * Delete a template and the media files no queued message still needs
+   */
+  delete(templateId: string): boolean {
+    const template = this.journal.get(templateId);
+    if (!template) return false;
+
+    this.journal.delete(templateId);
+
+    const referencedPaths = this.sessions.getReferencedMediaPaths();
+    for (const version of template.versions) {
+      if (!version.media || referencedPaths.has(path.resolve(version.media.path))) continue;
+
+      fs.unlink(version.media.path, (error) => {
+        if (error && error.code !== 'ENOENT') {
+          logger.warn('Failed to delete template media', { path: version.media!.path, error });
+        }
+      });
+    }
+
+    logger.info('Template deleted', { templateId, name: template.name });
+    return true;
+  }
+
+  /**
+   * Render a template version in one language
+   * @returns The rendered text, the validation errors, or null if the template does not exist
+   */
+  render(
+    templateId: string,
+    values: Record<string, unknown>,
+    options: RenderOptions = {},
+  ): RenderedTemplate | { errors: string[] } | null {
+    const template = this.journal.get(templateId);
+    if (!template) return null;
+
+    const version = this.getVersion(template, options.version);
+    if (!version) {
+      return { errors: [`Template version ${options.version} does not exist`] };
+    }
+
+    // Fall back to the other variant when the requested one was never written
+    const requested = options.language ?? this.defaultLanguage;
+    const language = version.content[requested]
+      ? requested
+      : TEMPLATE_LANGUAGES.find((candidate) => version.content[candidate])!;
+
+    const lookup = new Map<string, unknown>();
+    for (const [key, value] of Object.entries(values)) {
+      lookup.set(key.trim().toLowerCase(), value);
+    }
+
+    const errors: string[] = [];
+    const typedValues: Record<string, string> = {};
+    for (const variable of version.variables) {
+      const value = lookup.get(variable.name.toLowerCase());
+      const text = value === undefined || value === null ? '' : String(value).trim();
+
+      if (!text) {
+        errors.push(`Missing value for {{${variable.name}}}`);
+      } else if (variable.type === 'number' && !Number.isFinite(Number(text))) {
+        errors.push(`{{${variable.name}}} must be a number`);
+      } else if (variable.type === 'date' && Number.isNaN(Date.parse(text))) {
+        errors.push(`{{${variable.name}}} must be a date`);
+      } else {
+        typedValues[variable.name] = text;
+      }
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const rendered: RenderedTemplate = {
+      template: { id: template.id, version: version.version, language },
+      text: TemplateUtil.render(version.content[language]!, typedValues).text,
+    };
+    if (version.media) {
+      rendered.media = { ...version.media, shared: true };
+    }
+
+    return rendered;
+  }
+
+  /**
+   * Get a specific version, or the current one
+   */
+  private getVersion(template: MessageTemplate, version?: number): MessageTemplateVersion | undefined {
+    const wanted = version ?? template.currentVersion;
+    return template.versions.find((candidate) => candidate.version === wanted);
+  }
+
+  private findByName(name: string): MessageTemplate | undefined {
+    const wanted = name.trim().toLowerCase();
+    return this.journal.values().find((template) => template.name.toLowerCase() === wanted);
+  }
+
+  /**
+   * Check a template's name, content and variable declarations
+   */
+  private validate(input: TemplateInput): string[] {
+    const errors: string[] = [];
+
+    if (!input.name || !input.name.trim()) {
+      errors.push('Template name is required');
+    }
+
+    const variants = TEMPLATE_LANGUAGES.filter((language) => input.content[language]?.trim());
+    if (variants.length === 0) {
+      errors.push('Template needs an Arabic or English variant');
+    }
+
+    if (!Array.isArray(input.variables)) {
+      errors.push('variables must be an array');
+      return errors;
+    }
+
+    const declared = new Set<string>();
+    for (const variable of input.variables) {
+      if (!variable || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(variable.name ?? '')) {
+        errors.push(`Invalid variable name: ${variable?.name}`);
+        continue;
+      }
+      if (!TEMPLATE_VARIABLE_TYPES.includes(variable.type)) {
+        errors.push(`Variable ${variable.name} must have a type of ${TEMPLATE_VARIABLE_TYPES.join(', ')}`);
+      }
+      if (declared.has(variable.name.toLowerCase())) {
+        errors.push(`Variable ${variable.name} is declared twice`);
+      }
+      declared.add(variable.name.toLowerCase());
+    }
+
+    for (const language of variants) {
+      const undeclared = TemplateUtil.getPlaceholders(input.content[language]!).filter(
+        (name) => !declared.has(name.toLowerCase()),
+      );
+      if (undeclared.length > 0) {
+        errors.push(`The ${language} variant uses undeclared variables: ${undeclared.join(', ')}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Snapshot a version, moving a newly uploaded media file into the template media directory
+   */
+  private buildVersion(
+    templateId: string,
+    version: number,
+    input: TemplateInput,
+    media?: NonNullable<MessageQueueItem['media']>,
+  ): MessageTemplateVersion {
+    const snapshot: MessageTemplateVersion = {
+      version,
+      content: {},
+      variables: input.variables.map(({ name, type, description }) =>
+        description ? { name, type, description } : { name, type },
+      ),
+      createdAt: Date.now(),
+    };
+
+    for (const language of TEMPLATE_LANGUAGES) {
+      const text = input.content[language]?.trim();
+      if (text) {
+        snapshot.content[language] = text;
+      }
+    }
+
+    if (media && path.resolve(path.dirname(media.path)) !== path.resolve(this.mediaDir)) {
+      const target = path.join(this.mediaDir, `${templateId}-v${version}${path.extname(media.path)}`);
+      fs.copyFileSync(media.path, target);
+      fs.unlinkSync(media.path);
+      snapshot.media = {
+        type: media.type,
+        path: target,
+        ...(media.filename ? { filename: media.filename } : {}),
+      };
+    } else if (media) {
+      snapshot.media = media;
+    }
+
+    return snapshot;
+  }
+}
@@ -0,0 +1,301 @@
+import { createHmac, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { MessageQueueItem, WebhookDelivery, WebhookEventType, WebhookSubscription } from '../types';
+import { JsonJournal } from '../utils/journal';
+import logger from '../utils/logger';
+import { NetworkUtil } from '../utils/network';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'message.queued',
+  'message.sending',
+  'message.sent',
+  'message.delivered',
+  'message.read',
+  'message.played',
+  'message.failed',
+  'message.cancelled',
+  'message.received',
+  'connection.open',
+  'connection.closed',
+  'connection.qr_required',
+  'connection.logged_out',
+];
+
+export interface WebhookServiceOptions {
+  subscriptionsPath: string;
+  deliveriesPath: string;
+  /** Signs callbacks of messages without an API key of their own */
+  callbackSecret?: string;
+  /** Looks up the callback secret of an API key */
+  clientCallbackSecret?: (clientId: string) => string | undefined;
+  maxAttempts?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Delivers signed lifecycle events to subscribed URLs, retrying with backoff
+ * and parking deliveries that keep failing in a dead-letter list
+ */
+export class WebhookService {
+  private subscriptions: JsonJournal<WebhookSubscription>;
+  private deliveries: JsonJournal<WebhookDelivery>;
+  private retryTimers = new Map<string, NodeJS.Timeout>();
+  private callbackSecret: string | undefined;
+  private clientCallbackSecret: ((clientId: string) => string | undefined) | undefined;
+  private maxAttempts: number;
+  private timeoutMs: number;
+  private baseDelay = 5000; // 5 seconds
+  private maxDelay = 60 * 60 * 1000; // 1 hour
+
+  constructor(options: WebhookServiceOptions) {
+    this.subscriptions = new JsonJournal<WebhookSubscription>(options.subscriptionsPath);
+    this.deliveries = new JsonJournal<WebhookDelivery>(options.deliveriesPath);
+    this.callbackSecret = options.callbackSecret;
+    this.clientCallbackSecret = options.clientCallbackSecret;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+
+    // Resume deliveries that were still retrying when the server stopped
+    for (const delivery of this.deliveries.values()) {
+      if (delivery.status === 'pending') {
+        this.schedule(delivery);
+      }
+    }
+  }
+
+  /**
+   * Create a subscription; a secret is generated when none is given
+   */
+  subscribe(url: string, events: WebhookEventType[], secret?: string): WebhookSubscription {
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      url,
+      secret: secret || randomBytes(32).toString('hex'),
+      events,
+      createdAt: Date.now(),
+    };
+
+    this.subscriptions.put(subscription);
+    logger.info('Webhook subscription created', { subscriptionId: subscription.id, url, events });
+    return subscription;
+  }
+
+  /**
+   * Remove a subscription
+   */
+  unsubscribe(subscriptionId: string): boolean {
+    if (!this.subscriptions.get(subscriptionId)) return false;
+
+    this.subscriptions.delete(subscriptionId);
+    logger.info('Webhook subscription removed', { subscriptionId });
+    return true;
+  }
+
+  /**
+   * List subscriptions
+   */
+  listSubscriptions(): WebhookSubscription[] {
+    return this.subscriptions.values();
+  }
+
+  /**
+   * Check whether callbacks of a client's messages can be signed
+   * @param clientId - API key that names the callback URL
+   */
+  canSignCallbacks(clientId?: string): boolean {
+    return !!this.getCallbackSecret(clientId);
+  }
+
+  /**
+   * Queue an event for every matching subscription and the optional per-message callback URL
+   * @param message - Message whose callbackUrl also receives the event, signed for its API key
+   */
+  dispatch(
+    event: WebhookEventType,
+    data: unknown,
+    message?: Pick<MessageQueueItem, 'callbackUrl' | 'clientId'>,
+  ): void {
+    const targets: { url: string; subscriptionId?: string; clientId?: string }[] = this.subscriptions
+      .values()
+      .filter((subscription) => subscription.events.includes(event))
+      .map((subscription) => ({ url: subscription.url, subscriptionId: subscription.id }));
+
+    if (message?.callbackUrl) {
+      targets.push({ url: message.callbackUrl, ...(message.clientId ? { clientId: message.clientId } : {}) });
+    }
+
+    for (const target of targets) {
+      const id = uuidv4();
+      const delivery: WebhookDelivery = {
+        id,
+        url: target.url,
+        event,
+        payload: JSON.stringify({ id, event, timestamp: Date.now(), data }),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+        createdAt: Date.now(),
+      };
+      if (target.subscriptionId) {
+        delivery.subscriptionId = target.subscriptionId;
+      }
+      if (target.clientId) {
+        delivery.clientId = target.clientId;
+      }
+
+      this.deliveries.put(delivery);
+      this.schedule(delivery);
+    }
+  }
+
+  /**
+   * List deliveries that exhausted their retries
+   */
+  listDeadLetters(): WebhookDelivery[] {
+    return this.deliveries.values().filter((delivery) => delivery.status === 'dead');
+  }
+
+  /**
+   * Move a dead delivery back to pending and send it again
+   */
+  replay(deliveryId: string): boolean {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery || delivery.status !== 'dead') return false;
+
+    delivery.status = 'pending';
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = Date.now();
+    this.deliveries.put(delivery);
+    this.schedule(delivery);
+
+    logger.info('Webhook delivery replayed', { deliveryId, url: delivery.url });
+    return true;
+  }
+
+  /**
+   * Drop a dead delivery without replaying it
+   */
+  discard(deliveryId: string): boolean {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery || delivery.status !== 'dead') return false;
+
+    this.deliveries.delete(deliveryId);
+    return true;
+  }
+
+  /**
+   * Cancel pending retry timers
+   */
+  cleanup(): void {
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  /**
+   * Arm a timer for the delivery's next attempt
+   */
+  private schedule(delivery: WebhookDelivery): void {
+    const existing = this.retryTimers.get(delivery.id);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const delay = Math.max(0, delivery.nextAttemptAt - Date.now());
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(delivery.id);
+      this.attempt(delivery.id);
+    }, delay);
+    this.retryTimers.set(delivery.id, timer);
+  }
+
+  /**
+   * Send a delivery once and record the outcome
+   */
+  private async attempt(deliveryId: string): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery || delivery.status !== 'pending') return;
+
+    // The subscription was removed after this delivery was queued
+    if (delivery.subscriptionId && !this.subscriptions.get(delivery.subscriptionId)) {
+      this.deliveries.delete(delivery.id);
+      return;
+    }
+
+    delivery.attempts++;
+
+    try {
+      const secret = delivery.subscriptionId
+        ? this.subscriptions.get(delivery.subscriptionId)?.secret
+        : this.getCallbackSecret(delivery.clientId);
+      if (!secret) {
+        throw new Error('No secret to sign the delivery with');
+      }
+
+      const request = {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Signature':
+            'sha256=' + createHmac('sha256', secret).update(delivery.payload).digest('hex'),
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      };
+
+      let status: number;
+      if (delivery.subscriptionId) {
+        status = (await fetch(delivery.url, request)).status;
+      } else {
+        // Callback URLs come from API clients, so they may not lead to this machine or the local
+        // network; the address is checked as the connection is made, and redirects are not followed
+        const response = await NetworkUtil.requestPublicUrl(delivery.url, request);
+        response.resume();
+        status = response.statusCode ?? 0;
+      }
+
+      if (status < 200 || status >= 300) {
+        throw new Error(`HTTP ${status}`);
+      }
+
+      this.deliveries.delete(delivery.id);
+      logger.info('Webhook delivered', { deliveryId, event: delivery.event, url: delivery.url });
+    } catch (error) {
+      delivery.lastError = error instanceof Error ? error.message : 'Unknown error';
+
+      if (delivery.attempts >= this.maxAttempts) {
+        delivery.status = 'dead';
+        this.deliveries.put(delivery);
+        logger.error('Webhook delivery moved to dead letters', {
+          deliveryId,
+          url: delivery.url,
+          attempts: delivery.attempts,
+          error: delivery.lastError,
+        });
+        return;
+      }
+
+      // Exponential backoff with jitter
+      const backoff = Math.min(this.baseDelay * 2 ** (delivery.attempts - 1), this.maxDelay);
+      delivery.nextAttemptAt = Date.now() + backoff / 2 + Math.random() * (backoff / 2);
+      this.deliveries.put(delivery);
+      this.schedule(delivery);
+
+      logger.warn('Webhook delivery failed, will retry', {
+        deliveryId,
+        url: delivery.url,
+        attempts: delivery.attempts,
+        error: delivery.lastError,
+      });
+    }
+  }
+
+  /**
+   * Resolve the secret that signs callbacks: the client's own, or the shared callback secret for
+   * messages without an API key of their own
+   */
+  private getCallbackSecret(clientId?: string): string | undefined {
+    return (clientId && this.clientCallbackSecret?.(clientId)) || this.callbackSecret;
+  }
+}
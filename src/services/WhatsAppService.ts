@@ -1,148 +1,406 @@
 import {
   default as makeWASocket,
+  AnyMessageContent,
   DisconnectReason,
+  downloadMediaMessage,
+  extractMessageContent,
+  getContentType,
+  GroupMetadata,
+  isJidUser,
+  jidDecode,
   useMultiFileAuthState,
+  WAMessage,
   WASocket,
+  WAUrlInfo,
   proto,
+  toNumber,
 } from '@whiskeysockets/baileys';
-import { Boom } from '@hapi/boom';
+import { isBoom } from '@hapi/boom';
 import QRCode from 'qrcode';
 import { EventEmitter } from 'events';
-import { WhatsAppState, MessageQueueItem } from '../types';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConnectionStatus,
+  ConnectionTransition,
+  DisconnectInfo,
+  WhatsAppState,
+  MessageQueueItem,
+  MessageReceiptStatus,
+  InboundMessage,
+  InboundMessageType,
+  LinkPreview,
+  MessageContent,
+  MessageKeyRef,
+  GroupParticipantUpdate,
+  PairingCode,
+  WhatsAppGroup,
+} from '../types';
 import logger from '../utils/logger';
+import { MediaUtil } from '../utils/media';
 import { PhoneNumberUtil } from '../utils/phoneNumber';
+import { RetryPolicyUtil } from '../utils/retryPolicy';
+
+export interface ConnectionPolicy {
+  /** Pause before the first reconnect attempt, ms; it doubles with every failed attempt */
+  reconnectBaseDelayMs: number;
+  /** Longest pause between two reconnect attempts, ms */
+  reconnectMaxDelayMs: number;
+  /** Failed attempts in a row before giving up; 0 keeps trying */
+  maxReconnectAttempts: number;
+  /** An open socket that receives nothing for this long is considered stalled, ms */
+  stallTimeoutMs: number;
+  /** A connect that neither opens nor shows a QR code within this long is restarted, ms */
+  connectTimeoutMs: number;
+}
+
+// The statuses each connection status may move to
+const CONNECTION_TRANSITIONS: Record<ConnectionStatus, ConnectionStatus[]> = {
+  stopped: ['connecting'],
+  connecting: ['qr-pending', 'open', 'reconnecting', 'conflict', 'logged-out', 'gave-up', 'stopped'],
+  'qr-pending': ['open', 'reconnecting', 'logged-out', 'gave-up', 'stopped'],
+  open: ['reconnecting', 'conflict', 'logged-out', 'gave-up', 'stopped'],
+  reconnecting: ['connecting', 'gave-up', 'stopped'],
+  conflict: ['reconnecting', 'stopped'],
+  'logged-out': ['reconnecting', 'stopped'],
+  'gave-up': ['reconnecting', 'stopped'],
+};
+
+export const CONNECTION_STATUSES = Object.keys(CONNECTION_TRANSITIONS) as ConnectionStatus[];
+
+// Socket events we listen to, removed when the socket is replaced
+const SOCKET_EVENTS = [
+  'connection.update',
+  'creds.update',
+  'messages.upsert',
+  'messages.update',
+  'message-receipt.update',
+] as const;
+
+// How often the watchdog checks the connection
+const WATCHDOG_INTERVAL = 10 * 1000;
+
+// How long a pairing code is shown; it also stops working when its socket closes
+const PAIRING_CODE_TTL = 2 * 60 * 1000;
+
+// Statuses of our own messages as reported in messages.update
+const RECEIPT_STATUSES: Record<number, MessageReceiptStatus> = {
+  [proto.WebMessageInfo.Status.SERVER_ACK]: 'server_ack',
+  [proto.WebMessageInfo.Status.DELIVERY_ACK]: 'delivered',
+  [proto.WebMessageInfo.Status.READ]: 'read',
+  [proto.WebMessageInfo.Status.PLAYED]: 'played',
+};
+
+interface InboundContent {
+  type: InboundMessageType;
+  text?: string;
+  mimetype?: string;
+  filename?: string;
+  location?: NonNullable<InboundMessage['location']>;
+  quotedWhatsAppId?: string;
+}
+
+/**
+ * Read why a connection closed from the error Baileys closed it with
+ */
+function describeDisconnect(error: Error | undefined): Omit<DisconnectInfo, 'at'> {
+  const boom = isBoom(error) ? error : undefined;
+  const code = boom?.output.statusCode;
+  // Another session took over the number
+  const isConflict =
+    code === DisconnectReason.connectionReplaced ||
+    error?.message?.includes('conflict') ||
+    error?.message?.includes('replaced') ||
+    boom?.output.payload.error === 'conflict' ||
+    JSON.stringify(error ?? null).includes('conflict');
+
+  return {
+    reason: isConflict ? 'conflict' : (code !== undefined && DisconnectReason[code]) || 'unknown',
+    ...(code !== undefined ? { code } : {}),
+    ...(error?.message ? { message: error.message } : {}),
+  };
+}
+
+function toWhatsAppGroup(group: GroupMetadata): WhatsAppGroup {
+  const owner = group.owner && jidDecode(group.owner)?.user;
+  return {
+    id: group.id,
+    subject: group.subject,
+    participants: group.size ?? group.participants.length,
+    ...(owner ? { owner: '+' + owner } : {}),
+    ...(group.creation ? { createdAt: group.creation * 1000 } : {}),
+    ...(group.announce ? { announce: true } : {}),
+  };
+}
+
+function toUserJids(phoneNumbers: string[]): string[] {
+  return phoneNumbers
+    .map((phoneNumber) => PhoneNumberUtil.formatForWhatsApp(phoneNumber))
+    .filter((jid): jid is string => !!jid);
+}
+
+function toContentMessage(content: MessageContent, jid: string): AnyMessageContent {
+  switch (content.type) {
+    case 'location':
+      return {
+        location: {
+          degreesLatitude: content.latitude,
+          degreesLongitude: content.longitude,
+          ...(content.name ? { name: content.name } : {}),
+          ...(content.address ? { address: content.address } : {}),
+        },
+      };
+    case 'contact':
+      return { contacts: { displayName: content.name, contacts: [{ vcard: toVCard(content) }] } };
+    case 'reaction':
+      return { react: { text: content.emoji, key: toMessageKey(content.target, jid) } };
+    case 'poll':
+      return {
+        poll: { name: content.question, values: content.options, selectableCount: content.selectableCount },
+      };
+  }
+}
+
+function toVCard(contact: Extract<MessageContent, { type: 'contact' }>): string {
+  // Commas, semicolons and backslashes separate vCard values, so they are escaped in free text
+  const escape = (value: string) => value.replace(/[\\,;]/g, (char) => `\\${char}`).replace(/\n/g, '\\n');
+  const digits = contact.phoneNumber.replace(/\D/g, '');
+
+  return [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escape(contact.name)}`,
+    ...(contact.organization ? [`ORG:${escape(contact.organization)}`] : []),
+    `TEL;type=CELL;type=VOICE;waid=${digits}:${contact.phoneNumber}`,
+    ...(contact.email ? [`EMAIL:${escape(contact.email)}`] : []),
+    'END:VCARD',
+  ].join('\n');
+}
+
+function toMessageKey(ref: MessageKeyRef, jid: string): proto.IMessageKey {
+  return { remoteJid: jid, fromMe: ref.fromMe, id: ref.whatsappId };
+}
+
+function toQuotedMessage(ref: MessageKeyRef, jid: string): WAMessage {
+  return { key: toMessageKey(ref, jid), message: { conversation: ref.text ?? '' } };
+}
+
+// Baileys needs link-preview-js to build previews itself, so previews are passed in; null turns them off
+function toUrlInfo(preview: LinkPreview | false): WAUrlInfo | null {
+  if (!preview) return null;
+  return {
+    'canonical-url': preview.url,
+    'matched-text': preview.url,
+    title: preview.title,
+    ...(preview.description ? { description: preview.description } : {}),
+  };
+}
 
 export class WhatsAppService extends EventEmitter {
   private sock?: WASocket;
   private state: WhatsAppState = {
+    status: 'stopped',
     isConnected: false,
     isAuthenticated: false,
     lastActivity: Date.now(),
+    reconnectAttempts: 0,
   };
   private qrCodeTimeout?: NodeJS.Timeout;
+  private pairingCodeTimeout?: NodeJS.Timeout;
   private reconnectTimeout?: NodeJS.Timeout;
-  private authFolder = './auth_info_baileys';
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 10;
+  private watchdogTimer?: NodeJS.Timeout;
+  // When the current status began, and when the socket last received anything
+  private statusSince = Date.now();
+  private lastFrameAt = 0;
+  // Bumped by every connect, so a connect overtaken by a newer one drops its socket
+  private connectGeneration = 0;
   private processingMessages = new Set<string>(); // Track messages currently being processed
 
-  constructor() {
+  constructor(
+    private authFolder = './auth_info_baileys',
+    private inboundMediaDir = path.join('data', 'inbound-media'),
+    private policy: ConnectionPolicy = WhatsAppService.loadConnectionPolicy(),
+  ) {
     super();
+    fs.mkdirSync(this.inboundMediaDir, { recursive: true });
   }
 
   /**
-   * Initialize WhatsApp connection
+   * Initialize WhatsApp connection; on a running connection this reconnects, replacing the socket
    */
   async initialize(): Promise<void> {
+    if (this.state.status !== 'stopped') {
+      return this.reconnect('reinitialized');
+    }
+
     try {
-      logger.info('Initializing WhatsApp connection...');
-
-      const { state, saveCreds } = await useMultiFileAuthState(this.authFolder);
-
-      // Create a custom logger wrapper for Baileys to prevent [object Object] logs
-      const baileysLogger = {
-        level: 'info',
-        trace: (...args: any[]) => {
-          const message = args
-            .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
-            .join(' ');
-          (logger as any).trace(message);
-        },
-        debug: (...args: any[]) => {
-          const message = args
-            .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
-            .join(' ');
-          logger.debug(message);
-        },
-        info: (...args: any[]) => {
-          const message = args
-            .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
-            .join(' ');
-          logger.info(message);
-        },
-        warn: (...args: any[]) => {
-          const message = args
-            .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
-            .join(' ');
-          logger.warn(message);
-        },
-        error: (...args: any[]) => {
-          const message = args
-            .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
-            .join(' ');
-          logger.error(message);
-        },
-        fatal: (...args: any[]) => {
-          const message = args
-            .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
-            .join(' ');
-          logger.error(message);
-        },
-        child: () => baileysLogger, // Return the same logger instance
-      };
+      await this.connect();
+    } catch (error) {
+      logger.error('Failed to initialize WhatsApp', { error });
+      this.teardownSocket();
+      this.stopWatchdog();
+      this.transition('stopped', 'initializeFailed');
+      throw error;
+    }
+  }
 
-      this.sock = makeWASocket({
-        auth: state,
-        printQRInTerminal: false,
-        logger: baileysLogger,
-      });
+  /**
+   * Drop the current socket and connect again at once. This also recovers from a conflict, a
+   * logout or a give-up; a stopped connection is initialized instead.
+   */
+  async reconnect(reason = 'reconnectRequested'): Promise<void> {
+    if (this.state.status === 'stopped') {
+      return this.initialize();
+    }
 
-      this.sock.ev.on('connection.update', async (update) => {
-        const { connection, lastDisconnect, qr } = update;
+    this.clearReconnect();
+    this.teardownSocket();
+    this.state.reconnectAttempts = 0;
+    this.state.lastDisconnect = { reason, at: Date.now() };
+    this.transition('reconnecting', reason);
 
-        if (qr) {
-          await this.handleQRCode(qr);
-        }
+    try {
+      await this.connect();
+    } catch (error) {
+      logger.error('Reconnection failed', { error });
+      this.teardownSocket();
+      this.handleDisconnect(describeDisconnect(error as Error));
+    }
+  }
 
-        if (connection === 'open') {
-          this.state.isConnected = true;
-          this.state.isAuthenticated = true;
-          this.state.lastActivity = Date.now();
-          this.reconnectAttempts = 0; // Reset reconnect attempts on successful connection
-          this.emit('stateChange', this.state);
-
-          logger.info('WhatsApp connected successfully');
-        } else if (connection === 'close') {
-          const shouldReconnect =
-            (lastDisconnect?.error as Boom)?.output?.statusCode !== DisconnectReason.loggedOut;
-
-          this.state.isConnected = false;
-          this.state.isAuthenticated = false;
-          this.emit('stateChange', this.state);
-
-          // Check if it's a conflict error (another session is using the same number)
-          const isConflict =
-            lastDisconnect?.error?.message?.includes('conflict') ||
-            lastDisconnect?.error?.message?.includes('replaced') ||
-            (lastDisconnect?.error as any)?.output?.payload?.error === 'conflict' ||
-            JSON.stringify(lastDisconnect?.error).includes('conflict');
-
-          if (isConflict) {
-            logger.warn('WhatsApp session conflict detected - another session is using this number');
-            // Don't reconnect on conflict, let user handle it manually
-            return;
-          }
+  /**
+   * Open a new socket, closing the previous one first so its listeners never fire again
+   */
+  private async connect(): Promise<void> {
+    const generation = ++this.connectGeneration;
+    this.teardownSocket();
+    this.transition('connecting');
+    this.startWatchdog();
 
-          logger.info('Connection closed', { shouldReconnect });
+    logger.info('Initializing WhatsApp connection...', { authFolder: this.authFolder });
+    const { state, saveCreds } = await useMultiFileAuthState(this.authFolder);
+    // Stopped, or connected again, while the credentials loaded
+    if (generation !== this.connectGeneration || this.state.status !== 'connecting') return;
 
-          if (shouldReconnect && this.reconnectAttempts < this.maxReconnectAttempts) {
-            this.scheduleReconnect();
-          } else if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-            logger.warn('Max reconnection attempts reached, stopping reconnection attempts');
-          }
+    // Create a custom logger wrapper for Baileys to prevent [object Object] logs
+    const baileysLogger = {
+      level: 'info',
+      trace: (...args: any[]) => {
+        const message = args
+          .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
+          .join(' ');
+        (logger as any).trace(message);
+      },
+      debug: (...args: any[]) => {
+        const message = args
+          .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
+          .join(' ');
+        logger.debug(message);
+      },
+      info: (...args: any[]) => {
+        const message = args
+          .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
+          .join(' ');
+        logger.info(message);
+      },
+      warn: (...args: any[]) => {
+        const message = args
+          .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
+          .join(' ');
+        logger.warn(message);
+      },
+      error: (...args: any[]) => {
+        const message = args
+          .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
+          .join(' ');
+        logger.error(message);
+      },
+      fatal: (...args: any[]) => {
+        const message = args
+          .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
+          .join(' ');
+        logger.error(message);
+      },
+      child: () => baileysLogger, // Return the same logger instance
+    };
+
+    const sock = makeWASocket({
+      auth: state,
+      printQRInTerminal: false,
+      logger: baileysLogger,
+    });
+    this.sock = sock;
+    this.lastFrameAt = Date.now();
+
+    // Every frame WhatsApp sends, keep-alive answers included, shows the socket is alive
+    sock.ws.on('frame', () => {
+      if (sock === this.sock) {
+        this.lastFrameAt = Date.now();
+      }
+    });
+
+    sock.ev.on('connection.update', async (update) => {
+      // A replaced socket may still report its own closing
+      if (sock !== this.sock) return;
+      const { connection, lastDisconnect, qr, isNewLogin } = update;
+
+      if (qr) {
+        await this.handleQRCode(qr);
+      }
+
+      // A QR scan or pairing code linked this number, as opposed to reusing saved credentials
+      if (isNewLogin) {
+        this.emit('linked', Date.now());
+      }
+
+      if (connection === 'open') {
+        this.state.reconnectAttempts = 0; // Reset reconnect attempts on successful connection
+        this.transition('open');
+        logger.info('WhatsApp connected successfully');
+      } else if (connection === 'close') {
+        delete this.sock;
+        this.handleDisconnect(describeDisconnect(lastDisconnect?.error));
+      }
+    });
+
+    sock.ev.on('creds.update', saveCreds);
+
+    sock.ev.on('messages.upsert', async ({ messages, type }) => {
+      // 'append' carries history synced from the phone, not new customer messages
+      if (type !== 'notify') return;
+
+      for (const message of messages) {
+        await this.handleIncomingMessage(message);
+      }
+    });
+
+    // Delivery and read receipts for messages we sent
+    sock.ev.on('messages.update', (updates) => {
+      for (const { key, update } of updates) {
+        if (!key.fromMe || !key.id || typeof update.status !== 'number') continue;
+
+        const status = RECEIPT_STATUSES[update.status];
+        if (status) {
+          this.emit('messageStatus', key.id, status, Date.now());
         }
-      });
+      }
+    });
 
-      this.sock.ev.on('creds.update', saveCreds);
+    sock.ev.on('message-receipt.update', (updates) => {
+      for (const { key, receipt } of updates) {
+        if (!key.fromMe || !key.id) continue;
 
-      // Listen for message queue events
-      this.on('sendMessage', async (item: MessageQueueItem) => {
-        await this.sendMessage(item);
-      });
-    } catch (error) {
-      logger.error('Failed to initialize WhatsApp', { error });
-      throw error;
-    }
+        if (receipt.playedTimestamp) {
+          this.emit('messageStatus', key.id, 'played', toNumber(receipt.playedTimestamp) * 1000);
+        } else if (receipt.readTimestamp) {
+          this.emit('messageStatus', key.id, 'read', toNumber(receipt.readTimestamp) * 1000);
+        } else if (receipt.receiptTimestamp) {
+          this.emit('messageStatus', key.id, 'delivered', toNumber(receipt.receiptTimestamp) * 1000);
+        }
+      }
+    });
   }
 
   /**
@@ -157,12 +415,13 @@ export class WhatsAppService extends EventEmitter {
 
       // Generate QR code as data URL
       const qrCodeDataUrl = await QRCode.toDataURL(qr);
+      this.transition('qr-pending');
       this.state.qrCode = qrCodeDataUrl;
       this.state.lastActivity = Date.now();
 
       this.emit('stateChange', this.state);
+      this.emit('qrRequired');
       logger.info('QR Code generated');
-      console.log(qrCodeDataUrl);
 
       // Set timeout to clear QR code after 2 minutes
       this.qrCodeTimeout = setTimeout(() => {
@@ -175,12 +434,47 @@ export class WhatsAppService extends EventEmitter {
     }
   }
 
+  /**
+   * Link the number by typing a code on the phone instead of scanning the QR code. The phone shows
+   * a notification; the code goes under Linked devices > Link with phone number instead.
+   * Only possible while the connection waits for a QR scan.
+   * @param phoneNumber - The number being linked, in E.164 format
+   */
+  async requestPairingCode(phoneNumber: string): Promise<PairingCode> {
+    if (this.state.status !== 'qr-pending' || !this.sock) {
+      throw new Error(`A pairing code needs a connection waiting for a QR scan; it is ${this.state.status}`);
+    }
+
+    const sock = this.sock;
+    const code = await sock.requestPairingCode(phoneNumber.replace(/^\+/, ''));
+    // Closed while WhatsApp answered, so the code is already useless
+    if (sock !== this.sock || this.state.status !== 'qr-pending') {
+      throw new Error('The connection closed before WhatsApp issued a pairing code');
+    }
+
+    if (this.pairingCodeTimeout) {
+      clearTimeout(this.pairingCodeTimeout);
+    }
+    const pairingCode: PairingCode = { code, phoneNumber, expiresAt: Date.now() + PAIRING_CODE_TTL };
+    this.state.pairingCode = pairingCode;
+    this.state.lastActivity = Date.now();
+    this.emit('stateChange', this.state);
+    logger.info('Pairing code requested', { authFolder: this.authFolder, phoneNumber });
+
+    this.pairingCodeTimeout = setTimeout(() => {
+      delete this.state.pairingCode;
+      this.emit('stateChange', this.state);
+      logger.info('Pairing code expired', { authFolder: this.authFolder });
+    }, PAIRING_CODE_TTL);
+    return pairingCode;
+  }
+
   /**
    * Send a message
    */
   async sendMessage(item: MessageQueueItem): Promise<void> {
     if (!this.sock || !this.state.isAuthenticated) {
-      this.emit('messageFailed', item.id, 'WhatsApp not connected');
+      this.emit('messageFailed', item.id, 'WhatsApp not connected', 'reconnect');
       return;
     }
 
@@ -196,14 +490,16 @@ export class WhatsAppService extends EventEmitter {
     try {
       const whatsappNumber = PhoneNumberUtil.formatForWhatsApp(item.phoneNumber);
       if (!whatsappNumber) {
-        this.emit('messageFailed', item.id, 'Invalid phone number');
+        this.emit('messageFailed', item.id, 'Invalid phone number', 'permanent');
         return;
       }
 
       let messageOptions: any = {};
 
-      // Handle media if present
-      if (item.media) {
+      // Locations, contacts, reactions and polls replace text and media
+      if (item.content) {
+        messageOptions = toContentMessage(item.content, whatsappNumber);
+      } else if (item.media) {
         const mediaMessage = await this.prepareMediaMessage(item.media);
         if (mediaMessage) {
           messageOptions = mediaMessage;
@@ -216,21 +512,23 @@ export class WhatsAppService extends EventEmitter {
         // If no media, just send text message
         if (item.message) {
           messageOptions.text = item.message;
+          if (item.linkPreview !== undefined) {
+            messageOptions.linkPreview = toUrlInfo(item.linkPreview);
+          }
         }
       }
 
-      // Send the message
-      const result = await this.sock.sendMessage(whatsappNumber, messageOptions);
+      // Send the message with a key derived from the queue id, so a re-send after a restart
+      // carries the same WhatsApp message id
+      const result = await this.sock.sendMessage(whatsappNumber, messageOptions, {
+        messageId: WhatsAppService.toWhatsAppMessageId(item.id),
+        ...(item.replyTo ? { quoted: toQuotedMessage(item.replyTo, whatsappNumber) } : {}),
+      });
 
       if (result && result.key) {
         this.state.lastActivity = Date.now();
         this.emit('messageSent', item.id, result.key.id);
 
-        // Clean up media file after successful send
-        if (item.media) {
-          this.cleanupMediaFile(item.media.path);
-        }
-
         logger.info('Message sent successfully', {
           messageId: item.id,
           phoneNumber: item.phoneNumber,
@@ -245,18 +543,211 @@ export class WhatsAppService extends EventEmitter {
     } catch (error) {
       logger.error('Failed to send message', { error, messageId: item.id });
 
-      // Clean up media file even if send failed
-      if (item.media) {
-        this.cleanupMediaFile(item.media.path);
-      }
-
-      this.emit('messageFailed', item.id, error instanceof Error ? error.message : 'Unknown error');
+      this.emit(
+        'messageFailed',
+        item.id,
+        error instanceof Error ? error.message : 'Unknown error',
+        RetryPolicyUtil.classify(error),
+      );
     } finally {
       // Always remove from processing set
       this.processingMessages.delete(item.id);
     }
   }
 
+  /**
+   * Ask WhatsApp which numbers have an account
+   * @param phoneNumbers - Numbers in E.164 format
+   * @returns The WhatsApp id of each number that has an account; numbers without one are absent
+   */
+  async lookupNumbers(phoneNumbers: string[]): Promise<Map<string, string>> {
+    const results = (await this.requireSocket().onWhatsApp(...toUserJids(phoneNumbers))) ?? [];
+
+    const found = new Map<string, string>();
+    for (const result of results) {
+      const user = jidDecode(result.jid)?.user;
+      if (result.exists && user) {
+        found.set('+' + user, result.jid);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * List the groups the linked account belongs to
+   */
+  async listGroups(): Promise<WhatsAppGroup[]> {
+    const groups = await this.requireSocket().groupFetchAllParticipating();
+    return Object.values(groups)
+      .map((group) => toWhatsAppGroup(group))
+      .sort((a, b) => a.subject.localeCompare(b.subject));
+  }
+
+  /**
+   * Create a group with the linked account as its admin
+   * @param phoneNumbers - Initial members in E.164 format
+   */
+  async createGroup(subject: string, phoneNumbers: string[]): Promise<WhatsAppGroup> {
+    const group = await this.requireSocket().groupCreate(subject, toUserJids(phoneNumbers));
+    logger.info('WhatsApp group created', { groupJid: group.id, participants: phoneNumbers.length });
+    return toWhatsAppGroup(group);
+  }
+
+  /**
+   * Add members to a group or remove them; the linked account must be a group admin
+   * @param phoneNumbers - Members in E.164 format
+   */
+  async updateGroupParticipants(
+    groupJid: string,
+    phoneNumbers: string[],
+    action: 'add' | 'remove',
+  ): Promise<GroupParticipantUpdate[]> {
+    const results = await this.requireSocket().groupParticipantsUpdate(
+      groupJid,
+      toUserJids(phoneNumbers),
+      action,
+    );
+    logger.info('WhatsApp group participants updated', { groupJid, action, count: phoneNumbers.length });
+    return results.map((result) => ({
+      phoneNumber: '+' + (jidDecode(result.jid)?.user ?? result.jid),
+      status: result.status,
+    }));
+  }
+
+  /**
+   * Get the link that lets anyone join a group; the linked account must be a group admin
+   */
+  async getGroupInviteLink(groupJid: string): Promise<string> {
+    const code = await this.requireSocket().groupInviteCode(groupJid);
+    if (!code) {
+      throw new Error('WhatsApp returned no invite code');
+    }
+    return `https://chat.whatsapp.com/${code}`;
+  }
+
+  private requireSocket(): WASocket {
+    if (!this.sock || !this.state.isAuthenticated) {
+      throw new Error('WhatsApp not connected');
+    }
+    return this.sock;
+  }
+
+  /**
+   * Normalize a customer's message, save its media and emit it as messageReceived
+   */
+  private async handleIncomingMessage(message: WAMessage): Promise<void> {
+    const jid = message.key.remoteJid;
+    // Only one-to-one chats with phone numbers; groups, broadcasts and our own messages are ignored
+    if (message.key.fromMe || !jid || !isJidUser(jid) || !message.key.id) return;
+
+    const content = extractMessageContent(message.message);
+    const contentType = getContentType(content);
+    if (!content || !contentType) return;
+
+    const inbound = this.normalizeInboundContent(content, contentType);
+    if (!inbound) return;
+
+    const inboundMessage: InboundMessage = {
+      id: uuidv4(),
+      whatsappId: message.key.id,
+      phoneNumber: '+' + jidDecode(jid)!.user,
+      type: inbound.type,
+      timestamp: Number(message.messageTimestamp || 0) * 1000 || Date.now(),
+      receivedAt: Date.now(),
+    };
+    if (message.pushName) {
+      inboundMessage.pushName = message.pushName;
+    }
+    if (inbound.text) {
+      inboundMessage.text = inbound.text;
+    }
+    if (inbound.location) {
+      inboundMessage.location = inbound.location;
+    }
+    if (inbound.quotedWhatsAppId) {
+      inboundMessage.quotedWhatsAppId = inbound.quotedWhatsAppId;
+    }
+
+    if (inbound.mimetype) {
+      try {
+        const buffer = await downloadMediaMessage(message, 'buffer', {});
+        const extension = path.extname(inbound.filename || '') || MediaUtil.getExtension(inbound.mimetype);
+        const mediaPath = path.join(this.inboundMediaDir, `${inboundMessage.id}${extension}`);
+        await fs.promises.writeFile(mediaPath, buffer);
+
+        inboundMessage.media = { path: mediaPath, mimetype: inbound.mimetype, size: buffer.length };
+        if (inbound.filename) {
+          inboundMessage.media.filename = inbound.filename;
+        }
+      } catch (error) {
+        logger.warn('Failed to download inbound media', { whatsappId: message.key.id, error });
+      }
+    }
+
+    this.state.lastActivity = Date.now();
+    this.emit('messageReceived', inboundMessage);
+  }
+
+  /**
+   * Map the Baileys message content types we handle to an inbound message
+   */
+  private normalizeInboundContent(
+    content: proto.IMessage,
+    contentType: keyof proto.IMessage,
+  ): InboundContent | null {
+    // Every message type that can quote another carries the quoted id in its contextInfo
+    const inner = content[contentType] as { contextInfo?: proto.IContextInfo | null } | null | undefined;
+    const result: InboundContent = { type: 'text' };
+    if (inner?.contextInfo?.stanzaId) {
+      result.quotedWhatsAppId = inner.contextInfo.stanzaId;
+    }
+
+    switch (contentType) {
+      case 'conversation':
+        result.text = content.conversation || '';
+        return result;
+      case 'extendedTextMessage':
+        result.text = content.extendedTextMessage?.text || '';
+        return result;
+      case 'imageMessage':
+      case 'videoMessage':
+      case 'audioMessage':
+      case 'documentMessage':
+      case 'stickerMessage': {
+        const media = content[contentType] as proto.Message.IDocumentMessage;
+        result.type = contentType.replace('Message', '') as InboundMessageType;
+        result.mimetype = media.mimetype || 'application/octet-stream';
+        if (media.caption) result.text = media.caption;
+        if (media.fileName) result.filename = media.fileName;
+        return result;
+      }
+      case 'locationMessage': {
+        const location = content.locationMessage!;
+        result.type = 'location';
+        result.location = {
+          latitude: location.degreesLatitude ?? 0,
+          longitude: location.degreesLongitude ?? 0,
+        };
+        if (location.name) result.location.name = location.name;
+        return result;
+      }
+      case 'contactMessage':
+        result.type = 'contact';
+        result.text = content.contactMessage?.displayName || '';
+        return result;
+      default:
+        // Reactions, protocol messages, polls and the like are not customer replies
+        return null;
+    }
+  }
+
+  /**
+   * Derive a stable WhatsApp message id from a queue message id
+   */
+  static toWhatsAppMessageId(messageId: string): string {
+    return '3EB0' + createHash('sha256').update(messageId).digest('hex').slice(0, 36).toUpperCase();
+  }
+
   /**
    * Prepare media message
    */
@@ -287,28 +778,30 @@ export class WhatsAppService extends EventEmitter {
 
       // Use the filename directly without any processing
       const filename = media.filename || 'File';
+      const mimetype = media.mimetype ?? MediaUtil.getMimeType(media.path);
 
+      // Images and videos take the message text as their caption, set by the caller
       switch (media.type) {
         case 'image':
           return {
             image: fileBuffer,
-            caption: filename,
           };
         case 'document':
           return {
             document: fileBuffer,
             fileName: filename,
-            mimetype: this.getMimeType(media.path),
+            mimetype,
+            ...(media.jpegThumbnail ? { jpegThumbnail: media.jpegThumbnail } : {}),
           };
         case 'video':
           return {
             video: fileBuffer,
-            caption: filename,
           };
         case 'audio':
           return {
             audio: fileBuffer,
-            mimetype: this.getMimeType(media.path),
+            mimetype,
+            ...(media.voiceNote ? { ptt: true } : {}),
           };
         default:
           logger.warn('Unknown media type', { type: media.type });
@@ -321,48 +814,166 @@ export class WhatsAppService extends EventEmitter {
   }
 
   /**
-   * Get MIME type from file extension
+   * Follow a closed connection to its next status: logged-out and conflict wait for someone to
+   * act, anything else reconnects
    */
-  private getMimeType(filePath: string): string {
-    const ext = filePath.split('.').pop()?.toLowerCase();
-    const mimeTypes: { [key: string]: string } = {
-      pdf: 'application/pdf',
-      doc: 'application/msword',
-      docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      txt: 'text/plain',
-      jpg: 'image/jpeg',
-      jpeg: 'image/jpeg',
-      png: 'image/png',
-      gif: 'image/gif',
-      mp4: 'video/mp4',
-      avi: 'video/x-msvideo',
-      mp3: 'audio/mpeg',
-      wav: 'audio/wav',
-    };
-    return mimeTypes[ext || ''] || 'application/octet-stream';
+  private handleDisconnect(disconnect: Omit<DisconnectInfo, 'at'>): void {
+    this.state.lastDisconnect = { ...disconnect, at: Date.now() };
+    logger.info('Connection closed', { authFolder: this.authFolder, ...disconnect });
+
+    if (disconnect.code === DisconnectReason.loggedOut) {
+      this.transition('logged-out', disconnect.reason);
+      this.emit('loggedOut');
+    } else if (disconnect.reason === 'conflict') {
+      // Reconnecting would take the number back from the other session, which would do the same
+      logger.warn('WhatsApp session conflict detected - another session is using this number');
+      this.transition('conflict', disconnect.reason);
+    } else {
+      this.scheduleReconnect(disconnect.code === DisconnectReason.restartRequired);
+    }
   }
 
   /**
-   * Schedule reconnection
+   * Schedule reconnection with exponential backoff, or give up after maxReconnectAttempts
+   * @param immediate - Reconnect without waiting, as WhatsApp asks after a QR scan
    */
-  private scheduleReconnect(): void {
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
+  private scheduleReconnect(immediate = false): void {
+    this.clearReconnect();
+
+    const { maxReconnectAttempts, reconnectBaseDelayMs, reconnectMaxDelayMs } = this.policy;
+    if (maxReconnectAttempts > 0 && this.state.reconnectAttempts >= maxReconnectAttempts) {
+      logger.warn('Max reconnection attempts reached, stopping reconnection attempts', {
+        authFolder: this.authFolder,
+        attempts: this.state.reconnectAttempts,
+      });
+      this.transition('gave-up', `${this.state.reconnectAttempts} reconnect attempts failed`);
+      return;
     }
 
-    this.reconnectAttempts++;
-    const delay = Math.min(5000 * this.reconnectAttempts, 30000); // Exponential backoff, max 30 seconds
+    this.state.reconnectAttempts++;
+    const backoff = Math.min(
+      reconnectBaseDelayMs * 2 ** (this.state.reconnectAttempts - 1),
+      reconnectMaxDelayMs,
+    );
+    // Jitter keeps several sessions from reconnecting in step
+    const delay = immediate ? 0 : Math.round(backoff * (0.8 + Math.random() * 0.4));
+    this.transition('reconnecting', this.state.lastDisconnect?.reason);
 
     this.reconnectTimeout = setTimeout(() => {
-      logger.info(
-        `Attempting to reconnect... (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`,
-      );
-      this.initialize().catch((error) => {
-        logger.error('Reconnection failed', { error, attempt: this.reconnectAttempts });
+      delete this.reconnectTimeout;
+      logger.info(`Attempting to reconnect... (attempt ${this.state.reconnectAttempts})`, {
+        authFolder: this.authFolder,
+      });
+      this.connect().catch((error) => {
+        logger.error('Reconnection failed', { error, attempt: this.state.reconnectAttempts });
+        this.teardownSocket();
+        this.handleDisconnect(describeDisconnect(error));
       });
     }, delay);
   }
 
+  /**
+   * Move the connection to another status and announce the transition
+   * @returns False if the transition is not allowed from the current status
+   */
+  private transition(to: ConnectionStatus, reason?: string): boolean {
+    const from = this.state.status;
+    if (from === to) return true;
+    if (!CONNECTION_TRANSITIONS[from].includes(to)) {
+      logger.warn('Ignored invalid connection transition', { authFolder: this.authFolder, from, to });
+      return false;
+    }
+
+    const now = Date.now();
+    this.state.status = to;
+    this.state.isConnected = to === 'open';
+    this.state.isAuthenticated = to === 'open';
+    this.state.lastActivity = now;
+    this.statusSince = now;
+    // QR and pairing codes are only good while the connection waits for them
+    if (to !== 'qr-pending') {
+      if (this.qrCodeTimeout) {
+        clearTimeout(this.qrCodeTimeout);
+      }
+      if (this.pairingCodeTimeout) {
+        clearTimeout(this.pairingCodeTimeout);
+      }
+      delete this.state.qrCode;
+      delete this.state.pairingCode;
+    }
+
+    const transition: ConnectionTransition = { from, to, at: now, ...(reason ? { reason } : {}) };
+    logger.info('WhatsApp connection transition', { authFolder: this.authFolder, ...transition });
+    this.emit('connectionTransition', transition);
+    this.emit('stateChange', this.state);
+    return true;
+  }
+
+  /**
+   * Close the current socket after removing our listeners, so it cannot report its closing
+   * or deliver anything once replaced
+   */
+  private teardownSocket(): void {
+    const sock = this.sock;
+    if (!sock) return;
+
+    delete this.sock;
+    for (const event of SOCKET_EVENTS) {
+      sock.ev.removeAllListeners(event);
+    }
+    try {
+      sock.end(undefined);
+    } catch (error) {
+      logger.debug('Failed to close replaced socket', { error });
+    }
+  }
+
+  private startWatchdog(): void {
+    if (this.watchdogTimer) return;
+    this.watchdogTimer = setInterval(() => this.checkConnection(), WATCHDOG_INTERVAL);
+    this.watchdogTimer.unref();
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      delete this.watchdogTimer;
+    }
+  }
+
+  /**
+   * Watchdog check: reconnect an open socket that has gone silent, or a connect that never finishes.
+   * WhatsApp answers a keep-alive every 30 seconds, so a healthy socket is never quiet for long.
+   */
+  private checkConnection(): void {
+    const now = Date.now();
+    let reason: string | undefined;
+    if (this.state.status === 'open' && now - this.lastFrameAt > this.policy.stallTimeoutMs) {
+      reason = 'stalled';
+    } else if (this.state.status === 'connecting' && now - this.statusSince > this.policy.connectTimeoutMs) {
+      reason = 'connectTimeout';
+    }
+    if (!reason) return;
+
+    logger.warn('WhatsApp connection watchdog fired, reconnecting', {
+      authFolder: this.authFolder,
+      reason,
+      status: this.state.status,
+      silentForMs: now - this.lastFrameAt,
+    });
+    // Overtake a connect still waiting on its credentials
+    this.connectGeneration++;
+    this.teardownSocket();
+    this.handleDisconnect({ reason });
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      delete this.reconnectTimeout;
+    }
+  }
+
   /**
    * Get current state
    */
@@ -375,22 +986,14 @@ export class WhatsAppService extends EventEmitter {
    */
   async logout(): Promise<void> {
     try {
+      this.clearReconnect();
       if (this.sock) {
         await this.sock.logout();
       }
 
-      this.state.isConnected = false;
-      this.state.isAuthenticated = false;
-      delete this.state.qrCode;
-      this.emit('stateChange', this.state);
-
-      // Clear timeouts
-      if (this.qrCodeTimeout) {
-        clearTimeout(this.qrCodeTimeout);
-      }
-      if (this.reconnectTimeout) {
-        clearTimeout(this.reconnectTimeout);
-      }
+      this.teardownSocket();
+      this.state.lastDisconnect = { reason: 'loggedOut', code: DisconnectReason.loggedOut, at: Date.now() };
+      this.transition('logged-out', 'logoutRequested');
 
       logger.info('WhatsApp logged out successfully');
     } catch (error) {
@@ -398,6 +1001,18 @@ export class WhatsAppService extends EventEmitter {
     }
   }
 
+  /**
+   * Close the connection without logging out, so the session can be started again later
+   */
+  disconnect(): void {
+    this.clearReconnect();
+    this.stopWatchdog();
+    this.connectGeneration++;
+    this.teardownSocket();
+    this.transition('stopped', 'disconnectRequested');
+    logger.info('WhatsApp disconnected', { authFolder: this.authFolder });
+  }
+
   /**
    * Cleanup resources
    */
@@ -408,9 +1023,11 @@ export class WhatsAppService extends EventEmitter {
     if (this.qrCodeTimeout) {
       clearTimeout(this.qrCodeTimeout);
     }
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
+    if (this.pairingCodeTimeout) {
+      clearTimeout(this.pairingCodeTimeout);
     }
+    this.clearReconnect();
+    this.stopWatchdog();
 
     // Clear processing messages set
     this.processingMessages.clear();
@@ -425,15 +1042,26 @@ export class WhatsAppService extends EventEmitter {
   }
 
   /**
-   * Clean up media file after successful send
+   * Read the connection policy from the environment
+   *
+   * - RECONNECT_BASE_DELAY_MS: pause before the first reconnect, doubled after every failure (default 2000)
+   * - RECONNECT_MAX_DELAY_MS: longest pause between reconnects (default 300000)
+   * - RECONNECT_MAX_ATTEMPTS: failed reconnects in a row before giving up (default 0, never give up)
+   * - WATCHDOG_STALL_TIMEOUT_MS: reconnect an open socket that receives nothing for this long (default 90000)
+   * - WATCHDOG_CONNECT_TIMEOUT_MS: restart a connect that neither opens nor shows a QR code (default 60000)
    */
-  private async cleanupMediaFile(filePath: string): Promise<void> {
-    try {
-      const fs = await import('fs/promises');
-      await fs.unlink(filePath);
-      logger.info('Media file cleaned up', { path: filePath });
-    } catch (error) {
-      logger.warn('Failed to cleanup media file', { path: filePath, error });
-    }
+  static loadConnectionPolicy(): ConnectionPolicy {
+    const read = (name: string, fallback: number) => {
+      const value = Number(process.env[name]);
+      return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+    };
+
+    return {
+      reconnectBaseDelayMs: read('RECONNECT_BASE_DELAY_MS', 2000),
+      reconnectMaxDelayMs: read('RECONNECT_MAX_DELAY_MS', 5 * 60 * 1000),
+      maxReconnectAttempts: read('RECONNECT_MAX_ATTEMPTS', 0),
+      stallTimeoutMs: read('WATCHDOG_STALL_TIMEOUT_MS', 90 * 1000),
+      connectTimeoutMs: read('WATCHDOG_CONNECT_TIMEOUT_MS', 60 * 1000),
+    };
   }
 }
@@ -1,32 +1,249 @@
 export interface MessageQueueItem {
   id: string;
+  /** Recipient: a phone number in E.164 format, or a group JID ending in @g.us */
   phoneNumber: string;
   message: string;
   media?: {
     type: 'image' | 'document' | 'video' | 'audio';
     path: string;
     filename?: string;
+    /** Read from the file's content; older messages and template media fall back to the extension */
+    mimetype?: string;
+    /** Send the audio as a voice note; the file is ogg/opus */
+    voiceNote?: boolean;
+    /** Base64 JPEG of a PDF's first page, shown on the document */
+    jpegThumbnail?: string;
+    /** Set when the file belongs to a template or the media library and must outlive the message */
+    shared?: boolean;
+    /** Media library item the file belongs to */
+    mediaId?: string;
   };
   timestamp: number;
-  status: 'pending' | 'sending' | 'sent' | 'failed';
+  status: 'pending' | 'sending' | MessageReceiptStatus | 'failed' | 'cancelled';
   retryCount: number;
+  attempts: MessageAttempt[];
+  whatsappId?: string;
+  error?: string;
+  completedAt?: number;
+  /** When WhatsApp's server acknowledged the message */
+  serverAckAt?: number;
+  /** When the message reached the recipient's phone */
+  deliveredAt?: number;
+  /** When the recipient opened the message */
+  readAt?: number;
+  /** When the recipient played a voice note or video */
+  playedAt?: number;
+  callbackUrl?: string;
+  clientId?: string;
+  batchId?: string;
+  /** WhatsApp session (number) that sends the message */
+  sessionId?: string;
+  template?: MessageTemplateRef;
+  /** Epoch ms before which the message is held; also set when quiet hours or a retry backoff defer it */
+  sendAt?: number;
+  /** Lane the message is scheduled in; messages without one use the default lane */
+  lane?: string;
+  /** Higher goes first within the lane; messages without one count as 0 */
+  priority?: number;
+  /** When an admin moved the message to the front; the latest move goes first */
+  pinnedAt?: number;
+  /** Sent instead of text and media: a location pin, contact card, reaction or poll */
+  content?: MessageContent;
+  /** Message this one quotes */
+  replyTo?: MessageKeyRef;
+  /** Preview card for the first link in the text; false sends the text without one */
+  linkPreview?: LinkPreview | false;
+}
+
+export type MessageContent =
+  | { type: 'location'; latitude: number; longitude: number; name?: string; address?: string }
+  | { type: 'contact'; name: string; phoneNumber: string; organization?: string; email?: string }
+  /** An empty emoji removes an earlier reaction */
+  | { type: 'reaction'; emoji: string; target: MessageKeyRef }
+  | { type: 'poll'; question: string; options: string[]; selectableCount: number };
+
+/**
+ * A message in a chat, as needed to quote or react to it
+ */
+export interface MessageKeyRef {
+  /** Queue id of our message, or inbox id of the customer's */
+  messageId: string;
+  whatsappId: string;
+  fromMe: boolean;
+  /** Text shown in the quote */
+  text?: string;
+}
+
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description?: string;
+}
+
+/**
+ * Where a sent message has got to, in the order WhatsApp reports it
+ */
+export type MessageReceiptStatus = 'sent' | 'server_ack' | 'delivered' | 'read' | 'played';
+
+export interface QueueMessageOptions {
+  callbackUrl?: string;
+  clientId?: string;
+  batchId?: string;
+  template?: MessageTemplateRef;
+  sendAt?: number;
+  lane?: string;
+  priority?: number;
+  content?: MessageContent;
+  replyTo?: MessageKeyRef;
+  linkPreview?: LinkPreview | false;
+}
+
+export interface MessageAttempt {
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+  /** How the failure was judged, deciding whether and when the message is tried again */
+  errorClass?: SendErrorClass;
+  /** When the next attempt was scheduled after this one failed */
+  retryAt?: number;
+}
+
+/**
+ * - retryable: a transient failure, tried again after a backoff
+ * - permanent: trying again cannot help, such as an invalid number
+ * - reconnect: the connection is down; the message waits for it to come back
+ */
+export type SendErrorClass = 'retryable' | 'permanent' | 'reconnect';
+
+export interface MessageHistoryQuery {
+  phoneNumber?: string;
+  status?: MessageQueueItem['status'];
+  batchId?: string;
+  sessionId?: string;
+  from?: number;
+  to?: number;
+  page: number;
+  limit: number;
+}
+
+export interface QueuedMessagesQuery {
+  sessionId?: string;
+  lane?: string;
+  batchId?: string;
+  phoneNumber?: string;
+  /** pending means due now; scheduled means held until sendAt */
+  status?: 'pending' | 'scheduled' | 'sending';
+  page: number;
+  limit: number;
+}
+
+export interface MessageHistoryPage {
+  messages: MessageQueueItem[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Where a WhatsApp connection is in its lifecycle. A stopped session is not running;
+ * conflict, logged-out and gave-up wait for someone to reconnect it.
+ */
+export type ConnectionStatus =
+  | 'stopped'
+  | 'connecting'
+  | 'qr-pending'
+  | 'open'
+  | 'reconnecting'
+  | 'conflict'
+  | 'logged-out'
+  | 'gave-up';
+
+export interface DisconnectInfo {
+  /** Baileys' DisconnectReason name, or what the watchdog saw, e.g. "stalled" */
+  reason: string;
+  /** Status code WhatsApp closed the connection with */
+  code?: number;
+  message?: string;
+  at: number;
+}
+
+export interface ConnectionTransition {
+  from: ConnectionStatus;
+  to: ConnectionStatus;
+  at: number;
+  reason?: string;
+}
+
+export interface PairingCode {
+  /** Typed on the phone under Linked devices > Link with phone number instead */
+  code: string;
+  /** The number being linked, in E.164 format */
+  phoneNumber: string;
+  expiresAt: number;
 }
 
 export interface WhatsAppState {
+  status: ConnectionStatus;
   isConnected: boolean;
   isAuthenticated: boolean;
   qrCode?: string;
+  /** Set while a pairing code waits to be typed on the phone */
+  pairingCode?: PairingCode;
   lastActivity: number;
+  /** Why the connection last closed */
+  lastDisconnect?: DisconnectInfo;
+  /** Reconnect attempts since the connection was last open */
+  reconnectAttempts: number;
+}
+
+export interface WhatsAppSessionRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** When the number was last linked by a QR scan or pairing code; drives the sending warm-up */
+  linkedAt?: number;
+  /** Set on the default session while sending is paused in every session */
+  paused?: boolean;
+}
+
+export interface WhatsAppSessionSummary extends WhatsAppSessionRecord {
+  isRunning: boolean;
+  state: WhatsAppState;
+  queue: QueueStatus;
 }
 
 export interface SendMessageRequest {
-  phoneNumber: string;
-  message: string;
-  media?: {
-    type: 'image' | 'document' | 'video' | 'audio';
-    path: string;
-    filename?: string;
-  };
+  /** Send to either a phone number or a group */
+  phoneNumber?: string;
+  groupJid?: string;
+  sessionId?: string;
+  country?: string;
+  message?: string;
+  templateId?: string;
+  variables?: Record<string, unknown> | string;
+  language?: TemplateLanguage;
+  templateVersion?: number | string;
+  sendAt?: number | string;
+  timezone?: string;
+  lane?: string;
+  priority?: number | string;
+  /** Reject the number up front unless it has a WhatsApp account; defaults to CHECK_NUMBERS_ON_SEND */
+  checkNumber?: boolean | string;
+  /** Rich content, as objects or JSON strings; at most one, sent instead of message and media */
+  location?: unknown;
+  contact?: unknown;
+  reaction?: unknown;
+  poll?: unknown;
+  /** Queue or inbox id of the message to quote */
+  replyTo?: string;
+  /** { url, title, description? } as an object or JSON string, or false */
+  linkPreview?: unknown;
+  /** { url, filename? } or { base64, filename, mimetype? } as an object or JSON string, instead of an upload */
+  media?: unknown;
+  /** Media library item to send, instead of an upload or body media */
+  mediaId?: string;
+  /** Send audio media as a voice note, converting it to ogg/opus */
+  voiceNote?: boolean | string;
 }
 
 export interface SendMessageResponse {
@@ -34,11 +251,289 @@ export interface SendMessageResponse {
   messageId?: string;
   error?: string;
   queuePosition?: number;
+  template?: MessageTemplateRef;
+  sendAt?: string;
+  lane?: string;
 }
 
 export interface QueueStatus {
   pending: number;
+  scheduled: number;
   processing: number;
   completed: number;
   failed: number;
+  /** Earliest time a pending message may go, epoch ms; absent when nothing is waiting */
+  nextSendAt?: number;
+  /** Set while an admin has paused sending */
+  paused: boolean;
+  /** Set while the queue waits for WhatsApp to reconnect */
+  parked?: boolean;
+  /** Waiting messages by lane */
+  lanes: Record<string, { pending: number; scheduled: number }>;
+  throttle?: ThrottleStatus;
+}
+
+export interface ThrottleStatus {
+  /** Ceilings in force now, lowered while a new number warms up; null means unlimited */
+  limits: { perMinute: number | null; perHour: number | null; perDay: number | null };
+  /** Messages left in each rolling window */
+  remaining: { perMinute: number | null; perHour: number | null; perDay: number | null };
+  /** Day of the warm-up, counting from 1; absent once the number sends at full volume */
+  warmUpDay?: number;
+}
+
+export type WebhookEventType =
+  | 'message.queued'
+  | 'message.sending'
+  | 'message.sent'
+  | 'message.delivered'
+  | 'message.read'
+  | 'message.played'
+  | 'message.failed'
+  | 'message.cancelled'
+  | 'message.received'
+  | 'connection.open'
+  | 'connection.closed'
+  | 'connection.qr_required'
+  | 'connection.logged_out';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  createdAt: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId?: string;
+  /** API key whose message named this callback URL; its callback secret signs the delivery */
+  clientId?: string;
+  url: string;
+  event: WebhookEventType;
+  payload: string;
+  status: 'pending' | 'dead';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+export type ApiKeyScope = 'send' | 'read-status' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyHash: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** Signs deliveries to the callbackUrl of the key's messages; keys created before it get one on first use */
+  callbackSecret?: string;
+  createdAt: number;
+  rotatedAt?: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+}
+
+export interface IdempotencyRecord {
+  /** "key:<clientId>:<idempotency key>" or "content:<fingerprint>" */
+  id: string;
+  messageId: string;
+  /** Hash of the recipient, text and media reference of the request, or of its content for content records */
+  fingerprint: string;
+  createdAt: number;
+  expiresAt: number;
 }
+
+export interface WhatsAppGroup {
+  /** Group JID, used as the recipient when sending to the group */
+  id: string;
+  subject: string;
+  participants: number;
+  /** Phone number of the member who created the group, when WhatsApp reports it */
+  owner?: string;
+  createdAt?: number;
+  /** Set when only admins may post */
+  announce?: boolean;
+}
+
+export interface GroupParticipantUpdate {
+  phoneNumber: string;
+  /** WhatsApp's status code for this participant, "200" on success */
+  status: string;
+}
+
+export interface MediaLibraryItem {
+  id: string;
+  /** SHA-256 of the file as uploaded; uploading the same file again returns this item */
+  sha256: string;
+  type: NonNullable<MessageQueueItem['media']>['type'];
+  mimetype: string;
+  filename?: string;
+  /** Size of the stored file, after compression or voice note conversion */
+  size: number;
+  path: string;
+  /** The audio was converted to ogg/opus and is always sent as a voice note */
+  voiceNote?: boolean;
+  /** Base64 JPEG of a PDF's first page, shown on the document */
+  jpegThumbnail?: string;
+  /** API key that added the item; only it and admins may delete it */
+  clientId?: string;
+  createdAt: number;
+}
+
+export interface NumberCheckRecord {
+  /** Phone number in E.164 format */
+  id: string;
+  onWhatsApp: boolean;
+  /** WhatsApp id of the account, when there is one */
+  jid?: string;
+  checkedAt: number;
+  expiresAt: number;
+}
+
+export interface NumberCheckResult {
+  /** The number as the caller sent it */
+  input: string;
+  /** Normalized number, or null if it is not a valid phone number */
+  phoneNumber: string | null;
+  /** Null when the number is invalid and was not looked up */
+  onWhatsApp: boolean | null;
+  jid?: string;
+  checkedAt?: number;
+  /** Whether the answer came from the cache rather than WhatsApp */
+  cached?: boolean;
+}
+
+export interface BulkBatch {
+  id: string;
+  template: string;
+  total: number;
+  accepted: number;
+  rejected: number;
+  createdAt: number;
+  clientId?: string;
+  sessionId?: string;
+  lane?: string;
+  cancelledAt?: number;
+  /** Accepted rows that were not queued because the batch was cancelled first */
+  cancelled?: number;
+}
+
+export interface BulkRowResult {
+  row: number;
+  phoneNumber: string;
+  /** cancelled: accepted, but the batch was cancelled before the row was queued */
+  status: 'accepted' | 'rejected' | 'cancelled';
+  reason?: string;
+  messageId?: string;
+}
+
+export type BulkBatchProgress = Record<MessageQueueItem['status'], number>;
+
+export type TemplateLanguage = 'ar' | 'en';
+
+export type TemplateVariableType = 'text' | 'number' | 'date';
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  description?: string;
+}
+
+export interface MessageTemplateVersion {
+  version: number;
+  content: Partial<Record<TemplateLanguage, string>>;
+  variables: TemplateVariable[];
+  media?: NonNullable<MessageQueueItem['media']>;
+  createdAt: number;
+}
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  currentVersion: number;
+  versions: MessageTemplateVersion[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MessageTemplateRef {
+  id: string;
+  version: number;
+  language: TemplateLanguage;
+}
+
+export interface RenderedTemplate {
+  template: MessageTemplateRef;
+  text: string;
+  media?: NonNullable<MessageQueueItem['media']>;
+}
+
+export type InboundMessageType =
+  | 'text'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'document'
+  | 'sticker'
+  | 'location'
+  | 'contact';
+
+export interface InboundMessage {
+  id: string;
+  whatsappId: string;
+  /** WhatsApp session (number) that received the message */
+  sessionId?: string;
+  phoneNumber: string;
+  pushName?: string;
+  type: InboundMessageType;
+  /** Message body, media caption, or contact name */
+  text?: string;
+  media?: {
+    path: string;
+    mimetype: string;
+    size: number;
+    filename?: string;
+  };
+  location?: {
+    latitude: number;
+    longitude: number;
+    name?: string;
+  };
+  /** WhatsApp id of the message this one quotes */
+  quotedWhatsAppId?: string;
+  /** Queue id of our outbound message this one replies to */
+  inReplyTo?: string;
+  timestamp: number;
+  receivedAt: number;
+}
+
+export interface InboxQuery {
+  phoneNumber?: string;
+  from?: number;
+  to?: number;
+  page: number;
+  limit: number;
+}
+
+export interface InboxPage {
+  messages: InboundMessage[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface ConversationSummary {
+  phoneNumber: string;
+  pushName?: string;
+  lastMessageAt: number;
+  lastText?: string;
+  inboundCount: number;
+}
+
+export type ConversationEntry =
+  | { direction: 'inbound'; timestamp: number; message: InboundMessage }
+  | { direction: 'outbound'; timestamp: number; message: MessageQueueItem };
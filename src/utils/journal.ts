@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import logger from './logger';
+
+type JournalEntry<T> = { op: 'put'; record: T } | { op: 'delete'; id: string };
+
+/**
+ * Append-only JSON lines journal keyed by record id.
+ * Every change is written synchronously before the call returns, so a crash
+ * never loses an acknowledged write. The file is rewritten (compacted) on load
+ * and whenever stale entries outnumber live records.
+ */
+export class JsonJournal<T extends { id: string }> {
+  private records = new Map<string, T>();
+  private entriesSinceCompact = 0;
+  private minCompactEntries = 1000;
+
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.replay();
+  }
+
+  /**
+   * Get a record by id
+   */
+  get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  /**
+   * Get all live records in insertion order
+   */
+  values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Number of live records
+   */
+  get size(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Insert or replace a record
+   */
+  put(record: T): void {
+    this.records.set(record.id, record);
+    this.append({ op: 'put', record });
+  }
+
+  /**
+   * Delete a record by id
+   */
+  delete(id: string): void {
+    if (!this.records.delete(id)) return;
+    this.append({ op: 'delete', id });
+  }
+
+  /**
+   * Delete every record
+   */
+  clear(): void {
+    this.records.clear();
+    this.compact();
+  }
+
+  /**
+   * Rewrite the journal so it only contains live records
+   */
+  compact(): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const lines = this.values().map((record) => JSON.stringify({ op: 'put', record }) + '\n');
+    fs.writeFileSync(tmpPath, lines.join(''));
+    fs.renameSync(tmpPath, this.filePath);
+    this.entriesSinceCompact = 0;
+  }
+
+  /**
+   * Rebuild the in-memory state from the journal file
+   */
+  private replay(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as JournalEntry<T>;
+        if (entry.op === 'put') {
+          this.records.set(entry.record.id, entry.record);
+        } else if (entry.op === 'delete') {
+          this.records.delete(entry.id);
+        }
+      } catch (error) {
+        // A torn write from a crash only ever affects the last line
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn('Skipped unreadable journal entries', { file: this.filePath, skipped });
+    }
+
+    this.compact();
+  }
+
+  private append(entry: JournalEntry<T>): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    this.entriesSinceCompact++;
+
+    if (this.entriesSinceCompact > Math.max(this.minCompactEntries, this.records.size * 2)) {
+      this.compact();
+    }
+  }
+}
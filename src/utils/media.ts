@@ -0,0 +1,390 @@
+import { createHash, randomBytes } from 'crypto';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import { IncomingMessage } from 'http';
+import path from 'path';
+import { NetworkUtil } from './network';
+
+export type MediaType = 'image' | 'document' | 'video' | 'audio';
+
+export interface SavedMedia {
+  type: MediaType;
+  path: string;
+  filename: string;
+  mimetype: string;
+  size: number;
+}
+
+export interface MediaConfig {
+  /** Largest file accepted, whether uploaded, fetched or decoded */
+  maxBytes: number;
+  /** How long fetching a media URL may take, body included */
+  fetchTimeoutMs: number;
+  /** Hosts media may be fetched from; empty allows any */
+  allowedHosts: string[];
+}
+
+// Redirects followed when fetching a media URL
+const MAX_REDIRECTS = 5;
+
+// MIME types accepted for outbound media, with the extension a file of that type is saved under
+const ALLOWED_MIME_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'video/avi': '.avi',
+  'video/x-msvideo': '.avi',
+  'video/mov': '.mov',
+  'video/quicktime': '.mov',
+  'video/wmv': '.wmv',
+  'video/x-ms-wmv': '.wmv',
+  'audio/mp3': '.mp3',
+  'audio/mpeg': '.mp3',
+  'audio/wav': '.wav',
+  'audio/ogg': '.ogg',
+  'audio/m4a': '.m4a',
+  'audio/mp4': '.m4a',
+  'application/pdf': '.pdf',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+};
+
+// MIME type WhatsApp is told for a file, by extension
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  avi: 'video/x-msvideo',
+  mov: 'video/quicktime',
+  wmv: 'video/x-ms-wmv',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+};
+
+const ASF_SIGNATURE = Buffer.from([0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11]);
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,/;
+
+export class MediaUtil {
+  private static config: MediaConfig = MediaUtil.loadConfig();
+
+  /**
+   * Replace part of the media settings
+   * @param config - The settings to change
+   */
+  static configure(config: Partial<MediaConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Largest media file accepted, in bytes
+   */
+  static getMaxBytes(): number {
+    return this.config.maxBytes;
+  }
+
+  /**
+   * Whether a MIME type may be sent as media
+   */
+  static isAllowedMimeType(mimetype: string): boolean {
+    return Object.prototype.hasOwnProperty.call(ALLOWED_MIME_TYPES, this.normalizeMimeType(mimetype));
+  }
+
+  /**
+   * Decide how WhatsApp shows a file of this MIME type
+   */
+  static getFileType(mimetype: string): MediaType {
+    if (mimetype.startsWith('image/')) return 'image';
+    if (mimetype.startsWith('video/')) return 'video';
+    if (mimetype.startsWith('audio/')) return 'audio';
+    return 'document';
+  }
+
+  /**
+   * Get a MIME type from a file's extension
+   */
+  static getMimeType(filePath: string): string {
+    const ext = filePath.split('.').pop()?.toLowerCase();
+    return EXTENSION_MIME_TYPES[ext || ''] || 'application/octet-stream';
+  }
+
+  /**
+   * Recognise a file's type from its first bytes, so a misnamed file is sent as what it really is
+   * @param head - The start of the file; 4 KB is enough
+   * @param filename - Tells apart formats that share a container, such as .doc and .xls
+   * @returns The MIME type, or null if the content is not recognised
+   */
+  static detectMimeType(head: Buffer, filename = ''): string | null {
+    const ascii = (start: number, end: number) => head.toString('latin1', start, end);
+    const ext = filename.split('.').pop()?.toLowerCase();
+
+    if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return 'image/jpeg';
+    if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+    if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+    if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+    if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+    if (ascii(0, 4) === 'RIFF') {
+      const format = ascii(8, 12);
+      if (format === 'WEBP') return 'image/webp';
+      if (format === 'WAVE') return 'audio/wav';
+      if (format === 'AVI ') return 'video/x-msvideo';
+      return null;
+    }
+    if (ascii(4, 8) === 'ftyp') {
+      const brand = ascii(8, 12);
+      if (brand === 'M4A ' || brand === 'M4B ') return 'audio/mp4';
+      if (brand === 'qt  ') return 'video/quicktime';
+      return 'video/mp4';
+    }
+    if (head.subarray(0, 8).equals(ASF_SIGNATURE)) return 'video/x-ms-wmv';
+    if (ascii(0, 3) === 'ID3' || (head[0] === 0xff && ((head[1] ?? 0) & 0xe0) === 0xe0)) return 'audio/mpeg';
+    if (head.subarray(0, 8).equals(OLE_SIGNATURE)) {
+      return ext === 'xls' ? 'application/vnd.ms-excel' : 'application/msword';
+    }
+    if (ascii(0, 4) === 'PK\x03\x04') {
+      // Office files are zip archives; their part names tell Word from Excel
+      const entries = ascii(0, head.length);
+      if (ext === 'xlsx' || (ext !== 'docx' && entries.includes('xl/'))) {
+        return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+      }
+      if (ext === 'docx' || entries.includes('word/')) {
+        return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+      }
+      return null;
+    }
+
+    // Anything else without NUL bytes is taken for text
+    if (head.length > 0 && !head.includes(0)) {
+      return ext === 'csv' ? 'text/csv' : 'text/plain';
+    }
+    return null;
+  }
+
+  /**
+   * Pick a file extension, with its dot, for a MIME type
+   */
+  static getExtension(mimetype: string): string {
+    return ALLOWED_MIME_TYPES[this.normalizeMimeType(mimetype)] || '.bin';
+  }
+
+  /**
+   * Hash a file's content with sha256, reading it as a stream so large files never block the event loop
+   */
+  static hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(filePath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  /**
+   * Fetch a file over HTTP(S) into a directory, within the size, type and time limits
+   * @param filename - Name to show for the file; defaults to the last segment of the URL
+   * @returns The saved file, or the status and error to answer the request with
+   */
+  static async download(
+    url: string,
+    dir: string,
+    filename?: string,
+  ): Promise<SavedMedia | { status: number; error: string }> {
+    const { pathname } = new URL(url);
+    const { maxBytes, fetchTimeoutMs } = this.config;
+
+    const chunks: Buffer[] = [];
+    let mimetype: string;
+    const signal = AbortSignal.timeout(fetchTimeoutMs);
+    try {
+      // Redirects are followed by hand, so every hop passes the same host checks as the first
+      let target = url;
+      let response: IncomingMessage;
+      for (let redirects = 0; ; redirects++) {
+        const refused = await this.checkFetchTarget(target);
+        if (refused) {
+          return { status: 400, error: refused };
+        }
+
+        // The host is resolved and checked again as the connection is made, so it cannot pass the
+        // check above and then point at this machine
+        response = await NetworkUtil.requestPublicUrl(target, { signal });
+        const status = response.statusCode ?? 0;
+        const location = response.headers.location;
+        if (status < 300 || status >= 400 || !location) break;
+
+        response.destroy();
+        if (redirects >= MAX_REDIRECTS) {
+          return { status: 502, error: `Fetching media was redirected more than ${MAX_REDIRECTS} times` };
+        }
+        target = new URL(location, target).toString();
+      }
+
+      const status = response.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        response.destroy();
+        return { status: 502, error: `Fetching media failed with HTTP ${status}` };
+      }
+
+      const declared = Number(response.headers['content-length']);
+      if (declared > maxBytes) {
+        response.destroy();
+        return { status: 413, error: `Media is larger than ${maxBytes} bytes` };
+      }
+
+      // Servers often send files as octet-stream, so fall back to the extension
+      const contentType = this.normalizeMimeType(response.headers['content-type'] || '');
+      mimetype =
+        contentType && contentType !== 'application/octet-stream'
+          ? contentType
+          : this.getMimeType(filename || pathname);
+      if (!this.isAllowedMimeType(mimetype)) {
+        response.destroy();
+        return { status: 415, error: `Media type ${mimetype} is not allowed` };
+      }
+
+      let size = 0;
+      for await (const chunk of response as AsyncIterable<Buffer>) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          response.destroy();
+          return { status: 413, error: `Media is larger than ${maxBytes} bytes` };
+        }
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return { status: 504, error: `Fetching media took longer than ${fetchTimeoutMs} ms` };
+      }
+      return {
+        status: 502,
+        error: `Could not fetch media: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+
+    const name = filename || this.nameFromPath(pathname) || `file${this.getExtension(mimetype)}`;
+    return this.save(Buffer.concat(chunks), dir, name, mimetype);
+  }
+
+  /**
+   * Check a URL about to be fetched against the allowed hosts, and keep it off this machine and
+   * the local network
+   * @returns Why the URL may not be fetched, or undefined when it may
+   */
+  private static async checkFetchTarget(url: string): Promise<string | undefined> {
+    const { hostname } = new URL(url);
+    const { allowedHosts } = this.config;
+    if (allowedHosts.length > 0 && !allowedHosts.includes(hostname.toLowerCase())) {
+      return `Fetching media from ${hostname} is not allowed`;
+    }
+
+    const refused = await NetworkUtil.checkPublicUrl(url);
+    return refused && `Cannot fetch media: ${refused}`;
+  }
+
+  /**
+   * Decode a base64 file, or a data: URL, into a directory
+   * @param filename - Name to show for the file; its extension gives the type when no MIME type is known
+   * @param mimetype - Type of the file; overrides the type in a data: URL
+   * @returns The saved file, or the status and error to answer the request with
+   */
+  static async saveBase64(
+    data: string,
+    dir: string,
+    filename: string,
+    mimetype?: string,
+  ): Promise<SavedMedia | { status: number; error: string }> {
+    const dataUrl = DATA_URL_PATTERN.exec(data);
+    const encoded = (dataUrl ? data.slice(dataUrl[0].length) : data).replace(/\s/g, '');
+    if (!encoded || !BASE64_PATTERN.test(encoded)) {
+      return { status: 400, error: 'media.base64 is not valid base64' };
+    }
+
+    // Check the decoded size before decoding, so an oversized body is never held twice
+    const padding = encoded.endsWith('==') ? 2 : encoded.endsWith('=') ? 1 : 0;
+    if (Math.floor((encoded.length * 3) / 4) - padding > this.config.maxBytes) {
+      return { status: 413, error: `Media is larger than ${this.config.maxBytes} bytes` };
+    }
+
+    const type = this.normalizeMimeType(mimetype || dataUrl?.[1] || this.getMimeType(filename));
+    if (!this.isAllowedMimeType(type)) {
+      return { status: 415, error: `Media type ${type} is not allowed` };
+    }
+
+    return this.save(Buffer.from(encoded, 'base64'), dir, filename, type);
+  }
+
+  private static async save(
+    data: Buffer,
+    dir: string,
+    filename: string,
+    mimetype: string,
+  ): Promise<SavedMedia> {
+    const filePath = path.join(
+      dir,
+      `file-${Date.now()}-${randomBytes(4).toString('hex')}${this.getExtension(mimetype)}`,
+    );
+    await fs.writeFile(filePath, data);
+    return {
+      type: this.getFileType(mimetype),
+      path: filePath,
+      filename: path.basename(filename),
+      mimetype,
+      size: data.length,
+    };
+  }
+
+  private static nameFromPath(pathname: string): string {
+    const name = path.posix.basename(pathname);
+    try {
+      return decodeURIComponent(name);
+    } catch (error) {
+      return name;
+    }
+  }
+
+  private static normalizeMimeType(mimetype: string): string {
+    return (mimetype.split(';')[0] ?? '').trim().toLowerCase();
+  }
+
+  /**
+   * Load the media settings from the environment
+   *
+   * - MEDIA_MAX_MB: largest media file accepted (default 16)
+   * - MEDIA_FETCH_TIMEOUT_MS: time limit for fetching a media URL (default 30000)
+   * - MEDIA_URL_ALLOWED_HOSTS: comma-separated hosts media URLs may point at (default any)
+   */
+  private static loadConfig(): MediaConfig {
+    const maxMb = Number(process.env.MEDIA_MAX_MB);
+    const timeout = Number(process.env.MEDIA_FETCH_TIMEOUT_MS);
+
+    return {
+      maxBytes: (maxMb > 0 ? maxMb : 16) * 1024 * 1024,
+      fetchTimeoutMs: Number.isInteger(timeout) && timeout > 0 ? timeout : 30 * 1000,
+      allowedHosts: (process.env.MEDIA_URL_ALLOWED_HOSTS || '')
+        .split(',')
+        .map((host) => host.trim().toLowerCase())
+        .filter(Boolean),
+    };
+  }
+}
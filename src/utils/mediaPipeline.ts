@@ -0,0 +1,293 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import { promisify } from 'util';
+import type Sharp from 'sharp';
+import { MessageQueueItem } from '../types';
+import logger from './logger';
+import { MediaType, MediaUtil } from './media';
+
+type Media = NonNullable<MessageQueueItem['media']>;
+
+export interface MediaPipelineConfig {
+  /** Largest file WhatsApp takes of each type, in bytes, checked after processing */
+  sizeLimits: Record<MediaType, number>;
+  /** Longest side of an image after compression, in pixels */
+  maxImageDimension: number;
+  /** Images larger than this are recompressed even when they are small enough in pixels */
+  compressAboveBytes: number;
+  jpegQuality: number;
+  ffmpegPath: string;
+  pdftoppmPath: string;
+}
+
+const execFileAsync = promisify(execFile);
+
+// Bytes read to recognise a file's type
+const SNIFF_BYTES = 4096;
+// Time an ffmpeg or pdftoppm run may take
+const TOOL_TIMEOUT = 60 * 1000;
+const THUMBNAIL_SIZE = 240;
+// WhatsApp only plays voice notes in this format
+const VOICE_NOTE_MIME_TYPE = 'audio/ogg; codecs=opus';
+
+const TYPE_NAMES: Record<MediaType, string> = {
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio files',
+  document: 'Documents',
+};
+
+export class MediaPipelineUtil {
+  private static config: MediaPipelineConfig = MediaPipelineUtil.loadConfig();
+  // Loaded on first use; null when the native module is missing
+  private static sharp: typeof Sharp | null | undefined;
+
+  /**
+   * Replace part of the pipeline settings
+   * @param config - The settings to change
+   */
+  static configure(config: Partial<MediaPipelineConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get a file ready for WhatsApp: recognise its type from its content, compress oversized images,
+   * add a thumbnail to PDFs and convert voice notes to ogg/opus, then check WhatsApp's size limit
+   * @param media - A file owned by the request; it may be replaced by a processed copy
+   * @param options.voiceNote - Send audio as a voice note
+   * @returns The media to queue, or the status and error to answer the request with. On error the
+   *   original file is left for the caller to delete.
+   */
+  static async process(
+    media: Media,
+    options: { voiceNote?: boolean } = {},
+  ): Promise<Media | { status: number; error: string }> {
+    const head = await this.readHead(media.path);
+    const detected = MediaUtil.detectMimeType(head, media.filename ?? media.path);
+    if (!detected || !MediaUtil.isAllowedMimeType(detected)) {
+      return { status: 415, error: 'Media content is not an allowed image, video, audio or document type' };
+    }
+
+    const type = MediaUtil.getFileType(detected);
+    if (options.voiceNote && type !== 'audio') {
+      return { status: 400, error: 'voiceNote needs an audio file' };
+    }
+
+    const isOpus = detected === 'audio/ogg' && head.includes('OpusHead');
+    let processed: Media = { ...media, type, mimetype: isOpus ? VOICE_NOTE_MIME_TYPE : detected };
+    try {
+      if (type === 'image') {
+        processed = await this.compressImage(processed);
+      } else if (type === 'audio' && options.voiceNote) {
+        const converted = isOpus
+          ? { ...processed, voiceNote: true }
+          : await this.convertToVoiceNote(processed);
+        if ('error' in converted) return converted;
+        processed = converted;
+      } else if (detected === 'application/pdf') {
+        const thumbnail = await this.renderPdfThumbnail(processed.path);
+        if (thumbnail) processed.jpegThumbnail = thumbnail;
+      }
+
+      const { size } = await fs.stat(processed.path);
+      const limit = this.config.sizeLimits[type];
+      if (size > limit) {
+        await this.discardCopy(processed, media);
+        return {
+          status: 413,
+          error: `${TYPE_NAMES[type]} may be at most ${toMb(limit)} MB on WhatsApp; this one is ${toMb(
+            size,
+          )} MB${processed.path !== media.path ? ' after processing' : ''}`,
+        };
+      }
+    } catch (error) {
+      await this.discardCopy(processed, media);
+      logger.warn('Failed to process media', { path: media.path, type, error });
+      return { status: 422, error: 'The media file could not be processed; it may be damaged' };
+    }
+
+    // The processed copy replaces the original
+    if (processed.path !== media.path) {
+      await fs.unlink(media.path).catch(() => undefined);
+    }
+    return processed;
+  }
+
+  /**
+   * Shrink an image that is too large in pixels or bytes to a JPEG WhatsApp will not recompress much further
+   */
+  private static async compressImage(media: Media): Promise<Media> {
+    const sharp = await this.loadSharp();
+    // GIFs may be animated, which a JPEG cannot keep
+    if (!sharp || media.mimetype === 'image/gif') return media;
+
+    const { maxImageDimension, compressAboveBytes, jpegQuality } = this.config;
+    const { width = 0, height = 0 } = await sharp(media.path).metadata();
+    const { size } = await fs.stat(media.path);
+    if (Math.max(width, height) <= maxImageDimension && size <= compressAboveBytes) return media;
+
+    const output = `${stripExtension(media.path)}-compressed.jpg`;
+    const info = await sharp(media.path)
+      .rotate()
+      .resize({
+        width: maxImageDimension,
+        height: maxImageDimension,
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: jpegQuality })
+      .toFile(output);
+
+    logger.info('Compressed image', {
+      path: media.path,
+      from: { width, height, size },
+      to: { width: info.width, height: info.height, size: info.size },
+    });
+    return {
+      ...media,
+      path: output,
+      mimetype: 'image/jpeg',
+      ...(media.filename ? { filename: `${stripExtension(media.filename)}.jpg` } : {}),
+    };
+  }
+
+  /**
+   * Convert audio to mono ogg/opus with ffmpeg, the format WhatsApp plays as a voice note
+   */
+  private static async convertToVoiceNote(media: Media): Promise<Media | { status: number; error: string }> {
+    const output = `${stripExtension(media.path)}-voice.ogg`;
+    try {
+      await execFileAsync(
+        this.config.ffmpegPath,
+        ['-y', '-i', media.path, '-vn', '-ac', '1', '-ar', '48000', '-c:a', 'libopus', '-b:a', '32k', output],
+        { timeout: TOOL_TIMEOUT },
+      );
+    } catch (error) {
+      await fs.unlink(output).catch(() => undefined);
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {
+          status: 422,
+          error: 'Voice notes need ffmpeg on the server to convert this audio; send ogg/opus audio instead',
+        };
+      }
+      logger.warn('Failed to convert audio to a voice note', { path: media.path, error });
+      return { status: 422, error: 'The audio could not be converted to a voice note' };
+    }
+
+    logger.info('Converted audio to a voice note', { path: media.path, output });
+    return {
+      ...media,
+      path: output,
+      mimetype: VOICE_NOTE_MIME_TYPE,
+      voiceNote: true,
+      ...(media.filename ? { filename: `${stripExtension(media.filename)}.ogg` } : {}),
+    };
+  }
+
+  /**
+   * Render the first page of a PDF as a small base64 JPEG with pdftoppm
+   * @returns The thumbnail, or undefined if it could not be made; the document is sent without one
+   */
+  private static async renderPdfThumbnail(filePath: string): Promise<string | undefined> {
+    const prefix = `${stripExtension(filePath)}-thumbnail`;
+    try {
+      await execFileAsync(
+        this.config.pdftoppmPath,
+        [
+          '-jpeg',
+          '-jpegopt',
+          'quality=60',
+          '-f',
+          '1',
+          '-l',
+          '1',
+          '-scale-to',
+          String(THUMBNAIL_SIZE),
+          '-singlefile',
+          filePath,
+          prefix,
+        ],
+        { timeout: TOOL_TIMEOUT },
+      );
+      return (await fs.readFile(`${prefix}.jpg`)).toString('base64');
+    } catch (error) {
+      logger.warn('Failed to render PDF thumbnail, sending the document without one', {
+        path: filePath,
+        error: (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'pdftoppm is not installed' : error,
+      });
+      return undefined;
+    } finally {
+      await fs.unlink(`${prefix}.jpg`).catch(() => undefined);
+    }
+  }
+
+  private static async loadSharp(): Promise<typeof Sharp | null> {
+    if (this.sharp === undefined) {
+      try {
+        this.sharp = (await import('sharp')).default;
+      } catch (error) {
+        logger.warn('sharp is not available, images are sent without compression', { error });
+        this.sharp = null;
+      }
+    }
+    return this.sharp;
+  }
+
+  private static async readHead(filePath: string): Promise<Buffer> {
+    const file = await fs.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(SNIFF_BYTES);
+      const { bytesRead } = await file.read(buffer, 0, SNIFF_BYTES, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  }
+
+  // Delete a processed copy that will not be queued; the original is the caller's to delete
+  private static async discardCopy(processed: Media, original: Media): Promise<void> {
+    if (processed.path !== original.path) {
+      await fs.unlink(processed.path).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Load the pipeline settings from the environment
+   *
+   * - MEDIA_LIMIT_IMAGE_MB / _VIDEO_MB / _AUDIO_MB / _DOCUMENT_MB: WhatsApp's size limits (default 5 / 16 / 16 / 100)
+   * - IMAGE_MAX_DIMENSION: longest side of a compressed image in pixels (default 1600)
+   * - IMAGE_COMPRESS_ABOVE_KB: recompress images larger than this (default 1024)
+   * - IMAGE_JPEG_QUALITY: quality of compressed images, 1-100 (default 80)
+   * - FFMPEG_PATH / PDFTOPPM_PATH: the tools that convert voice notes and render PDF thumbnails
+   */
+  private static loadConfig(): MediaPipelineConfig {
+    const read = (name: string, fallback: number) => {
+      const value = Number(process.env[name]);
+      return process.env[name] && value > 0 ? value : fallback;
+    };
+    const mb = 1024 * 1024;
+
+    return {
+      sizeLimits: {
+        image: read('MEDIA_LIMIT_IMAGE_MB', 5) * mb,
+        video: read('MEDIA_LIMIT_VIDEO_MB', 16) * mb,
+        audio: read('MEDIA_LIMIT_AUDIO_MB', 16) * mb,
+        document: read('MEDIA_LIMIT_DOCUMENT_MB', 100) * mb,
+      },
+      maxImageDimension: Math.round(read('IMAGE_MAX_DIMENSION', 1600)),
+      compressAboveBytes: read('IMAGE_COMPRESS_ABOVE_KB', 1024) * 1024,
+      jpegQuality: Math.min(100, Math.round(read('IMAGE_JPEG_QUALITY', 80))),
+      ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+      pdftoppmPath: process.env.PDFTOPPM_PATH || 'pdftoppm',
+    };
+  }
+}
+
+function stripExtension(filePath: string): string {
+  return filePath.replace(/\.[^./\\]*$/, '');
+}
+
+function toMb(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '');
+}
@@ -0,0 +1,117 @@
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import http, { IncomingMessage, OutgoingHttpHeaders } from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Addresses a URL from an API client must not lead to: this machine, the local network and the
+// cloud metadata service at 169.254.169.254. IPv4-mapped IPv6 addresses match the IPv4 rules.
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4'); // Carrier-grade NAT
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4'); // Multicast and reserved
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+export interface PublicRequestOptions {
+  method?: string;
+  headers?: OutgoingHttpHeaders;
+  body?: string | Buffer;
+  signal?: AbortSignal;
+}
+
+export class NetworkUtil {
+  /**
+   * Whether an IP address is reachable on the public internet, rather than loopback,
+   * link-local, private or reserved
+   */
+  static isPublicAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) return false;
+    return !PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  /**
+   * Check that a URL is HTTP(S) and that every address its host resolves to is public
+   * @returns Why the URL may not be fetched, or undefined when it may
+   */
+  static async checkPublicUrl(url: string): Promise<string | undefined> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'URL is not valid';
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return 'URL must use http or https';
+    }
+
+    const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: { address: string }[];
+    try {
+      addresses = await lookup(hostname, { all: true, verbatim: true });
+    } catch {
+      return `Could not resolve ${hostname}`;
+    }
+
+    if (addresses.length === 0 || !addresses.every(({ address }) => this.isPublicAddress(address))) {
+      return `${hostname} is not a public address`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Request a URL that came from an API client, without following redirects. The host is resolved
+   * again as the socket connects and refused unless every address is public, so a name that passed
+   * checkPublicUrl cannot be re-pointed at this machine before the request goes out.
+   * @returns The response, with its body still to be read
+   */
+  static requestPublicUrl(url: string, options: PublicRequestOptions = {}): Promise<IncomingMessage> {
+    const { body, ...requestOptions } = options;
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+
+    // Sockets skip the lookup for an IP address, so check it here
+    if (isIP(hostname) !== 0 && !this.isPublicAddress(hostname)) {
+      return Promise.reject(new Error(`${hostname} is not a public address`));
+    }
+
+    const client = parsed.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.request(url, { ...requestOptions, lookup: lookupPublicAddress }, resolve);
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+}
+
+/**
+ * dns.lookup that fails unless every address of the host is public
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const first = addresses[0];
+    if (!first || !addresses.every(({ address }) => NetworkUtil.isPublicAddress(address))) {
+      callback(new Error(`${hostname} is not a public address`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
@@ -1,105 +1,131 @@
-import { parsePhoneNumber, isValidPhoneNumber } from 'libphonenumber-js';
+import { parsePhoneNumberFromString, isSupportedCountry, CountryCode } from 'libphonenumber-js';
+import logger from './logger';
+
+export interface PhoneNumberConfig {
+  /** Countries numbers may belong to */
+  allowedCountries: CountryCode[];
+  /** Region assumed first for numbers written without a country code */
+  defaultCountry: CountryCode;
+  /** Order in which the remaining allowed regions are tried for national numbers */
+  priority: CountryCode[];
+}
+
+const GROUP_JID_PATTERN = /^\d{5,}(-\d+)?@g\.us$/;
 
 export class PhoneNumberUtil {
+  private static config: PhoneNumberConfig = PhoneNumberUtil.loadConfig();
+
+  /**
+   * Replace part of the parser configuration
+   * @param config - The settings to change
+   */
+  static configure(config: Partial<PhoneNumberConfig>): void {
+    const allowedCountries = config.allowedCountries ?? this.config.allowedCountries;
+    const defaultCountry = config.defaultCountry ?? this.config.defaultCountry;
+
+    this.config = {
+      allowedCountries,
+      defaultCountry: allowedCountries.includes(defaultCountry) ? defaultCountry : allowedCountries[0]!,
+      priority: (config.priority ?? this.config.priority).filter((country) =>
+        allowedCountries.includes(country),
+      ),
+    };
+  }
+
   /**
-   * Parse and validate a phone number, converting it to Saudi or Egyptian format
+   * Get the allowed countries as ISO 3166-1 alpha-2 codes
+   */
+  static getAllowedCountries(): CountryCode[] {
+    return [...this.config.allowedCountries];
+  }
+
+  /**
+   * Check whether a country code is in the allow-list
+   * @param country - ISO 3166-1 alpha-2 code, case-insensitive
+   */
+  static isAllowedCountry(country: string): country is CountryCode {
+    return this.config.allowedCountries.includes(country.toUpperCase() as CountryCode);
+  }
+
+  /**
+   * Parse and validate a phone number from one of the allowed countries
    * @param phoneNumber - The phone number string to parse
-   * @returns Formatted phone number or null if invalid
+   * @param countryHint - Region to read national numbers in, overriding the priority order
+   * @returns E.164 formatted phone number or null if invalid
    */
-  static parseSaudiOrEgyptianNumber(phoneNumber: string): string | null {
+  static parseNumber(phoneNumber: string, countryHint?: string): string | null {
     try {
-      // Clean the input
-      const cleaned = phoneNumber.replace(/[^\d+]/g, '');
+      // Clean the input and treat a 00 international prefix like +
+      const cleaned = phoneNumber.replace(/[^\d+]/g, '').replace(/^00/, '+');
 
-      // Try different formats for Saudi and Egyptian numbers
-      const possibleFormats = this.generatePossibleFormats(cleaned);
+      if (countryHint) {
+        const hint = countryHint.toUpperCase();
+        return this.isAllowedCountry(hint) ? this.parseIn(cleaned, hint) : null;
+      }
 
-      for (const format of possibleFormats) {
-        if (isValidPhoneNumber(format)) {
-          const parsed = parsePhoneNumber(format);
+      if (cleaned.startsWith('+')) {
+        return this.parseIn(cleaned);
+      }
 
-          // Check if it's a Saudi or Egyptian number
-          if (parsed.country === 'SA' || parsed.country === 'EG') {
-            return parsed.format('E.164');
-          }
+      // National formats, tried region by region in priority order
+      for (const country of this.getRegionOrder()) {
+        const parsed = parsePhoneNumberFromString(cleaned, country);
+        if (parsed && parsed.isValid() && parsed.country === country) {
+          return parsed.format('E.164');
         }
       }
 
-      return null;
+      // International format written without the leading +
+      return this.parseIn('+' + cleaned);
     } catch (error) {
       return null;
     }
   }
 
   /**
-   * Generate possible phone number formats for Saudi and Egyptian numbers
-   */
-  private static generatePossibleFormats(cleaned: string): string[] {
-    const formats: string[] = [];
-
-    // If it already has a country code, try as is
-    if (cleaned.startsWith('+')) {
-      formats.push(cleaned);
-    }
-
-    // Saudi formats
-    if (cleaned.startsWith('0')) {
-      // Remove leading 0 and add +966
-      formats.push('+966' + cleaned.substring(1));
-    } else if (cleaned.startsWith('966')) {
-      formats.push('+' + cleaned);
-    } else if (cleaned.length === 9 && !cleaned.startsWith('+')) {
-      // If it's 9 digits without country code, assume Saudi
-      formats.push('+966' + cleaned);
-    }
-
-    // Egyptian formats
-    if (cleaned.startsWith('0')) {
-      // Remove leading 0 and add +20
-      formats.push('+20' + cleaned.substring(1));
-    } else if (cleaned.startsWith('20')) {
-      formats.push('+' + cleaned);
-    } else if (cleaned.length === 10 && !cleaned.startsWith('+')) {
-      // If it's 10 digits without country code, assume Egyptian
-      formats.push('+20' + cleaned);
-    }
-
-    return formats;
-  }
-
-  /**
-   * Check if a phone number is valid Saudi or Egyptian number
+   * Check if a phone number is valid for one of the allowed countries
    * @param phoneNumber - The phone number to validate
    * @returns boolean indicating if valid
    */
-  static isValidSaudiOrEgyptianNumber(phoneNumber: string): boolean {
-    return this.parseSaudiOrEgyptianNumber(phoneNumber) !== null;
+  static isValidNumber(phoneNumber: string): boolean {
+    return this.parseNumber(phoneNumber) !== null;
   }
 
   /**
    * Get the country code for a phone number
    * @param phoneNumber - The phone number to check
-   * @returns 'SA' for Saudi, 'EG' for Egyptian, or null if invalid
+   * @returns ISO 3166-1 alpha-2 country code, or null if invalid
    */
-  static getCountryCode(phoneNumber: string): 'SA' | 'EG' | null {
+  static getCountryCode(phoneNumber: string): CountryCode | null {
+    if (this.isGroupJid(phoneNumber)) return null;
+
     try {
-      const parsed = this.parseSaudiOrEgyptianNumber(phoneNumber);
+      const parsed = this.parseNumber(phoneNumber);
       if (!parsed) return null;
 
-      const phoneData = parsePhoneNumber(parsed);
-      return phoneData.country as 'SA' | 'EG';
+      return parsePhoneNumberFromString(parsed)?.country ?? null;
     } catch (error) {
       return null;
     }
   }
 
   /**
-   * Format phone number for WhatsApp (remove + and add @s.whatsapp.net)
+   * Check whether a recipient is a WhatsApp group JID rather than a phone number
+   * @param recipient - e.g. "120363025246125486@g.us", or "966501234567-1592563829@g.us" for older groups
+   */
+  static isGroupJid(recipient: string): boolean {
+    return GROUP_JID_PATTERN.test(recipient);
+  }
+
+  /**
+   * Format phone number for WhatsApp (remove + and add @s.whatsapp.net); group JIDs are returned as they are
    * @param phoneNumber - The phone number to format
    * @returns WhatsApp formatted number or null if invalid
    */
   static formatForWhatsApp(phoneNumber: string): string | null {
-    const parsed = this.parseSaudiOrEgyptianNumber(phoneNumber);
+    if (this.isGroupJid(phoneNumber)) return phoneNumber;
+
+    const parsed = this.parseNumber(phoneNumber);
     if (!parsed) return null;
 
     // Remove + and add @s.whatsapp.net
@@ -113,11 +139,10 @@ export class PhoneNumberUtil {
    */
   static getDisplayNumber(phoneNumber: string): string | null {
     try {
-      const parsed = this.parseSaudiOrEgyptianNumber(phoneNumber);
+      const parsed = this.parseNumber(phoneNumber);
       if (!parsed) return null;
 
-      const phoneData = parsePhoneNumber(parsed);
-      return phoneData.formatNational();
+      return parsePhoneNumberFromString(parsed)?.formatNational() ?? null;
     } catch (error) {
       return null;
     }
@@ -142,4 +167,59 @@ export class PhoneNumberUtil {
     const country = this.getCountryCode(phoneNumber);
     return country === 'EG';
   }
+
+  /**
+   * Parse a number, optionally reading it as a national number of the given region,
+   * and accept it only if it is valid and belongs to an allowed country
+   */
+  private static parseIn(cleaned: string, country?: CountryCode): string | null {
+    const parsed = parsePhoneNumberFromString(cleaned, country);
+    if (!parsed || !parsed.isValid() || !parsed.country) return null;
+
+    return this.config.allowedCountries.includes(parsed.country) ? parsed.format('E.164') : null;
+  }
+
+  /**
+   * Default region first, then the configured priority, then any remaining allowed regions
+   */
+  private static getRegionOrder(): CountryCode[] {
+    const { defaultCountry, priority, allowedCountries } = this.config;
+    return Array.from(new Set([defaultCountry, ...priority, ...allowedCountries]));
+  }
+
+  /**
+   * Read the configuration from the environment
+   *
+   * - PHONE_ALLOWED_COUNTRIES: comma-separated ISO codes (default "SA,EG")
+   * - PHONE_DEFAULT_COUNTRY: region assumed first (default: first allowed country)
+   * - PHONE_COUNTRY_PRIORITY: comma-separated order for the remaining regions (default: allowed order)
+   */
+  private static loadConfig(): PhoneNumberConfig {
+    const parseList = (value: string | undefined): CountryCode[] =>
+      (value || '')
+        .split(',')
+        .map((country) => country.trim().toUpperCase())
+        .filter((country): country is CountryCode => {
+          if (!country) return false;
+          if (!isSupportedCountry(country)) {
+            logger.warn('Ignoring unsupported country code in phone configuration', { country });
+            return false;
+          }
+          return true;
+        });
+
+    const configured = parseList(process.env.PHONE_ALLOWED_COUNTRIES);
+    const allowedCountries: CountryCode[] = configured.length > 0 ? configured : ['SA', 'EG'];
+    const [defaultCountry] = parseList(process.env.PHONE_DEFAULT_COUNTRY);
+    const priority = parseList(process.env.PHONE_COUNTRY_PRIORITY);
+
+    return {
+      allowedCountries,
+      defaultCountry:
+        defaultCountry && allowedCountries.includes(defaultCountry) ? defaultCountry : allowedCountries[0]!,
+      priority: (priority.length > 0 ? priority : allowedCountries).filter((country) =>
+        allowedCountries.includes(country),
+      ),
+    };
+  }
 }
@@ -0,0 +1,111 @@
+import logger from './logger';
+
+export interface QueueLane {
+  name: string;
+  /** Share of sends the lane gets while other lanes are also waiting */
+  weight: number;
+  /** Random pause before each of the lane's messages; the throttle policy's when unset */
+  minDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface QueueLaneConfig {
+  lanes: QueueLane[];
+  /** Lane of messages that do not pick one */
+  defaultLane: string;
+}
+
+const LANE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+const DEFAULT_LANES: QueueLane[] = [
+  { name: 'otp', weight: 10, minDelayMs: 500, maxDelayMs: 1500 },
+  { name: 'transactional', weight: 5 },
+  { name: 'marketing', weight: 1 },
+];
+
+export class QueueLaneUtil {
+  private static config: QueueLaneConfig = QueueLaneUtil.loadConfig();
+
+  /**
+   * Replace part of the lane configuration
+   * @param config - The settings to change
+   */
+  static configure(config: Partial<QueueLaneConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * List the configured lanes, heaviest first
+   */
+  static getLanes(): QueueLane[] {
+    return [...this.config.lanes].sort((a, b) => b.weight - a.weight);
+  }
+
+  /**
+   * Get a lane by name
+   * @param name - Lane name; the default lane when omitted
+   * @returns The lane, or null if no lane has that name
+   */
+  static getLane(name?: string): QueueLane | null {
+    const laneName = name ?? this.config.defaultLane;
+    return this.config.lanes.find((lane) => lane.name === laneName) ?? null;
+  }
+
+  /**
+   * Name of the lane used when a message does not pick one
+   */
+  static getDefaultLane(): string {
+    return this.config.defaultLane;
+  }
+
+  /**
+   * Parse a requested message priority
+   * @returns An integer, or null if the value is not one
+   */
+  static parsePriority(value: unknown): number | null {
+    const priority = typeof value === 'string' && value.trim() ? Number(value) : value;
+    return typeof priority === 'number' && Number.isInteger(priority) ? priority : null;
+  }
+
+  /**
+   * Load the lanes from the environment
+   *
+   * - QUEUE_LANES: comma-separated `name=weight` or `name=weight:minDelayMs-maxDelayMs` entries,
+   *   e.g. "otp=10:500-1500,transactional=5,marketing=1:3000-8000"
+   * - QUEUE_DEFAULT_LANE: lane for messages that do not pick one (default "transactional", or the
+   *   first configured lane)
+   */
+  private static loadConfig(): QueueLaneConfig {
+    const lanes: QueueLane[] = [];
+
+    for (const entry of (process.env.QUEUE_LANES || '').split(',')) {
+      if (!entry.trim()) continue;
+
+      const match = entry.trim().match(/^([^=]+)=(\d+)(?::(\d+)-(\d+))?$/);
+      const name = match?.[1]?.trim().toLowerCase();
+      if (!match || !name || !LANE_NAME_PATTERN.test(name) || Number(match[2]) <= 0) {
+        logger.warn('Ignoring malformed queue lane', { entry });
+        continue;
+      }
+
+      const lane: QueueLane = { name, weight: Number(match[2]) };
+      if (match[3] && match[4]) {
+        lane.minDelayMs = Number(match[3]);
+        lane.maxDelayMs = Math.max(Number(match[3]), Number(match[4]));
+      }
+      lanes.push(lane);
+    }
+
+    const configured = lanes.length > 0 ? lanes : DEFAULT_LANES;
+    const requestedDefault = process.env.QUEUE_DEFAULT_LANE?.trim().toLowerCase() || 'transactional';
+    const defaultLane = configured.some((lane) => lane.name === requestedDefault)
+      ? requestedDefault
+      : configured[0]!.name;
+
+    if (process.env.QUEUE_DEFAULT_LANE && defaultLane !== requestedDefault) {
+      logger.warn('Default queue lane is not configured', { lane: requestedDefault, using: defaultLane });
+    }
+
+    return { lanes: configured, defaultLane };
+  }
+}
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+import * as XLSX from 'xlsx';
+
+export interface RecipientSheet {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export class RecipientSheetUtil {
+  /**
+   * Read the first worksheet of a CSV or Excel file
+   * @param filePath - Path of the uploaded file
+   * @param originalName - Name the file was uploaded with, used to detect CSV
+   * @returns Column headers and one object per data row, keyed by header
+   */
+  static read(filePath: string, originalName: string): RecipientSheet {
+    const isCsv = path.extname(originalName).toLowerCase() === '.csv';
+
+    // Read CSV as UTF-8 text so Arabic names survive; let xlsx detect everything else
+    const workbook = isCsv
+      ? XLSX.read(fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, ''), { type: 'string' })
+      : XLSX.readFile(filePath);
+
+    const sheetName = workbook.SheetNames[0];
+    const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+    if (!sheet) {
+      return { columns: [], rows: [] };
+    }
+
+    const [header = [], ...data] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      defval: '',
+      raw: false,
+      blankrows: false,
+    });
+    const columns = header.map((column) => String(column).trim());
+
+    const rows = data.map((cells) => {
+      const row: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        if (column) {
+          row[column] = String(cells[index] ?? '').trim();
+        }
+      });
+      return row;
+    });
+
+    return { columns, rows };
+  }
+
+  /**
+   * Find a column by name, ignoring case and surrounding spaces
+   * @param columns - Column headers of the sheet
+   * @param candidates - Names to look for, in order of preference
+   * @returns The matching header or null
+   */
+  static findColumn(columns: string[], candidates: string[]): string | null {
+    for (const candidate of candidates) {
+      const match = columns.find((column) => column.toLowerCase() === candidate.trim().toLowerCase());
+      if (match) return match;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,91 @@
+import { isBoom } from '@hapi/boom';
+import { SendErrorClass } from '../types';
+
+export interface RetryPolicy {
+  /** Failed attempts of each class after which a message fails for good; a dropped connection never counts */
+  maxAttempts: Record<Exclude<SendErrorClass, 'reconnect'>, number>;
+  /** Backoff before the first retry; it doubles with every further failure */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Status codes Baileys uses for a dead or replaced connection (see DisconnectReason)
+const RECONNECT_STATUS_CODES = [401, 408, 428, 440, 500, 503, 515];
+// Status codes for requests WhatsApp will never accept as they are
+const PERMANENT_STATUS_CODES = [400, 403, 404, 406];
+
+const RECONNECT_PATTERN = /not connected|connection (closed|lost|failure)|stream errored|timed out|socket/i;
+const PERMANENT_PATTERN =
+  /invalid phone number|not on whatsapp|not-acceptable|forbidden|item-not-found|ENOENT/i;
+
+export class RetryPolicyUtil {
+  private static policy: RetryPolicy = RetryPolicyUtil.loadConfig();
+
+  /**
+   * Replace part of the retry policy
+   * @param policy - The settings to change
+   */
+  static configure(policy: Partial<RetryPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  /**
+   * Judge whether a failed send is worth repeating
+   * @param error - The error thrown while sending, or its message
+   */
+  static classify(error: unknown): SendErrorClass {
+    // Baileys throws Boom errors, which carry the status code WhatsApp answered with
+    const statusCode = isBoom(error) ? error.output.statusCode : undefined;
+    const message = error instanceof Error ? error.message : String(error ?? '');
+
+    if ((statusCode && RECONNECT_STATUS_CODES.includes(statusCode)) || RECONNECT_PATTERN.test(message)) {
+      return 'reconnect';
+    }
+    if ((statusCode && PERMANENT_STATUS_CODES.includes(statusCode)) || PERMANENT_PATTERN.test(message)) {
+      return 'permanent';
+    }
+    return 'retryable';
+  }
+
+  /**
+   * Failed attempts of a class after which a message fails for good
+   */
+  static getMaxAttempts(errorClass: Exclude<SendErrorClass, 'reconnect'>): number {
+    return this.policy.maxAttempts[errorClass];
+  }
+
+  /**
+   * Exponential backoff with jitter: between half and all of base * 2^(failures - 1), capped
+   * @param failures - Failed attempts so far, at least 1
+   */
+  static getBackoff(failures: number): number {
+    const ceiling = Math.min(
+      this.policy.maxDelayMs,
+      this.policy.baseDelayMs * 2 ** Math.max(0, failures - 1),
+    );
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  /**
+   * Load the policy from the environment
+   *
+   * - RETRY_MAX_ATTEMPTS: attempts for transient failures (default 3)
+   * - RETRY_MAX_ATTEMPTS_PERMANENT: attempts for failures judged permanent (default 1)
+   * - RETRY_BASE_DELAY_MS / RETRY_MAX_DELAY_MS: backoff bounds (default 5000 / 600000)
+   */
+  private static loadConfig(): RetryPolicy {
+    const read = (name: string, fallback: number, min: number) => {
+      const value = Number(process.env[name]);
+      return process.env[name] && Number.isInteger(value) && value >= min ? value : fallback;
+    };
+
+    return {
+      maxAttempts: {
+        retryable: read('RETRY_MAX_ATTEMPTS', 3, 1),
+        permanent: read('RETRY_MAX_ATTEMPTS_PERMANENT', 1, 1),
+      },
+      baseDelayMs: read('RETRY_BASE_DELAY_MS', 5000, 0),
+      maxDelayMs: read('RETRY_MAX_DELAY_MS', 10 * 60 * 1000, 0),
+    };
+  }
+}
@@ -0,0 +1,232 @@
+import { CountryCode } from 'libphonenumber-js';
+import { PhoneNumberUtil } from './phoneNumber';
+import logger from './logger';
+
+export interface QuietHours {
+  /** Minutes after local midnight when sending stops */
+  start: number;
+  /** Minutes after local midnight when sending resumes; may be earlier than start to span midnight */
+  end: number;
+}
+
+export interface SendWindowConfig {
+  /** Quiet hours by country; the "*" entry applies to countries without their own */
+  quietHours: Record<string, QuietHours>;
+  /** IANA time zone by country, used for quiet hours and local send times */
+  timeZones: Record<string, string>;
+}
+
+const DEFAULT_TIME_ZONES: Record<string, string> = {
+  SA: 'Asia/Riyadh',
+  EG: 'Africa/Cairo',
+  AE: 'Asia/Dubai',
+  KW: 'Asia/Kuwait',
+  QA: 'Asia/Qatar',
+  BH: 'Asia/Bahrain',
+  OM: 'Asia/Muscat',
+  JO: 'Asia/Amman',
+  LB: 'Asia/Beirut',
+  IQ: 'Asia/Baghdad',
+  SY: 'Asia/Damascus',
+  PS: 'Asia/Hebron',
+  YE: 'Asia/Aden',
+  SD: 'Africa/Khartoum',
+  LY: 'Africa/Tripoli',
+  TN: 'Africa/Tunis',
+  DZ: 'Africa/Algiers',
+  MA: 'Africa/Casablanca',
+  TR: 'Europe/Istanbul',
+  PK: 'Asia/Karachi',
+  IN: 'Asia/Kolkata',
+  GB: 'Europe/London',
+};
+
+/** Year, month (1-12), day, hour, minute, second */
+type DateTimeParts = [number, number, number, number, number, number];
+
+export class SendWindowUtil {
+  private static config: SendWindowConfig = SendWindowUtil.loadConfig();
+
+  /**
+   * Replace part of the send window configuration
+   * @param config - The settings to change
+   */
+  static configure(config: Partial<SendWindowConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get the time zone of a country
+   * @param country - ISO 3166-1 alpha-2 code
+   * @returns IANA time zone, or null if none is known
+   */
+  static getTimeZone(country: CountryCode | string | null): string | null {
+    if (!country) return null;
+    return this.config.timeZones[country.toUpperCase()] ?? null;
+  }
+
+  /**
+   * Find countries that quiet hours apply to but that have no time zone; quiet hours are not
+   * enforced for them
+   * @param countries - ISO 3166-1 alpha-2 codes, such as the allowed countries
+   */
+  static getCountriesWithoutTimeZone(countries: string[]): string[] {
+    return countries.filter(
+      (country) =>
+        !!(this.config.quietHours[country.toUpperCase()] || this.config.quietHours['*']) &&
+        !this.getTimeZone(country),
+    );
+  }
+
+  /**
+   * Check whether a string names a time zone this runtime knows
+   */
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Parse a requested send time
+   * @param value - Epoch milliseconds, an ISO 8601 timestamp with an offset, or a local
+   *   date-time such as "2024-05-01T09:00" that is read in the given time zone
+   * @param timeZone - Zone for local date-times; without one the server's zone is used
+   * @returns Epoch milliseconds or null if the value cannot be read
+   */
+  static parseSendAt(value: unknown, timeZone?: string | null): number | null {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value : null;
+    }
+    if (typeof value !== 'string' || !value.trim()) return null;
+
+    const text = value.trim();
+    if (/^\d+$/.test(text)) {
+      return Number(text);
+    }
+
+    const local = text.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+    if (local && timeZone) {
+      const [, year, month, day, hour, minute, second = '0'] = local;
+      return this.zonedTimeToEpoch(
+        [year, month, day, hour, minute, second].map(Number) as DateTimeParts,
+        timeZone,
+      );
+    }
+
+    const parsed = Date.parse(text);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+
+  /**
+   * Get the earliest time at or after `at` that falls outside the recipient's quiet hours
+   * @param phoneNumber - Recipient in any format PhoneNumberUtil accepts
+   * @param at - Epoch milliseconds
+   */
+  static getNextSendTime(phoneNumber: string, at: number): number {
+    const country = PhoneNumberUtil.getCountryCode(phoneNumber);
+    const quietHours = (country && this.config.quietHours[country]) || this.config.quietHours['*'];
+    const timeZone = this.getTimeZone(country);
+    if (!quietHours || !timeZone) return at;
+
+    const [year, month, day, hour, minute] = this.getLocalParts(at, timeZone);
+    const minutes = hour * 60 + minute;
+    if (!this.isQuiet(minutes, quietHours)) return at;
+
+    // Quiet hours end later today, or tomorrow if they started before midnight. Converting the
+    // wall-clock end keeps it right when a DST change falls inside the quiet period.
+    const endDay = minutes >= quietHours.end ? day + 1 : day;
+    return this.zonedTimeToEpoch(
+      [year, month, endDay, Math.floor(quietHours.end / 60), quietHours.end % 60, 0],
+      timeZone,
+    );
+  }
+
+  private static isQuiet(minutes: number, quietHours: QuietHours): boolean {
+    const { start, end } = quietHours;
+    return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  }
+
+  private static getLocalParts(at: number, timeZone: string): DateTimeParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(at));
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+    return [get('year'), get('month'), get('day'), get('hour'), get('minute'), get('second')];
+  }
+
+  /**
+   * Convert a wall-clock time in a time zone to epoch milliseconds
+   */
+  private static zonedTimeToEpoch(
+    [year, month, day, hour, minute, second]: DateTimeParts,
+    timeZone: string,
+  ): number {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+    const offsetAt = (at: number) => {
+      const [y, mo, d, h, mi, s] = this.getLocalParts(at, timeZone);
+      return Date.UTC(y, mo - 1, d, h, mi, s) - at;
+    };
+
+    // The offset can differ on either side of a DST change, so correct once with the offset at the guess
+    const guess = wallClock - offsetAt(wallClock);
+    return wallClock - offsetAt(guess);
+  }
+
+  /**
+   * Read the configuration from the environment
+   *
+   * - QUIET_HOURS: comma-separated COUNTRY=HH:MM-HH:MM entries, "*" for every other country
+   *   (e.g. "*=22:00-08:00,EG=23:00-09:00"); unset means no quiet hours
+   * - COUNTRY_TIMEZONES: comma-separated COUNTRY=Area/City overrides for the built-in zones
+   */
+  private static loadConfig(): SendWindowConfig {
+    const parseEntries = (value: string | undefined): [string, string][] =>
+      (value || '')
+        .split(',')
+        .map((entry) => entry.split('=').map((part) => part.trim()))
+        .filter((entry): entry is [string, string] => {
+          if (entry.length === 2 && entry[0] && entry[1]) return true;
+          if (entry.join('')) {
+            logger.warn('Ignoring malformed send window entry', { entry: entry.join('=') });
+          }
+          return false;
+        });
+
+    const quietHours: Record<string, QuietHours> = {};
+    for (const [country, range] of parseEntries(process.env.QUIET_HOURS)) {
+      const match = range.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+      if (!match) {
+        logger.warn('Ignoring malformed quiet hours', { country, range });
+        continue;
+      }
+      const [, startHour, startMinute, endHour, endMinute] = match.map(Number) as number[];
+      quietHours[country.toUpperCase()] = {
+        start: startHour! * 60 + startMinute!,
+        end: endHour! * 60 + endMinute!,
+      };
+    }
+
+    const timeZones = { ...DEFAULT_TIME_ZONES };
+    for (const [country, timeZone] of parseEntries(process.env.COUNTRY_TIMEZONES)) {
+      if (!this.isValidTimeZone(timeZone)) {
+        logger.warn('Ignoring unknown time zone', { country, timeZone });
+        continue;
+      }
+      timeZones[country.toUpperCase()] = timeZone;
+    }
+
+    return { quietHours, timeZones };
+  }
+}
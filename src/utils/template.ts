@@ -0,0 +1,38 @@
+export class TemplateUtil {
+  private static placeholderPattern = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+  /**
+   * List the distinct placeholder names used in a template
+   * @param template - Text containing {{name}} placeholders
+   * @returns Placeholder names in order of first use
+   */
+  static getPlaceholders(template: string): string[] {
+    const names = Array.from(template.matchAll(this.placeholderPattern), (match) => match[1]!);
+    return Array.from(new Set(names));
+  }
+
+  /**
+   * Replace {{name}} placeholders with values, matching names case-insensitively
+   * @param template - Text containing {{name}} placeholders
+   * @param values - Values keyed by placeholder name
+   * @returns The rendered text and the placeholders that had no value
+   */
+  static render(template: string, values: Record<string, unknown>): { text: string; missing: string[] } {
+    const lookup = new Map<string, unknown>();
+    for (const [key, value] of Object.entries(values)) {
+      lookup.set(key.trim().toLowerCase(), value);
+    }
+
+    const missing = new Set<string>();
+    const text = template.replace(this.placeholderPattern, (placeholder, name: string) => {
+      const value = lookup.get(name.toLowerCase());
+      if (value === undefined || value === null || String(value).trim() === '') {
+        missing.add(name);
+        return placeholder;
+      }
+      return String(value);
+    });
+
+    return { text, missing: Array.from(missing) };
+  }
+}
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApiKeyService, BOOTSTRAP_CLIENT_ID } from '../../src/services/ApiKeyService';
+
+describe('ApiKeyService', () => {
+  let dir: string;
+  let journalPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keys-'));
+    journalPath = path.join(dir, 'keys.journal');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores only a hash of the key', () => {
+    const { apiKey, key } = new ApiKeyService(journalPath).create('ERP', ['send']);
+
+    expect(key).toMatch(/^wak_/);
+    expect(apiKey.keyHash).toBe(createHash('sha256').update(key).digest('hex'));
+    expect(apiKey.prefix).toBe(key.slice(0, 12));
+    expect(fs.readFileSync(journalPath, 'utf8')).not.toContain(key);
+  });
+
+  it('authenticates a key, also after a restart', () => {
+    const { apiKey, key } = new ApiKeyService(journalPath).create('ERP', ['send', 'read-status']);
+
+    const restarted = new ApiKeyService(journalPath);
+    expect(restarted.authenticate(key)).toMatchObject({ id: apiKey.id, scopes: ['send', 'read-status'] });
+    expect(restarted.authenticate(key)).not.toHaveProperty('keyHash');
+    expect(restarted.authenticate(`${key}x`)).toBeNull();
+  });
+
+  describe('bootstrap key', () => {
+    it('authenticates as an admin without a stored record', () => {
+      const service = new ApiKeyService(journalPath, 'bootstrap-secret');
+
+      expect(service.hasKeys()).toBe(true);
+      expect(service.authenticate('bootstrap-secret')).toMatchObject({
+        id: BOOTSTRAP_CLIENT_ID,
+        scopes: ['admin'],
+      });
+      expect(service.list()).toEqual([]);
+    });
+
+    it('refuses other keys, including ones of another length', () => {
+      const service = new ApiKeyService(journalPath, 'bootstrap-secret');
+
+      expect(service.authenticate('bootstrap-secreT')).toBeNull();
+      expect(service.authenticate('b')).toBeNull();
+      expect(service.authenticate('')).toBeNull();
+    });
+
+    it('is off without ADMIN_API_KEY', () => {
+      const service = new ApiKeyService(journalPath);
+
+      expect(service.hasKeys()).toBe(false);
+      expect(service.authenticate('')).toBeNull();
+    });
+  });
+
+  it('replaces the secret on rotate, keeping the id and scopes', () => {
+    const service = new ApiKeyService(journalPath);
+    const { apiKey, key } = service.create('ERP', ['send']);
+
+    const rotated = service.rotate(apiKey.id);
+    expect(rotated?.key).not.toBe(key);
+    expect(rotated?.apiKey).toMatchObject({ id: apiKey.id, scopes: ['send'] });
+    expect(rotated?.apiKey.rotatedAt).toBeDefined();
+
+    expect(service.authenticate(key)).toBeNull();
+    expect(service.authenticate(rotated!.key)?.id).toBe(apiKey.id);
+    expect(new ApiKeyService(journalPath).authenticate(key)).toBeNull();
+  });
+
+  it('stops authenticating a revoked key but keeps its record', () => {
+    const service = new ApiKeyService(journalPath);
+    const { apiKey, key } = service.create('ERP', ['send']);
+
+    expect(service.revoke(apiKey.id)).toBe(true);
+    expect(service.authenticate(key)).toBeNull();
+    expect(service.revoke(apiKey.id)).toBe(false);
+    expect(service.rotate(apiKey.id)).toBeNull();
+
+    const restarted = new ApiKeyService(journalPath);
+    expect(restarted.authenticate(key)).toBeNull();
+    expect(restarted.hasKeys()).toBe(false);
+    expect(restarted.list()).toEqual([
+      expect.objectContaining({ id: apiKey.id, revokedAt: expect.any(Number) }),
+    ]);
+  });
+
+  it('lists keys without their hashes and callback secrets', () => {
+    const service = new ApiKeyService(journalPath);
+    const { apiKey } = service.create('ERP', ['send']);
+
+    const [listed] = service.list();
+    expect(listed).toMatchObject({ id: apiKey.id, name: 'ERP' });
+    expect(listed).not.toHaveProperty('keyHash');
+    expect(listed).not.toHaveProperty('callbackSecret');
+    expect(service.getCallbackSecret(apiKey.id)).toBe(apiKey.callbackSecret);
+    expect(service.getCallbackSecret(BOOTSTRAP_CLIENT_ID)).toBeUndefined();
+  });
+
+  it('lets admin grant every scope', () => {
+    expect(ApiKeyService.hasScope({ scopes: ['admin'] }, 'send')).toBe(true);
+    expect(ApiKeyService.hasScope({ scopes: ['read-status'] }, 'send')).toBe(false);
+  });
+});
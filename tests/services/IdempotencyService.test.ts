@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { IdempotencyService } from '../../src/services/IdempotencyService';
+
+const HOUR = 60 * 60 * 1000;
+const RECIPIENT = '+966501234567';
+
+describe('IdempotencyService', () => {
+  let dir: string;
+  let journalPath: string;
+  let services: IdempotencyService[];
+
+  const createService = (keyTtlHours = 24, contentWindowMinutes = 0) => {
+    const service = new IdempotencyService(journalPath, keyTtlHours, contentWindowMinutes);
+    services.push(service);
+    return service;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2024-05-01T12:00:00Z') });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'idempotency-'));
+    journalPath = path.join(dir, 'idempotency.journal');
+    services = [];
+  });
+
+  afterEach(() => {
+    services.forEach((service) => service.cleanup());
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fingerprints the recipient, text and media separately', () => {
+    const fingerprint = IdempotencyService.fingerprint(RECIPIENT, 'hello', 'upload:a.jpg:10');
+
+    expect(IdempotencyService.fingerprint(RECIPIENT, 'hello', 'upload:a.jpg:10')).toBe(fingerprint);
+    expect(IdempotencyService.fingerprint(RECIPIENT, 'hello')).not.toBe(fingerprint);
+    expect(IdempotencyService.fingerprint(RECIPIENT, 'hello\0upload:a.jpg:10')).not.toBe(fingerprint);
+  });
+
+  describe('keys', () => {
+    it('finds the message a key queued', () => {
+      const service = createService();
+      service.remember('message-1', { request: 'fingerprint' }, 'client-a', 'invoice-1');
+
+      expect(service.findByKey('client-a', 'invoice-1')).toMatchObject({
+        messageId: 'message-1',
+        fingerprint: 'fingerprint',
+      });
+      expect(service.findByKey('client-a', 'invoice-2')).toBeUndefined();
+    });
+
+    it('keeps the keys of two clients apart', () => {
+      const service = createService();
+      service.remember('message-1', { request: 'fingerprint' }, 'client-a', 'invoice-1');
+
+      expect(service.findByKey('client-b', 'invoice-1')).toBeUndefined();
+      expect(service.findByKey(undefined, 'invoice-1')).toBeUndefined();
+    });
+
+    it('forgets a key after its TTL', () => {
+      const service = createService(2);
+      service.remember('message-1', { request: 'fingerprint' }, 'client-a', 'invoice-1');
+
+      jest.setSystemTime(Date.now() + 2 * HOUR - 1);
+      expect(service.findByKey('client-a', 'invoice-1')).toBeDefined();
+      jest.setSystemTime(Date.now() + 1);
+      expect(service.findByKey('client-a', 'invoice-1')).toBeUndefined();
+    });
+
+    it('remembers keys across a restart, without the expired ones', () => {
+      const service = createService(2);
+      service.remember('message-1', { request: 'fingerprint' }, 'client-a', 'invoice-1');
+      jest.setSystemTime(Date.now() + HOUR);
+      service.remember('message-2', { request: 'fingerprint' }, 'client-a', 'invoice-2');
+      service.cleanup();
+
+      jest.setSystemTime(Date.now() + HOUR + 1);
+      const restarted = createService(2);
+      expect(restarted.findByKey('client-a', 'invoice-1')).toBeUndefined();
+      expect(restarted.findByKey('client-a', 'invoice-2')?.messageId).toBe('message-2');
+    });
+  });
+
+  describe('claims', () => {
+    it('lets one request at a time hold a key', () => {
+      const service = createService();
+
+      expect(service.claim('client-a', 'invoice-1')).toBe(true);
+      expect(service.claim('client-a', 'invoice-1')).toBe(false);
+      expect(service.claim('client-b', 'invoice-1')).toBe(true);
+
+      service.release('client-a', 'invoice-1');
+      expect(service.claim('client-a', 'invoice-1')).toBe(true);
+    });
+
+    it('does not survive a restart', () => {
+      createService().claim('client-a', 'invoice-1');
+      expect(createService().claim('client-a', 'invoice-1')).toBe(true);
+    });
+  });
+
+  describe('content', () => {
+    it('is not remembered while content dedupe is off', () => {
+      const service = createService();
+      service.remember('message-1', { request: 'request', content: 'content' }, 'client-a');
+
+      expect(service.dedupesContent()).toBe(false);
+      expect(service.findByContent('client-a', 'content')).toBeUndefined();
+    });
+
+    it('matches the same client within the window', () => {
+      const service = createService(24, 10);
+      service.remember('message-1', { request: 'request', content: 'content' }, 'client-a');
+
+      expect(service.findByContent('client-a', 'content')?.messageId).toBe('message-1');
+      expect(service.findByContent('client-b', 'content')).toBeUndefined();
+
+      jest.setSystemTime(Date.now() + 10 * 60 * 1000);
+      expect(service.findByContent('client-a', 'content')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MessageQueue } from '../../src/services/MessageQueue';
+import { MessageHistory } from '../../src/services/MessageHistory';
+import { MemoryQueueStore } from '../../src/services/QueueStore';
+import { RateLimiter } from '../../src/services/RateLimiter';
+import { MessageQueueItem } from '../../src/types';
+import { QueueLaneUtil } from '../../src/utils/queueLanes';
+import { RetryPolicyUtil } from '../../src/utils/retryPolicy';
+
+const RECIPIENT = '+966501234567';
+
+describe('MessageQueue', () => {
+  let dir: string;
+  let queue: MessageQueue;
+  // Messages handed to WhatsApp, in order
+  let sent: MessageQueueItem[];
+
+  /**
+   * Let the queue run for a while; every send it starts succeeds unless a test listens itself
+   */
+  const run = (ms = 5000) => jest.advanceTimersByTimeAsync(ms);
+
+  const createQueue = (autoSend = true) => {
+    const limiter = new RateLimiter({
+      ...RateLimiter.loadPolicy(),
+      minDelayMs: 0,
+      maxDelayMs: 0,
+      warmUpDays: 0,
+    });
+    queue = new MessageQueue(
+      new MemoryQueueStore(),
+      new MessageHistory(path.join(dir, 'history.journal')),
+      'default',
+      limiter,
+    );
+    sent = [];
+    queue.on('sendMessage', (item: MessageQueueItem) => {
+      sent.push(item);
+      if (autoSend) queue.markAsSent(item.id);
+    });
+    return queue;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2024-05-01T12:00:00Z') });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'queue-'));
+    QueueLaneUtil.configure({
+      lanes: [
+        { name: 'otp', weight: 3 },
+        { name: 'marketing', weight: 1 },
+      ],
+      defaultLane: 'marketing',
+    });
+  });
+
+  afterEach(() => {
+    queue.stop();
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('lanes', () => {
+    it('lets lanes take turns by weight', async () => {
+      createQueue().pause();
+      for (let i = 0; i < 6; i++) {
+        queue.addMessage(RECIPIENT, `otp ${i}`, undefined, { lane: 'otp' });
+        queue.addMessage(RECIPIENT, `marketing ${i}`, undefined, { lane: 'marketing' });
+      }
+
+      queue.resume();
+      await run();
+
+      // Three otp messages for every marketing one while both lanes wait
+      expect(sent.slice(0, 8).map((item) => item.lane)).toEqual([
+        'otp',
+        'marketing',
+        'otp',
+        'otp',
+        'otp',
+        'marketing',
+        'otp',
+        'otp',
+      ]);
+      expect(sent).toHaveLength(12);
+    });
+
+    it('sends the highest priority first within a lane, oldest first on a tie', async () => {
+      createQueue().pause();
+      queue.addMessage(RECIPIENT, 'low');
+      queue.addMessage(RECIPIENT, 'high', undefined, { priority: 5 });
+      queue.addMessage(RECIPIENT, 'high too', undefined, { priority: 5 });
+
+      queue.resume();
+      await run();
+
+      expect(sent.map((item) => item.message)).toEqual(['high', 'high too', 'low']);
+    });
+
+    it('sends messages of a lane that is no longer configured in the default lane', async () => {
+      createQueue().pause();
+      queue.addMessage(RECIPIENT, 'old lane', undefined, { lane: 'bulk' });
+
+      expect(queue.getStatus().lanes).toEqual({
+        otp: { pending: 0, scheduled: 0 },
+        marketing: { pending: 1, scheduled: 0 },
+      });
+      queue.resume();
+      await run();
+      expect(sent.map((item) => item.message)).toEqual(['old lane']);
+    });
+  });
+  describe('retries', () => {
+    beforeEach(() => {
+      RetryPolicyUtil.configure({
+        maxAttempts: { retryable: 2, permanent: 1 },
+        baseDelayMs: 1000,
+        maxDelayMs: 1000,
+      });
+    });
+
+    afterEach(() => {
+      RetryPolicyUtil.configure({
+        maxAttempts: { retryable: 3, permanent: 1 },
+        baseDelayMs: 5000,
+        maxDelayMs: 10 * 60 * 1000,
+      });
+    });
+
+    it('retries a transient failure after the backoff, then fails it for good', async () => {
+      const failed = jest.fn();
+      createQueue(false).on('messageFailed', failed);
+      const id = queue.addMessage(RECIPIENT, 'hello');
+      expect(sent).toHaveLength(1);
+
+      queue.markAsFailed(id, 'Media upload failed', 'retryable');
+      const retryAt = queue.getMessage(id)!.sendAt!;
+      expect(queue.getMessage(id)).toMatchObject({ status: 'pending', retryCount: 1 });
+      expect(retryAt - Date.now()).toBeGreaterThanOrEqual(500);
+      expect(queue.getStatus().scheduled).toBe(1);
+
+      await run(retryAt - Date.now() - 1);
+      expect(sent).toHaveLength(1);
+      await run(2);
+      expect(sent).toHaveLength(2);
+
+      queue.markAsFailed(id, 'Media upload failed', 'retryable');
+      expect(failed).toHaveBeenCalledTimes(1);
+      expect(queue.getMessage(id)).toMatchObject({ status: 'failed', retryCount: 2 });
+      expect(queue.getMessage(id)!.attempts.map((attempt) => attempt.errorClass)).toEqual([
+        'retryable',
+        'retryable',
+      ]);
+      expect(queue.getStatus()).toMatchObject({ pending: 0, failed: 1 });
+    });
+
+    it('fails a permanent error without retrying', async () => {
+      const failed = jest.fn();
+      createQueue(false).on('messageFailed', failed);
+      const id = queue.addMessage(RECIPIENT, 'hello');
+
+      queue.markAsFailed(id, 'Invalid phone number', 'permanent');
+      await run();
+
+      expect(failed).toHaveBeenCalledTimes(1);
+      expect(sent).toHaveLength(1);
+      expect(queue.getMessage(id)?.status).toBe('failed');
+    });
+
+    it('parks on a dropped connection without counting the attempt', async () => {
+      createQueue(false);
+      const id = queue.addMessage(RECIPIENT, 'hello');
+      const other = queue.addMessage(RECIPIENT, 'waiting');
+
+      queue.markAsFailed(id, 'Connection Closed', 'reconnect');
+      expect(queue.getStatus().parked).toBe(true);
+      expect(queue.getMessage(id)).toMatchObject({ status: 'pending' });
+      expect(queue.getMessage(id)!.sendAt).toBeUndefined();
+
+      // Nothing goes out while parked, however long it lasts
+      await run(60 * 60 * 1000);
+      expect(sent.map((item) => item.id)).toEqual([id]);
+
+      queue.start();
+      await run();
+      expect(queue.getStatus().parked).toBe(false);
+      expect(sent.map((item) => item.id)).toEqual([id, id, other]);
+
+      // Reconnect failures never use up the retryable attempts
+      for (let i = 0; i < 5; i++) {
+        queue.markAsFailed(id, 'Connection Closed', 'reconnect');
+        queue.start();
+        await run();
+      }
+      expect(sent.filter((item) => item.id === id)).toHaveLength(7);
+      expect(queue.getMessage(id)?.status).toBe('sending');
+    });
+  });
+  describe('controls', () => {
+    it('holds every message while paused', async () => {
+      createQueue().pause();
+      queue.addMessage(RECIPIENT, 'hello');
+      await run();
+
+      expect(sent).toHaveLength(0);
+      expect(queue.getStatus()).toMatchObject({ paused: true, pending: 1 });
+
+      queue.resume();
+      await run();
+      expect(sent).toHaveLength(1);
+      expect(queue.getStatus()).toMatchObject({ paused: false, pending: 0, completed: 1 });
+    });
+
+    it('stays paused when WhatsApp reconnects', async () => {
+      createQueue().pause();
+      queue.addMessage(RECIPIENT, 'hello');
+      queue.park();
+      queue.start();
+      await run();
+
+      expect(sent).toHaveLength(0);
+    });
+
+    it('cancels a waiting message', async () => {
+      const cancelled = jest.fn();
+      createQueue().pause();
+      queue.on('messageCancelled', cancelled);
+      const id = queue.addMessage(RECIPIENT, 'hello');
+
+      expect(queue.cancelMessage(id)).toMatchObject({ id, status: 'cancelled' });
+      expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ id }));
+      expect(queue.getItems()).toEqual([]);
+      expect(queue.getMessage(id)?.status).toBe('cancelled');
+
+      queue.resume();
+      await run();
+      expect(sent).toHaveLength(0);
+    });
+
+    it('cannot cancel a message that is being sent', () => {
+      createQueue(false);
+      const id = queue.addMessage(RECIPIENT, 'hello');
+
+      expect(queue.cancelMessage(id)).toBeNull();
+      expect(queue.getMessage(id)?.status).toBe('sending');
+    });
+
+    it('sends a message moved to the front before every other due message', async () => {
+      createQueue().pause();
+      queue.addMessage(RECIPIENT, 'otp', undefined, { lane: 'otp', priority: 9 });
+      queue.addMessage(RECIPIENT, 'first');
+      const last = queue.addMessage(RECIPIENT, 'last');
+
+      expect(queue.moveToFront(last)).toMatchObject({ id: last });
+      expect(queue.getItems().map((item) => item.message)).toEqual(['last', 'otp', 'first']);
+
+      queue.resume();
+      await run();
+      expect(sent.map((item) => item.message)).toEqual(['last', 'otp', 'first']);
+    });
+
+    it('reschedules a waiting message', async () => {
+      createQueue().pause();
+      const id = queue.addMessage(RECIPIENT, 'later');
+      const sendAt = Date.now() + 60 * 60 * 1000;
+
+      expect(queue.reschedule(id, sendAt)?.sendAt).toBe(sendAt);
+      queue.resume();
+      await run();
+      expect(sent).toHaveLength(0);
+      expect(queue.getStatus()).toMatchObject({ scheduled: 1, nextSendAt: sendAt });
+
+      queue.reschedule(id);
+      await run();
+      expect(sent.map((item) => item.id)).toEqual([id]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { RateLimiter, ThrottlePolicy } from '../../src/services/RateLimiter';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const NOW = Date.parse('2024-05-01T12:00:00Z');
+
+const policy = (overrides: Partial<ThrottlePolicy> = {}): ThrottlePolicy => ({
+  minDelayMs: 1000,
+  maxDelayMs: 5000,
+  perMinute: 0,
+  perHour: 0,
+  perDay: 0,
+  perRecipient: 0,
+  recipientWindowMs: HOUR,
+  warmUpDays: 0,
+  warmUpStartPerDay: 0,
+  ...overrides,
+});
+
+describe('RateLimiter', () => {
+  it('lets every message go right away without ceilings', () => {
+    const limiter = new RateLimiter(policy());
+    for (let i = 0; i < 100; i++) limiter.record('+966501234567', NOW - i);
+
+    expect(limiter.getNextSendTime(NOW)).toBe(NOW);
+    expect(limiter.getNextSendTimeFor('+966501234567', NOW)).toBe(NOW);
+    expect(limiter.getStatus(NOW).remaining).toEqual({ perMinute: null, perHour: null, perDay: null });
+  });
+
+  it('holds the next message until the send that filled the minute ages out', () => {
+    const limiter = new RateLimiter(policy({ perMinute: 2 }));
+    limiter.record('+966501234567', NOW - 40 * 1000);
+    limiter.record('+966501234568', NOW - 10 * 1000);
+
+    expect(limiter.getNextSendTime(NOW)).toBe(NOW + 20 * 1000);
+    expect(limiter.getStatus(NOW).remaining.perMinute).toBe(0);
+    expect(limiter.getNextSendTime(NOW + 20 * 1000)).toBe(NOW + 20 * 1000);
+  });
+
+  it('applies the strictest of the minute, hour and day ceilings', () => {
+    const limiter = new RateLimiter(policy({ perMinute: 10, perHour: 3, perDay: 100 }));
+    limiter.record('a', NOW - 50 * MINUTE);
+    limiter.record('b', NOW - 30 * MINUTE);
+    limiter.record('c', NOW - 5 * MINUTE);
+
+    expect(limiter.getNextSendTime(NOW)).toBe(NOW + 10 * MINUTE);
+    expect(limiter.getStatus(NOW).remaining).toEqual({ perMinute: 10, perHour: 0, perDay: 97 });
+  });
+
+  it('counts sends recorded out of order', () => {
+    const limiter = new RateLimiter(policy({ perHour: 2 }));
+    limiter.record('a', NOW - 10 * MINUTE);
+    limiter.record('b', NOW - 40 * MINUTE);
+
+    expect(limiter.getNextSendTime(NOW)).toBe(NOW + 20 * MINUTE);
+  });
+
+  it('caps messages per recipient without holding back others', () => {
+    const limiter = new RateLimiter(policy({ perRecipient: 1, recipientWindowMs: 30 * MINUTE }));
+    limiter.record('+966501234567', NOW - 10 * MINUTE);
+
+    expect(limiter.getNextSendTimeFor('+966501234567', NOW)).toBe(NOW + 20 * MINUTE);
+    expect(limiter.getNextSendTimeFor('+966501234568', NOW)).toBe(NOW);
+    expect(limiter.getNextSendTime(NOW)).toBe(NOW);
+  });
+
+  it('forgets sends older than a day', () => {
+    const limiter = new RateLimiter(policy({ perDay: 1 }));
+    limiter.record('a', NOW - DAY - 1);
+
+    expect(limiter.getNextSendTime(NOW)).toBe(NOW);
+    expect(limiter.getStatus(NOW).remaining.perDay).toBe(1);
+  });
+
+  describe('warm-up', () => {
+    const warmUp = policy({ perDay: 1000, warmUpDays: 3, warmUpStartPerDay: 50 });
+
+    it('doubles the daily ceiling each day after linking', () => {
+      const linkedAt = NOW - 2 * HOUR;
+      const limiter = new RateLimiter(warmUp, linkedAt);
+
+      expect(limiter.getStatus(NOW)).toMatchObject({ limits: { perDay: 50 }, warmUpDay: 1 });
+      expect(limiter.getStatus(linkedAt + DAY)).toMatchObject({ limits: { perDay: 100 }, warmUpDay: 2 });
+      expect(limiter.getStatus(linkedAt + 2 * DAY)).toMatchObject({ limits: { perDay: 200 }, warmUpDay: 3 });
+    });
+
+    it('ends after the warm-up days', () => {
+      const linkedAt = NOW - 3 * DAY;
+      const status = new RateLimiter(warmUp, linkedAt).getStatus(NOW);
+
+      expect(status.limits.perDay).toBe(1000);
+      expect(status.warmUpDay).toBeUndefined();
+    });
+
+    it('never raises a lower daily ceiling', () => {
+      const limiter = new RateLimiter({ ...warmUp, perDay: 30 }, NOW);
+      expect(limiter.getStatus(NOW).limits.perDay).toBe(30);
+    });
+
+    it('starts once the link time is known', () => {
+      const limiter = new RateLimiter(warmUp);
+      expect(limiter.getStatus(NOW).warmUpDay).toBeUndefined();
+
+      limiter.setLinkedAt(NOW);
+      for (let i = 0; i < 50; i++) limiter.record('a', NOW + i);
+      expect(limiter.getNextSendTime(NOW + 50)).toBe(NOW + DAY);
+    });
+  });
+
+  it('picks a pause within the given bounds', () => {
+    const limiter = new RateLimiter(policy());
+    for (let i = 0; i < 50; i++) {
+      const delay = limiter.getDelay({ minDelayMs: 200, maxDelayMs: 300 });
+      expect(delay).toBeGreaterThanOrEqual(200);
+      expect(delay).toBeLessThanOrEqual(300);
+    }
+    expect(limiter.getDelay({ minDelayMs: 500, maxDelayMs: 100 })).toBe(500);
+  });
+});
@@ -0,0 +1,154 @@
+import { createHmac } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebhookService, WebhookServiceOptions } from '../../src/services/WebhookService';
+
+const URL = 'https://erp.example.com/hooks/whatsapp';
+
+describe('WebhookService', () => {
+  let dir: string;
+  let service: WebhookService;
+  let fetchMock: jest.SpyInstance;
+
+  const run = (ms = 0) => jest.advanceTimersByTimeAsync(ms);
+
+  const createService = (options: Partial<WebhookServiceOptions> = {}) => {
+    service = new WebhookService({
+      subscriptionsPath: path.join(dir, 'subscriptions.journal'),
+      deliveriesPath: path.join(dir, 'deliveries.journal'),
+      maxAttempts: 3,
+      ...options,
+    });
+    return service;
+  };
+
+  const respond = (status: number) => fetchMock.mockResolvedValue(new Response(null, { status }));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2024-05-01T12:00:00Z') });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'));
+    fetchMock = jest.spyOn(global, 'fetch');
+    // The full backoff, without jitter
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    service.cleanup();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('signs the payload with the subscription secret', async () => {
+    respond(200);
+    createService().subscribe(URL, ['message.sent'], 'subscription-secret');
+
+    service.dispatch('message.sent', { id: 'message-1' });
+    await run();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, request] = fetchMock.mock.calls[0];
+    const payload = JSON.parse(request.body);
+    expect(url).toBe(URL);
+    expect(payload).toMatchObject({ event: 'message.sent', data: { id: 'message-1' } });
+    expect(request.headers).toMatchObject({
+      'X-Webhook-Id': payload.id,
+      'X-Webhook-Event': 'message.sent',
+      'X-Webhook-Signature':
+        'sha256=' + createHmac('sha256', 'subscription-secret').update(request.body).digest('hex'),
+    });
+  });
+
+  it('only delivers the events a subscription asked for', async () => {
+    respond(200);
+    createService().subscribe(URL, ['message.failed']);
+
+    service.dispatch('message.sent', { id: 'message-1' });
+    await run();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries with a doubling backoff, then moves the delivery to dead letters', async () => {
+    respond(500);
+    createService().subscribe(URL, ['message.sent']);
+
+    service.dispatch('message.sent', { id: 'message-1' });
+    await run();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await run(4999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await run(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await run(9999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await run(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await run(60 * 60 * 1000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(service.listDeadLetters()).toEqual([
+      expect.objectContaining({ status: 'dead', attempts: 3, lastError: 'HTTP 500' }),
+    ]);
+  });
+
+  it('replays a dead letter', async () => {
+    respond(500);
+    createService({ maxAttempts: 1 }).subscribe(URL, ['message.sent']);
+    service.dispatch('message.sent', { id: 'message-1' });
+    await run();
+    const [dead] = service.listDeadLetters();
+
+    respond(200);
+    expect(service.replay(dead!.id)).toBe(true);
+    await run();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].body).toBe(dead!.payload);
+    expect(service.listDeadLetters()).toEqual([]);
+    expect(service.replay(dead!.id)).toBe(false);
+  });
+
+  it('resumes deliveries that were retrying when the server stopped', async () => {
+    respond(500);
+    createService().subscribe(URL, ['message.sent']);
+    service.dispatch('message.sent', { id: 'message-1' });
+    await run();
+    service.cleanup();
+
+    respond(200);
+    createService();
+    await run(5000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(service.listDeadLetters()).toEqual([]);
+  });
+
+  describe('callback URLs', () => {
+    it("are signed with the API key's own secret or the shared one", () => {
+      createService({
+        callbackSecret: 'shared-secret',
+        clientCallbackSecret: (clientId) => (clientId === 'client-a' ? 'client-secret' : undefined),
+      });
+
+      expect(service.canSignCallbacks('client-a')).toBe(true);
+      expect(service.canSignCallbacks('client-b')).toBe(true);
+      expect(createService().canSignCallbacks('client-a')).toBe(false);
+    });
+
+    it('never reach this machine', async () => {
+      createService({ callbackSecret: 'shared-secret', maxAttempts: 1 });
+
+      service.dispatch('message.sent', { id: 'message-1' }, { callbackUrl: 'http://127.0.0.1:3000/hook' });
+      await run();
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(service.listDeadLetters()).toEqual([
+        expect.objectContaining({ lastError: '127.0.0.1 is not a public address' }),
+      ]);
+    });
+  });
+});
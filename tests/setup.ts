@@ -0,0 +1,4 @@
+import logger from '../src/utils/logger';
+
+// Tests check behaviour, not log lines
+logger.silent = true;
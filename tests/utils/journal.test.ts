@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonJournal } from '../../src/utils/journal';
+
+interface Row {
+  id: string;
+  value: number;
+}
+
+describe('JsonJournal', () => {
+  let dir: string;
+  let filePath: string;
+
+  const lines = () => fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'));
+    filePath = path.join(dir, 'nested', 'rows.journal');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays puts and deletes after a restart', () => {
+    const journal = new JsonJournal<Row>(filePath);
+    journal.put({ id: 'a', value: 1 });
+    journal.put({ id: 'b', value: 2 });
+    journal.put({ id: 'a', value: 3 });
+    journal.delete('b');
+
+    const reopened = new JsonJournal<Row>(filePath);
+    expect(reopened.values()).toEqual([{ id: 'a', value: 3 }]);
+    expect(reopened.size).toBe(1);
+  });
+
+  it('skips a torn last line and keeps every complete entry', () => {
+    const journal = new JsonJournal<Row>(filePath);
+    journal.put({ id: 'a', value: 1 });
+    journal.put({ id: 'b', value: 2 });
+    fs.appendFileSync(filePath, '{"op":"put","record":{"id":"c","val');
+
+    const reopened = new JsonJournal<Row>(filePath);
+    expect(reopened.values().map((row) => row.id)).toEqual(['a', 'b']);
+    // The torn line is dropped when the file is compacted on load
+    expect(lines()).toHaveLength(2);
+  });
+
+  it('compacts on load to one line per live record', () => {
+    const journal = new JsonJournal<Row>(filePath);
+    for (let value = 0; value < 10; value++) {
+      journal.put({ id: 'a', value });
+    }
+    journal.put({ id: 'b', value: 0 });
+    journal.delete('b');
+    expect(lines()).toHaveLength(12);
+
+    new JsonJournal<Row>(filePath);
+    expect(lines().map((line) => JSON.parse(line))).toEqual([{ op: 'put', record: { id: 'a', value: 9 } }]);
+  });
+
+  it('compacts once stale entries pile up', () => {
+    const journal = new JsonJournal<Row>(filePath);
+    for (let value = 0; value <= 1000; value++) {
+      journal.put({ id: 'a', value });
+    }
+
+    expect(lines()).toHaveLength(1);
+    journal.put({ id: 'a', value: 1001 });
+    expect(lines()).toHaveLength(2);
+    expect(new JsonJournal<Row>(filePath).get('a')).toEqual({ id: 'a', value: 1001 });
+  });
+
+  it('clears every record on disk', () => {
+    const journal = new JsonJournal<Row>(filePath);
+    journal.put({ id: 'a', value: 1 });
+    journal.clear();
+
+    expect(lines()).toHaveLength(0);
+    expect(new JsonJournal<Row>(filePath).size).toBe(0);
+  });
+});
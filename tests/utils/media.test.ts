@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MediaUtil } from '../../src/utils/media';
+
+const bytes = (...values: number[]) => Buffer.from(values);
+const text = (value: string) => Buffer.from(value, 'latin1');
+
+describe('MediaUtil', () => {
+  describe('detectMimeType', () => {
+    it('recognises images, documents, audio and video by their first bytes', () => {
+      expect(MediaUtil.detectMimeType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg');
+      expect(MediaUtil.detectMimeType(text('\x89PNG\r\n\x1a\n....'))).toBe('image/png');
+      expect(MediaUtil.detectMimeType(text('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+      expect(MediaUtil.detectMimeType(text('%PDF-1.7\n'))).toBe('application/pdf');
+      expect(MediaUtil.detectMimeType(text('ID3\x04\0\0'))).toBe('audio/mpeg');
+      expect(MediaUtil.detectMimeType(text('\0\0\0\x20ftypM4A '))).toBe('audio/mp4');
+      expect(MediaUtil.detectMimeType(text('\0\0\0\x20ftypisom'))).toBe('video/mp4');
+    });
+
+    it('ignores a misleading file name', () => {
+      expect(MediaUtil.detectMimeType(text('%PDF-1.7\n'), 'scan.jpg')).toBe('application/pdf');
+    });
+
+    it('tells Office formats apart by their contents or, failing that, their extension', () => {
+      const ole = bytes(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1);
+      expect(MediaUtil.detectMimeType(ole, 'report.xls')).toBe('application/vnd.ms-excel');
+      expect(MediaUtil.detectMimeType(ole, 'report.doc')).toBe('application/msword');
+
+      expect(MediaUtil.detectMimeType(text('PK\x03\x04....word/document.xml'), 'file')).toBe(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      );
+      expect(MediaUtil.detectMimeType(text('PK\x03\x04....xl/workbook.xml'), 'file')).toBe(
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      );
+      expect(MediaUtil.detectMimeType(text('PK\x03\x04....'), 'archive.zip')).toBeNull();
+    });
+
+    it('takes content without NUL bytes for text', () => {
+      expect(MediaUtil.detectMimeType(Buffer.from('name,phone\nسارة,0501234567\n'), 'list.csv')).toBe(
+        'text/csv',
+      );
+      expect(MediaUtil.detectMimeType(Buffer.from('hello'), 'notes')).toBe('text/plain');
+      expect(MediaUtil.detectMimeType(bytes(0x00, 0x01, 0x02))).toBeNull();
+      expect(MediaUtil.detectMimeType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('saveBase64', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-'));
+    });
+
+    afterEach(() => {
+      MediaUtil.configure({ maxBytes: 16 * 1024 * 1024 });
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('saves the decoded file with the type of its data URL', async () => {
+      const saved = await MediaUtil.saveBase64(
+        `data:application/pdf;base64,${Buffer.from('%PDF-1.7').toString('base64')}`,
+        dir,
+        'invoice',
+      );
+
+      expect(saved).toMatchObject({
+        type: 'document',
+        mimetype: 'application/pdf',
+        filename: 'invoice',
+        size: 8,
+      });
+      expect(fs.readFileSync((saved as { path: string }).path, 'utf8')).toBe('%PDF-1.7');
+    });
+
+    it('refuses a file over the size limit before decoding it', async () => {
+      MediaUtil.configure({ maxBytes: 4 });
+
+      expect(await MediaUtil.saveBase64(Buffer.from('12345').toString('base64'), dir, 'a.txt')).toEqual({
+        status: 413,
+        error: 'Media is larger than 4 bytes',
+      });
+      expect(await MediaUtil.saveBase64(Buffer.from('1234').toString('base64'), dir, 'a.txt')).toMatchObject({
+        size: 4,
+      });
+    });
+
+    it('refuses invalid base64 and types that may not be sent', async () => {
+      expect(await MediaUtil.saveBase64('not base64!', dir, 'a.txt')).toMatchObject({ status: 400 });
+      expect(await MediaUtil.saveBase64('aGVsbG8=', dir, 'run.exe')).toMatchObject({ status: 415 });
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+  });
+
+  describe('download', () => {
+    afterEach(() => {
+      MediaUtil.configure({ allowedHosts: [] });
+    });
+
+    it('refuses URLs that lead to this machine', async () => {
+      expect(await MediaUtil.download('http://127.0.0.1:3000/a.jpg', os.tmpdir())).toMatchObject({
+        status: 400,
+        error: 'Cannot fetch media: 127.0.0.1 is not a public address',
+      });
+    });
+
+    it('refuses hosts outside the allowed list', async () => {
+      MediaUtil.configure({ allowedHosts: ['cdn.example.com'] });
+
+      expect(await MediaUtil.download('https://files.example.com/a.jpg', os.tmpdir())).toEqual({
+        status: 400,
+        error: 'Fetching media from files.example.com is not allowed',
+      });
+    });
+  });
+});
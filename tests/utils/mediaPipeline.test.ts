@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MessageQueueItem } from '../../src/types';
+import { MediaPipelineUtil } from '../../src/utils/mediaPipeline';
+
+const MB = 1024 * 1024;
+
+describe('MediaPipelineUtil', () => {
+  let dir: string;
+
+  const write = (name: string, content: Buffer | string): NonNullable<MessageQueueItem['media']> => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return { type: 'image', path: filePath, filename: name };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-'));
+  });
+
+  afterEach(() => {
+    MediaPipelineUtil.configure({
+      sizeLimits: { image: 5 * MB, video: 16 * MB, audio: 16 * MB, document: 100 * MB },
+    });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('content type', () => {
+    it('sends a file as what its content is, whatever its name says', async () => {
+      const media = write('scan.jpg', 'name,phone\n');
+
+      expect(await MediaPipelineUtil.process(media)).toEqual({
+        ...media,
+        type: 'document',
+        mimetype: 'text/plain',
+      });
+    });
+
+    it('refuses content that is not an allowed type', async () => {
+      const media = write('photo.jpg', Buffer.from([0x00, 0x01, 0x02, 0x03]));
+
+      expect(await MediaPipelineUtil.process(media)).toEqual({
+        status: 415,
+        error: 'Media content is not an allowed image, video, audio or document type',
+      });
+      // The original is the caller's to delete
+      expect(fs.existsSync(media.path)).toBe(true);
+    });
+
+    it('only makes voice notes from audio', async () => {
+      expect(await MediaPipelineUtil.process(write('notes.txt', 'hello'), { voiceNote: true })).toEqual({
+        status: 400,
+        error: 'voiceNote needs an audio file',
+      });
+    });
+
+    it('sends ogg/opus audio as a voice note without converting it', async () => {
+      const media = write(
+        'note.ogg',
+        Buffer.concat([Buffer.from('OggS'), Buffer.alloc(24), Buffer.from('OpusHead')]),
+      );
+
+      expect(await MediaPipelineUtil.process(media, { voiceNote: true })).toEqual({
+        ...media,
+        type: 'audio',
+        mimetype: 'audio/ogg; codecs=opus',
+        voiceNote: true,
+      });
+    });
+  });
+
+  describe('size limits', () => {
+    it("applies WhatsApp's limit for the file's type", async () => {
+      MediaPipelineUtil.configure({
+        sizeLimits: { image: 1 * MB, video: 16 * MB, audio: 16 * MB, document: 2 * MB },
+      });
+      const gif = write('animation.gif', Buffer.concat([Buffer.from('GIF89a'), Buffer.alloc(1.5 * MB, 1)]));
+      const text = write('big.txt', 'a'.repeat(1.5 * MB));
+
+      expect(await MediaPipelineUtil.process(gif)).toEqual({
+        status: 413,
+        error: 'Images may be at most 1 MB on WhatsApp; this one is 1.5 MB',
+      });
+      expect(await MediaPipelineUtil.process(text)).toMatchObject({
+        type: 'document',
+        mimetype: 'text/plain',
+      });
+    });
+  });
+});
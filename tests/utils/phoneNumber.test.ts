@@ -0,0 +1,71 @@
+import { PhoneNumberUtil } from '../../src/utils/phoneNumber';
+
+describe('PhoneNumberUtil', () => {
+  afterEach(() => {
+    PhoneNumberUtil.configure({ allowedCountries: ['SA', 'EG'], defaultCountry: 'SA', priority: [] });
+  });
+
+  describe('parseNumber', () => {
+    beforeEach(() => {
+      PhoneNumberUtil.configure({ allowedCountries: ['SA', 'EG'], defaultCountry: 'SA', priority: [] });
+    });
+
+    it('parses a national number in the default country', () => {
+      expect(PhoneNumberUtil.parseNumber('050 123 4567')).toBe('+966501234567');
+    });
+
+    it('falls through to another allowed country when the default does not fit', () => {
+      expect(PhoneNumberUtil.parseNumber('01012345678')).toBe('+201012345678');
+      expect(PhoneNumberUtil.getCountryCode('01012345678')).toBe('EG');
+    });
+
+    it('treats a leading 00 as an international prefix', () => {
+      expect(PhoneNumberUtil.parseNumber('00201012345678')).toBe('+201012345678');
+      expect(PhoneNumberUtil.parseNumber('+966 50 123 4567')).toBe('+966501234567');
+    });
+
+    it('refuses numbers from countries that are not allowed', () => {
+      expect(PhoneNumberUtil.parseNumber('+971501234567')).toBeNull();
+      expect(PhoneNumberUtil.parseNumber('not a number')).toBeNull();
+    });
+
+    it('parses in the hinted country over the default', () => {
+      expect(PhoneNumberUtil.parseNumber('0501234567', 'EG')).toBe('+20501234567');
+    });
+
+    it('refuses a hint for a country that is not allowed', () => {
+      expect(PhoneNumberUtil.parseNumber('0501234567', 'AE')).toBeNull();
+    });
+  });
+
+  describe('priority', () => {
+    it('tries priority countries after the default and before the rest', () => {
+      PhoneNumberUtil.configure({
+        allowedCountries: ['KW', 'SA', 'AE'],
+        defaultCountry: 'KW',
+        priority: ['AE'],
+      });
+      expect(PhoneNumberUtil.parseNumber('0501234567')).toBe('+971501234567');
+
+      PhoneNumberUtil.configure({ allowedCountries: ['KW', 'SA', 'AE'], defaultCountry: 'KW', priority: [] });
+      expect(PhoneNumberUtil.parseNumber('0501234567')).toBe('+966501234567');
+    });
+
+    it('ignores priority countries that are not allowed', () => {
+      PhoneNumberUtil.configure({ allowedCountries: ['SA'], priority: ['AE', 'SA'] });
+      expect(PhoneNumberUtil.parseNumber('0501234567')).toBe('+966501234567');
+      expect(PhoneNumberUtil.isAllowedCountry('AE')).toBe(false);
+    });
+  });
+
+  describe('WhatsApp addresses', () => {
+    it('formats a number as a user JID', () => {
+      expect(PhoneNumberUtil.formatForWhatsApp('0501234567')).toBe('966501234567@s.whatsapp.net');
+    });
+
+    it('recognises group JIDs', () => {
+      expect(PhoneNumberUtil.isGroupJid('120363012345678901@g.us')).toBe(true);
+      expect(PhoneNumberUtil.isGroupJid('966501234567@s.whatsapp.net')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { QueueLaneUtil } from '../../src/utils/queueLanes';
+
+describe('QueueLaneUtil', () => {
+  beforeEach(() => {
+    QueueLaneUtil.configure({
+      lanes: [
+        { name: 'marketing', weight: 1 },
+        { name: 'otp', weight: 10, minDelayMs: 500, maxDelayMs: 1500 },
+        { name: 'transactional', weight: 5 },
+      ],
+      defaultLane: 'transactional',
+    });
+  });
+
+  it('lists lanes heaviest first', () => {
+    expect(QueueLaneUtil.getLanes().map((lane) => lane.name)).toEqual(['otp', 'transactional', 'marketing']);
+  });
+
+  it('finds a lane by name, or the default lane without one', () => {
+    expect(QueueLaneUtil.getLane('otp')).toEqual({
+      name: 'otp',
+      weight: 10,
+      minDelayMs: 500,
+      maxDelayMs: 1500,
+    });
+    expect(QueueLaneUtil.getLane()?.name).toBe('transactional');
+    expect(QueueLaneUtil.getLane('bulk')).toBeNull();
+  });
+
+  it('reads integer priorities from numbers and strings', () => {
+    expect(QueueLaneUtil.parsePriority(5)).toBe(5);
+    expect(QueueLaneUtil.parsePriority(' -2 ')).toBe(-2);
+    expect(QueueLaneUtil.parsePriority('1.5')).toBeNull();
+    expect(QueueLaneUtil.parsePriority('')).toBeNull();
+    expect(QueueLaneUtil.parsePriority(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { Boom } from '@hapi/boom';
+import { RetryPolicyUtil } from '../../src/utils/retryPolicy';
+
+const boom = (statusCode: number, message = 'Request failed') => new Boom(message, { statusCode });
+
+describe('RetryPolicyUtil', () => {
+  describe('classify', () => {
+    it('treats a dead or replaced connection as reconnect', () => {
+      expect(RetryPolicyUtil.classify(boom(428))).toBe('reconnect');
+      expect(RetryPolicyUtil.classify(boom(515))).toBe('reconnect');
+      expect(RetryPolicyUtil.classify(new Error('Connection Closed'))).toBe('reconnect');
+      expect(RetryPolicyUtil.classify('WhatsApp is not connected')).toBe('reconnect');
+    });
+
+    it('treats requests WhatsApp will never accept as permanent', () => {
+      expect(RetryPolicyUtil.classify(boom(404))).toBe('permanent');
+      expect(RetryPolicyUtil.classify(new Error('Invalid phone number'))).toBe('permanent');
+      expect(RetryPolicyUtil.classify(new Error("ENOENT: no such file or directory, open 'a.jpg'"))).toBe(
+        'permanent',
+      );
+    });
+
+    it('lets the status code win over the message', () => {
+      expect(RetryPolicyUtil.classify(boom(440, 'forbidden'))).toBe('reconnect');
+    });
+
+    it('retries anything else', () => {
+      expect(RetryPolicyUtil.classify(boom(429, 'rate-overlimit'))).toBe('retryable');
+      expect(RetryPolicyUtil.classify(new Error('Media upload failed'))).toBe('retryable');
+      expect(RetryPolicyUtil.classify(undefined)).toBe('retryable');
+      expect(RetryPolicyUtil.classify({ output: { statusCode: 428 } })).toBe('retryable');
+    });
+  });
+
+  describe('getBackoff', () => {
+    beforeAll(() => {
+      RetryPolicyUtil.configure({ baseDelayMs: 1000, maxDelayMs: 8000 });
+    });
+
+    afterAll(() => {
+      RetryPolicyUtil.configure({ baseDelayMs: 5000, maxDelayMs: 10 * 60 * 1000 });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const bounds = (failures: number) => {
+      const random = jest.spyOn(Math, 'random');
+      random.mockReturnValue(0);
+      const low = RetryPolicyUtil.getBackoff(failures);
+      random.mockReturnValue(1);
+      return [low, RetryPolicyUtil.getBackoff(failures)];
+    };
+
+    it('doubles with every failure, with jitter down to half', () => {
+      expect(bounds(1)).toEqual([500, 1000]);
+      expect(bounds(2)).toEqual([1000, 2000]);
+      expect(bounds(3)).toEqual([2000, 4000]);
+    });
+
+    it('stays under the ceiling', () => {
+      expect(bounds(4)).toEqual([4000, 8000]);
+      expect(bounds(30)).toEqual([4000, 8000]);
+    });
+  });
+
+  it('limits attempts per error class', () => {
+    RetryPolicyUtil.configure({ maxAttempts: { retryable: 4, permanent: 2 } });
+    expect(RetryPolicyUtil.getMaxAttempts('retryable')).toBe(4);
+    expect(RetryPolicyUtil.getMaxAttempts('permanent')).toBe(2);
+    RetryPolicyUtil.configure({ maxAttempts: { retryable: 3, permanent: 1 } });
+  });
+});
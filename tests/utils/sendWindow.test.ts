@@ -0,0 +1,114 @@
+import { PhoneNumberUtil } from '../../src/utils/phoneNumber';
+import { SendWindowUtil } from '../../src/utils/sendWindow';
+
+const SAUDI_NUMBER = '+966501234567';
+const UK_NUMBER = '+447400123456';
+
+describe('SendWindowUtil', () => {
+  beforeAll(() => {
+    PhoneNumberUtil.configure({ allowedCountries: ['SA', 'EG', 'GB'], defaultCountry: 'SA', priority: [] });
+  });
+
+  afterAll(() => {
+    PhoneNumberUtil.configure({ allowedCountries: ['SA', 'EG'], defaultCountry: 'SA', priority: [] });
+  });
+
+  afterEach(() => {
+    SendWindowUtil.configure({ quietHours: {} });
+  });
+
+  describe('getNextSendTime', () => {
+    it('sends right away without quiet hours', () => {
+      const at = Date.parse('2024-05-01T21:00:00Z');
+      expect(SendWindowUtil.getNextSendTime(SAUDI_NUMBER, at)).toBe(at);
+    });
+
+    it('sends right away outside quiet hours', () => {
+      SendWindowUtil.configure({ quietHours: { SA: { start: 22 * 60, end: 8 * 60 } } });
+      const at = Date.parse('2024-05-01T10:00:00Z'); // 13:00 in Riyadh
+      expect(SendWindowUtil.getNextSendTime(SAUDI_NUMBER, at)).toBe(at);
+    });
+
+    it('waits for the end of quiet hours that span midnight', () => {
+      SendWindowUtil.configure({ quietHours: { SA: { start: 22 * 60, end: 8 * 60 } } });
+      const wakeUp = Date.parse('2024-05-02T05:00:00Z'); // 08:00 in Riyadh
+
+      // 23:00 before midnight and 01:30 after it, local time
+      expect(SendWindowUtil.getNextSendTime(SAUDI_NUMBER, Date.parse('2024-05-01T20:00:00Z'))).toBe(wakeUp);
+      expect(SendWindowUtil.getNextSendTime(SAUDI_NUMBER, Date.parse('2024-05-01T22:30:45Z'))).toBe(wakeUp);
+      expect(SendWindowUtil.getNextSendTime(SAUDI_NUMBER, wakeUp)).toBe(wakeUp);
+    });
+
+    it('applies the "*" entry to countries without their own', () => {
+      SendWindowUtil.configure({ quietHours: { '*': { start: 13 * 60, end: 15 * 60 } } });
+      expect(SendWindowUtil.getNextSendTime(SAUDI_NUMBER, Date.parse('2024-05-01T10:30:00Z'))).toBe(
+        Date.parse('2024-05-01T12:00:00Z'),
+      );
+    });
+
+    it('still lands outside quiet hours when the clocks go back overnight', () => {
+      SendWindowUtil.configure({ quietHours: { GB: { start: 22 * 60, end: 7 * 60 } } });
+      // 22:00 BST; London falls back to GMT at 02:00, making the night an hour longer
+      const next = SendWindowUtil.getNextSendTime(UK_NUMBER, Date.parse('2024-10-26T21:00:00Z'));
+      expect(next).toBe(Date.parse('2024-10-27T07:00:00Z')); // 07:00 GMT
+    });
+
+    it('does not wait an extra hour when the clocks go forward overnight', () => {
+      SendWindowUtil.configure({ quietHours: { GB: { start: 22 * 60, end: 7 * 60 } } });
+      // 23:00 GMT; London springs forward to BST at 01:00, making the night an hour shorter
+      const next = SendWindowUtil.getNextSendTime(UK_NUMBER, Date.parse('2024-03-30T23:00:00Z'));
+      expect(next).toBe(Date.parse('2024-03-31T06:00:00Z')); // 07:00 BST
+    });
+
+    it('waits for quiet hours that end inside the skipped hour', () => {
+      SendWindowUtil.configure({ quietHours: { GB: { start: 0, end: 90 } } });
+      // 00:30 GMT; 01:30 does not exist that night, so sending resumes when the clocks reach 02:00 BST
+      const next = SendWindowUtil.getNextSendTime(UK_NUMBER, Date.parse('2024-03-31T00:30:00Z'));
+      expect(SendWindowUtil.getNextSendTime(UK_NUMBER, next)).toBe(next);
+      expect(next).toBeGreaterThan(Date.parse('2024-03-31T00:30:00Z'));
+    });
+  });
+
+  describe('parseSendAt', () => {
+    it('accepts epoch milliseconds as a number or digits', () => {
+      expect(SendWindowUtil.parseSendAt(1714550400000)).toBe(1714550400000);
+      expect(SendWindowUtil.parseSendAt('1714550400000')).toBe(1714550400000);
+      expect(SendWindowUtil.parseSendAt(Number.NaN)).toBeNull();
+    });
+
+    it('keeps the offset of an ISO timestamp', () => {
+      expect(SendWindowUtil.parseSendAt('2024-05-01T09:00:00+03:00', 'Europe/London')).toBe(
+        Date.parse('2024-05-01T06:00:00Z'),
+      );
+    });
+
+    it('reads a local date-time in the given time zone on both sides of a DST change', () => {
+      expect(SendWindowUtil.parseSendAt('2024-03-30T09:00', 'Europe/London')).toBe(
+        Date.parse('2024-03-30T09:00:00Z'),
+      );
+      expect(SendWindowUtil.parseSendAt('2024-03-31 09:00', 'Europe/London')).toBe(
+        Date.parse('2024-03-31T08:00:00Z'),
+      );
+      expect(SendWindowUtil.parseSendAt('2024-05-01T09:00:30', 'Asia/Riyadh')).toBe(
+        Date.parse('2024-05-01T06:00:30Z'),
+      );
+    });
+
+    it('rejects values it cannot read', () => {
+      expect(SendWindowUtil.parseSendAt('')).toBeNull();
+      expect(SendWindowUtil.parseSendAt('tomorrow')).toBeNull();
+      expect(SendWindowUtil.parseSendAt({})).toBeNull();
+    });
+  });
+
+  describe('getCountriesWithoutTimeZone', () => {
+    it('lists countries under quiet hours that have no time zone', () => {
+      SendWindowUtil.configure({ quietHours: { '*': { start: 22 * 60, end: 8 * 60 } } });
+      expect(SendWindowUtil.getCountriesWithoutTimeZone(['SA', 'FR', 'eg'])).toEqual(['FR']);
+    });
+
+    it('lists nothing without quiet hours', () => {
+      expect(SendWindowUtil.getCountriesWithoutTimeZone(['FR'])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { TemplateUtil } from '../../src/utils/template';
+
+describe('TemplateUtil', () => {
+  describe('getPlaceholders', () => {
+    it('lists each placeholder once in order of first use', () => {
+      expect(TemplateUtil.getPlaceholders('Hi {{name}}, order {{ order }} for {{name}}')).toEqual([
+        'name',
+        'order',
+      ]);
+    });
+
+    it('returns nothing for plain text', () => {
+      expect(TemplateUtil.getPlaceholders('No placeholders { here }')).toEqual([]);
+    });
+  });
+
+  describe('render', () => {
+    it('fills placeholders, matching names case-insensitively', () => {
+      const result = TemplateUtil.render('Hi {{ Name }}, your code is {{code}}', {
+        name: 'Sara',
+        CODE: 4821,
+      });
+      expect(result).toEqual({ text: 'Hi Sara, your code is 4821', missing: [] });
+    });
+
+    it('keeps placeholders without a value and reports them once', () => {
+      const result = TemplateUtil.render('{{a}} {{b}} {{c}} {{b}}', { a: 'x', b: '  ', c: null });
+      expect(result.text).toBe('x {{b}} {{c}} {{b}}');
+      expect(result.missing).toEqual(['b', 'c']);
+    });
+
+    it('renders falsy values that are not blank', () => {
+      expect(TemplateUtil.render('{{count}} left, done: {{done}}', { count: 0, done: false }).text).toBe(
+        '0 left, done: false',
+      );
+    });
+
+    it('trims whitespace around value keys', () => {
+      expect(TemplateUtil.render('{{city}}', { ' City ': 'Cairo' }).text).toBe('Cairo');
+    });
+  });
+});